@@ -1,8 +1,8 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import { Mic, ArrowLeft, GraduationCap } from 'lucide-react';
-import { Frame, AnimationState, DrawingSettings, ToolType, Project, Tutorial, DrawObject } from './types';
+import { Frame, ImageHandle, AnimationState, DrawingSettings, ToolType, Project, Tutorial, DrawObject, OnionSkinSettings, BrushPreset, EffectRun, LayerKind } from './types';
 import { Canvas, CanvasHandle } from './components/Canvas';
 import { ObjectCanvas, ObjectCanvasHandle } from './components/ObjectCanvas';
 import { Toolbar } from './components/Toolbar';
@@ -15,38 +15,46 @@ import { Home } from './components/Home';
 import { TutorialSidebar } from './components/TutorialSidebar';
 import { FloatingVideoPlayer } from './components/FloatingVideoPlayer';
 import { Intro } from './components/Intro';
-import { generateMeltAnimation } from './services/meltEffect';
+import { ExportDialog } from './components/ExportDialog';
+import { JobProgress } from './components/JobProgress';
+import { StageViewport } from './components/StageViewport';
+import { ImageCanvas } from './components/ImageCanvas';
+import { getEffect, renderEffectInput, runEffect } from './services/effects';
+import { isCancelled, JobOptions, runJob } from './services/jobs';
 import { editFrameWithAI } from './services/geminiService';
-
-// Helper to create a transparent blank layer
-const createBlankLayer = (width: number, height: number): string => {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  return canvas.toDataURL(); // Transparent by default
-};
-
-// Helper to create a composite white frame
-const createWhiteComposite = (width: number, height: number): string => {
-  const canvas = document.createElement('canvas');
-  canvas.width = width;
-  canvas.height = height;
-  const ctx = canvas.getContext('2d');
-  if (ctx) {
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillRect(0, 0, width, height);
-  }
-  return canvas.toDataURL();
-};
-
-const createLayeredFrame = (width: number, height: number): Frame => {
-  const transparent = createBlankLayer(width, height);
-  return {
-    id: uuidv4(),
-    dataUrl: createWhiteComposite(width, height),
-    layers: [transparent, transparent, transparent] // Back, Mid, Fore
-  };
-};
+import { listProjects, loadProjectFrames, saveProject, scheduleProjectSave, flushProjectSaves, deleteProject, saveProjectAudio, loadProjectAudio } from './services/projectStorage';
+import { exportProjectBundle, importProjectBundle, BUNDLE_EXTENSION } from './services/projectBundle';
+import { downloadBlob, toFileName } from './services/download';
+import { fitToArea, LEGACY_PROJECT_SIZE, ResolutionPreset } from './services/resolution';
+import { ViewTransform, DEFAULT_VIEW } from './services/viewTransform';
+import { getFrameDelayMs, MAX_FRAME_DURATION } from './services/frameTiming';
+import { DEFAULT_ONION_SKIN, getOnionSkinFrames } from './services/onionSkin';
+import { addLayer, conformFrameLayers, createBlankLayersLike, createDefaultLayers, findRasterLayerBelow, generateLayerName, LayerProperties, moveLayer, removeLayer, updateLayer } from './services/layers';
+import { compositeLayers, PAPER_COLOR, rasterizeObjects, recompositeFrames } from './services/compositing';
+import { createImage, createImageFromDataUrl, getBlankImage, imageToDataUrl } from './services/frameStore';
+import { DEFAULT_FILL_SETTINGS } from './services/floodFill';
+import { DEFAULT_PICKER_SETTINGS } from './services/colorSampling';
+import { DEFAULT_SELECTION_SETTINGS } from './services/pixelSelection';
+import { DEFAULT_SHAPE_STYLE } from './services/shapes';
+import { DEFAULT_TEXT_STYLE } from './services/text';
+import { DEFAULT_BRUSH_ID, getBrushPreset, getToolBrush } from './services/brushPresets';
+import { EMPTY_HISTORY, HistorySnapshot, pushHistory, redoHistory, undoHistory } from './services/history';
+import { cloneFrames, deleteFrames, duplicateFrames, getFrameRange, getSelectedFrames, insertFrames, moveFrames, nudgeFrames, reverseFrames } from './services/frameOperations';
+
+const EFFECT_PREVIEW_WIDTH = 240; // Effects are previewed this small to stay quick
+
+const createLayeredFrame = (width: number, height: number): Frame => ({
+  id: uuidv4(),
+  composite: getBlankImage(width, height, PAPER_COLOR),
+  layers: createDefaultLayers(getBlankImage(width, height)) // Back, Mid, Fore
+});
+
+// Blank frame with the same layers as `template`, so every frame of a project lines up
+const createFrameLike = (template: Frame, width: number, height: number): Frame => ({
+  id: uuidv4(),
+  composite: getBlankImage(width, height, PAPER_COLOR),
+  layers: createBlankLayersLike(template.layers, getBlankImage(width, height))
+});
 
 function App() {
   // --- Intro State ---
@@ -55,44 +63,100 @@ function App() {
   // --- Navigation State ---
   const [currentView, setCurrentView] = useState<'home' | 'editor'>('home');
   const [currentProject, setCurrentProject] = useState<Project | null>(null);
-  const [projects, setProjects] = useState<Project[]>(() => {
-    const saved = localStorage.getItem('animate_projects');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [projects, setProjects] = useState<Project[]>([]);
   const [showTutorials, setShowTutorials] = useState(false);
   const [floatingVideo, setFloatingVideo] = useState<Tutorial | null>(null);
 
   // --- Editor State ---
-  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  const [viewportSize, setViewportSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewTransform>(DEFAULT_VIEW);
   const containerRef = useRef<HTMLDivElement>(null);
 
   const [frames, setFrames] = useState<Frame[]>([]);
   const [currentFrameIndex, setCurrentFrameIndex] = useState(0);
+  const [selectedFrameIds, setSelectedFrameIds] = useState<string[]>([]);
+  const selectionAnchorRef = useRef(0); // Frame index shift-click ranges start from
+  // Copied frames live outside the project so they can be pasted into another one
+  const [frameClipboard, setFrameClipboard] = useState<Frame[]>([]);
   const [activeLayerIndex, setActiveLayerIndex] = useState(1); // Default to Middle layer
   const [isPlaying, setIsPlaying] = useState(false);
   const [fps, setFps] = useState(8);
   const [onionSkin, setOnionSkin] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [onionSkinSettings, setOnionSkinSettings] = useState<OnionSkinSettings>(() => {
+    try {
+      const saved = localStorage.getItem('animate_onion_skin');
+      return saved ? { ...DEFAULT_ONION_SKIN, ...JSON.parse(saved) } : DEFAULT_ONION_SKIN;
+    } catch (e) {
+      console.error("Failed to load onion skin settings", e);
+      return DEFAULT_ONION_SKIN;
+    }
+  });
+  // Background job in progress (e.g. an effect), shown with a progress bar in the top bar
+  const [processing, setProcessing] = useState<{ label: string; progress: number } | null>(null);
+  const processingAbortRef = useRef<AbortController | null>(null);
+  const isProcessing = processing !== null;
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [showGrid, setShowGrid] = useState(false);
   const [showLayers, setShowLayers] = useState(false);
   const [cinemaMode, setCinemaMode] = useState(false);
   const [isVoiceActive, setIsVoiceActive] = useState(false);
-
-  // History State managed by Canvas component
-  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  const [showExport, setShowExport] = useState(false);
+
+  // Project-wide undo history. Changes to `frames` are recorded automatically; handlers
+  // name the change (and optionally merge repeated ones) with `labelNextEdit` first.
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const lastSnapshotRef = useRef<HistorySnapshot | null>(null);
+  const pendingEditRef = useRef<{ label: string; coalesceKey?: string } | null>(null);
+  const skipHistoryRef = useRef(false);
   const canvasRef = useRef<CanvasHandle>(null);
   const objectCanvasRef = useRef<ObjectCanvasHandle>(null);
 
-  const [drawingSettings, setDrawingSettings] = useState<DrawingSettings>({
-    color: '#000000',
-    brushSize: 5,
-    tool: ToolType.PENCIL,
+  const [drawingSettings, setDrawingSettings] = useState<DrawingSettings>(() => {
+    const defaults: DrawingSettings = {
+      color: '#000000',
+      opacity: 1,
+      brushSize: 5,
+      tool: ToolType.PENCIL,
+      brushId: DEFAULT_BRUSH_ID,
+      fill: DEFAULT_FILL_SETTINGS,
+      picker: DEFAULT_PICKER_SETTINGS,
+      selection: DEFAULT_SELECTION_SETTINGS,
+      shape: DEFAULT_SHAPE_STYLE,
+      text: DEFAULT_TEXT_STYLE,
+      dynamics: {}
+    };
+    try {
+      // Tuned brush settings are a preference, shared by all projects
+      const saved = localStorage.getItem('animate_brush_dynamics');
+      return saved ? { ...defaults, dynamics: JSON.parse(saved) } : defaults;
+    } catch (e) {
+      console.error("Failed to load brush settings", e);
+      return defaults;
+    }
+  });
+
+  const [customBrushes, setCustomBrushes] = useState<BrushPreset[]>(() => {
+    try {
+      const saved = localStorage.getItem('animate_brush_presets');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      console.error("Failed to load brushes", e);
+      return [];
+    }
   });
+  const activeBrush = useMemo(() => (
+    getBrushPreset(drawingSettings.brushId, customBrushes) || getToolBrush(ToolType.PENCIL)
+  ), [drawingSettings.brushId, customBrushes]);
 
-  const playIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const playTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
+  // Drawing resolution is fixed per project; the stage is scaled to fit the viewport
+  const canvasSize = useMemo(() => (
+    currentProject ? { width: currentProject.width, height: currentProject.height } : LEGACY_PROJECT_SIZE
+  ), [currentProject]);
+  const stageSize = fitToArea(canvasSize.width, canvasSize.height, viewportSize.width, viewportSize.height);
+
   // --- Resize Observer ---
   useEffect(() => {
     if (currentView !== 'editor' || !containerRef.current) return;
@@ -101,7 +165,7 @@ function App() {
       if (containerRef.current) {
         const { clientWidth, clientHeight } = containerRef.current;
         // Only update if dimensions actually changed to avoid loops
-        setCanvasSize(prev => {
+        setViewportSize(prev => {
           if (prev.width === clientWidth && prev.height === clientHeight) return prev;
           return { width: clientWidth, height: clientHeight };
         });
@@ -117,77 +181,164 @@ function App() {
     return () => observer.disconnect();
   }, [currentView, showTutorials]); // Re-run when layout might change significantly
 
+  // Onion skin settings are a preference, shared by all projects
+  useEffect(() => {
+    localStorage.setItem('animate_onion_skin', JSON.stringify(onionSkinSettings));
+  }, [onionSkinSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('animate_brush_dynamics', JSON.stringify(drawingSettings.dynamics));
+  }, [drawingSettings.dynamics]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('animate_brush_presets', JSON.stringify(customBrushes));
+    } catch (e) {
+      // Custom stamp images can fill up storage
+      console.error("Failed to save brushes", e);
+    }
+  }, [customBrushes]);
+
+  const onionSkinFrames = useMemo(() => (
+    onionSkin ? getOnionSkinFrames(frames, currentFrameIndex, onionSkinSettings) : []
+  ), [onionSkin, frames, currentFrameIndex, onionSkinSettings]);
+
   // --- Project Management ---
 
+  // Load project list (metadata only) from IndexedDB, migrating old localStorage data on first run
   useEffect(() => {
-    localStorage.setItem('animate_projects', JSON.stringify(projects));
-  }, [projects]);
+    listProjects()
+      .then(setProjects)
+      .catch(e => console.error("Failed to load projects", e));
+  }, []);
 
   // Auto-save current project state when frames change
   useEffect(() => {
     if (currentProject && currentView === 'editor' && frames.length > 0) {
+      const updated: Project = {
+        ...currentProject,
+        frames: frames,
+        frameCount: frames.length,
+        preview: frames[0].composite,
+        lastModified: Date.now(),
+        fps: fps
+      };
+      scheduleProjectSave(updated);
+      // Keep only metadata in the project list; frames stay in editor state
       setProjects(prev => prev.map(p =>
-        p.id === currentProject.id
-          ? {
-            ...p,
-            frames: frames,
-            previewImage: frames[0].dataUrl,
-            lastModified: Date.now(),
-            fps: fps
-          }
-          : p
+        p.id === currentProject.id ? { ...updated, frames: [] } : p
       ));
     }
   }, [frames, fps, currentProject, currentView]);
 
-  const handleCreateProject = () => {
-    // Default size for new projects, will be updated by resize observer when editor loads
-    const width = 800;
-    const height = 600;
+  const handleCreateProject = (preset: ResolutionPreset) => {
+    const { width, height } = preset;
     const newProject: Project = {
       id: uuidv4(),
       name: `Sketch ${projects.length + 1}`,
       lastModified: Date.now(),
-      previewImage: '',
+      preview: null,
       frames: [createLayeredFrame(width, height)],
-      fps: 8
+      frameCount: 1,
+      fps: 8,
+      width,
+      height
     };
-    setProjects(prev => [newProject, ...prev]);
+    setProjects(prev => [{ ...newProject, frames: [] }, ...prev]);
+    saveProject(newProject).catch(e => console.error("Failed to save new project", e));
     handleSelectProject(newProject);
   };
 
-  const handleSelectProject = (project: Project) => {
+  const handleSelectProject = async (project: Project) => {
+    let projectFrames = project.frames;
+    if (projectFrames.length === 0 && project.frameCount) {
+      try {
+        projectFrames = await loadProjectFrames(project.id);
+      } catch (e) {
+        console.error("Failed to load project frames", e);
+        return;
+      }
+    }
+
+    // Restore the project's music track
+    let projectAudio: Blob | null = null;
+    try {
+      projectAudio = await loadProjectAudio(project.id);
+    } catch (e) {
+      console.error("Failed to load project audio", e);
+    }
+    if (audioUrl) URL.revokeObjectURL(audioUrl);
+    setAudioUrl(projectAudio ? URL.createObjectURL(projectAudio) : null);
+
     setCurrentProject(project);
-    // If project has frames, use them. If not, create one with default size (will be resized)
-    setFrames(project.frames.length > 0 ? project.frames : [createLayeredFrame(800, 600)]);
+    // If project has frames, use them. If not, start with a blank frame at the project size
+    const initialFrames = projectFrames.length > 0 ? projectFrames : [createLayeredFrame(project.width, project.height)];
+    skipHistoryRef.current = true;
+    setFrames(initialFrames);
+    setHistory(EMPTY_HISTORY);
+    setActiveLayerIndex(Math.min(1, initialFrames[0].layers.length - 1));
     setFps(project.fps);
     setCurrentFrameIndex(0);
-    setHistoryState({ canUndo: false, canRedo: false });
+    setSelectedFrameIds([]);
+    selectionAnchorRef.current = 0;
+    setView(DEFAULT_VIEW);
     setCurrentView('editor');
     setShowTutorials(false);
   };
 
   const handleDeleteProject = (id: string) => {
     setProjects(prev => prev.filter(p => p.id !== id));
+    deleteProject(id).catch(e => console.error("Failed to delete project", e));
     if (currentProject?.id === id) {
       setCurrentView('home');
       setCurrentProject(null);
     }
   };
 
+  const handleExportProject = async (project: Project) => {
+    try {
+      const projectFrames = currentProject?.id === project.id && frames.length > 0
+        ? frames
+        : await loadProjectFrames(project.id);
+      const projectAudio = await loadProjectAudio(project.id);
+      const bundle = await exportProjectBundle({ ...project, frames: projectFrames }, projectAudio);
+      downloadBlob(bundle, toFileName(project.name, BUNDLE_EXTENSION));
+    } catch (e) {
+      console.error("Failed to export project", e);
+    }
+  };
+
+  // Errors propagate so Home can tell the user the file couldn't be opened
+  const handleImportProject = async (file: File) => {
+    const { project, audio } = await importProjectBundle(file);
+    await saveProject(project);
+    if (audio) await saveProjectAudio(project.id, audio);
+    setProjects(prev => [{ ...project, frames: [] }, ...prev]);
+  };
+
   const handleGoHome = () => {
     setIsPlaying(false);
+    flushProjectSaves().catch(e => console.error("Failed to save project", e));
     setCurrentView('home');
   };
 
   // --- Editor Logic ---
 
+  // Advance playback one frame at a time so each frame is held for its own duration
+  const currentFrameDelay = frames[currentFrameIndex] ? getFrameDelayMs(frames[currentFrameIndex], fps) : 1000 / fps;
   useEffect(() => {
-    if (isPlaying) {
-      playIntervalRef.current = setInterval(() => {
-        setCurrentFrameIndex((prev) => (prev + 1) % frames.length);
-      }, 1000 / fps);
+    if (!isPlaying) return;
+    playTimeoutRef.current = setTimeout(() => {
+      setCurrentFrameIndex((prev) => (prev + 1) % frames.length);
+    }, currentFrameDelay);
 
+    return () => {
+      if (playTimeoutRef.current) clearTimeout(playTimeoutRef.current);
+    };
+  }, [isPlaying, currentFrameIndex, currentFrameDelay, frames.length]);
+
+  useEffect(() => {
+    if (isPlaying) {
       if (audioRef.current) {
         const playPromise = audioRef.current.play();
         if (playPromise !== undefined) {
@@ -199,16 +350,11 @@ function App() {
         }
       }
     } else {
-      if (playIntervalRef.current) clearInterval(playIntervalRef.current);
       if (audioRef.current) {
         audioRef.current.pause();
       }
     }
-
-    return () => {
-      if (playIntervalRef.current) clearInterval(playIntervalRef.current);
-    };
-  }, [isPlaying, frames.length, fps]);
+  }, [isPlaying]);
 
   useEffect(() => {
     return () => {
@@ -218,31 +364,102 @@ function App() {
     };
   }, [audioUrl]);
 
-  const handleDrawEnd = useCallback((newLayerData: string, newCompositeData: string) => {
+  // --- Undo / Redo ---
+
+  const labelNextEdit = (label: string, coalesceKey?: string) => {
+    pendingEditRef.current = { label, coalesceKey };
+  };
+
+  // Keep the "before" snapshot pointing at the frame and layer the user is on
+  useEffect(() => {
+    const last = lastSnapshotRef.current;
+    if (last && last.frames === frames) {
+      lastSnapshotRef.current = { frames, currentFrameIndex, activeLayerIndex };
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentFrameIndex, activeLayerIndex]);
+
+  useEffect(() => {
+    const before = lastSnapshotRef.current;
+    const after = { frames, currentFrameIndex, activeLayerIndex };
+    const edit = pendingEditRef.current;
+    lastSnapshotRef.current = after;
+    pendingEditRef.current = null;
+
+    if (skipHistoryRef.current) {
+      skipHistoryRef.current = false;
+      return;
+    }
+    if (!before || before.frames === frames || frames.length === 0) return;
+    setHistory(prev => pushHistory(prev, edit?.label ?? 'Edit', before, after, edit?.coalesceKey));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [frames]);
+
+  const restoreSnapshot = (snapshot: HistorySnapshot) => {
+    skipHistoryRef.current = true;
+    setFrames(snapshot.frames);
+    // Jump to where the change happened
+    setCurrentFrameIndex(Math.min(snapshot.currentFrameIndex, snapshot.frames.length - 1));
+    setActiveLayerIndex(Math.min(snapshot.activeLayerIndex, snapshot.frames[0].layers.length - 1));
+    // The snapshot may be from before its objects were composited
+    const frame = snapshot.frames[snapshot.currentFrameIndex];
+    if (frame?.layers.some(l => l.kind === 'vector')) scheduleRecomposite(frame.id);
+  };
+
+  const handleUndo = () => {
+    // An edited selection that isn't stamped down yet is undone first
+    if (canvasRef.current?.revertSelection()) return;
+    const result = undoHistory(history);
+    if (!result) return;
+    canvasRef.current?.cancelStroke();
+    objectCanvasRef.current?.cancelInteraction();
+    setHistory(result.state);
+    restoreSnapshot(result.snapshot);
+  };
+
+  const handleRedo = () => {
+    const result = redoHistory(history);
+    if (!result) return;
+    canvasRef.current?.cancelStroke();
+    objectCanvasRef.current?.cancelInteraction();
+    setHistory(result.state);
+    restoreSnapshot(result.snapshot);
+  };
+
+  const undoLabel = history.past[history.past.length - 1]?.label;
+  const redoLabel = history.future[0]?.label;
+
+  const handleDrawEnd = useCallback((newLayerImage: ImageHandle, newComposite: ImageHandle) => {
+    if (!pendingEditRef.current) labelNextEdit('Drawing');
     setFrames((prevFrames) => {
       const newFrames = [...prevFrames];
       const currentFrame = newFrames[currentFrameIndex];
 
-      const currentLayers = currentFrame.layers || [
-        createBlankLayer(canvasSize.width, canvasSize.height),
-        createBlankLayer(canvasSize.width, canvasSize.height),
-        createBlankLayer(canvasSize.width, canvasSize.height)
-      ];
-
-      const newLayers = [...currentLayers];
-      newLayers[activeLayerIndex] = newLayerData;
+      const newLayers = [...currentFrame.layers];
+      newLayers[activeLayerIndex] = { ...newLayers[activeLayerIndex], image: newLayerImage };
 
       newFrames[currentFrameIndex] = {
         ...currentFrame,
         layers: newLayers,
-        dataUrl: newCompositeData
+        composite: newComposite
       };
       return newFrames;
     });
-  }, [currentFrameIndex, activeLayerIndex, canvasSize]);
+  }, [currentFrameIndex, activeLayerIndex]);
+
+  // Raster selections are committed by id: switching frames commits the one left behind
+  const handleSelectionCommit = useCallback((frameId: string, layerId: string, newLayerImage: ImageHandle, newComposite: ImageHandle, label: string) => {
+    labelNextEdit(label);
+    setFrames(prev => prev.map(frame => (frame.id === frameId ? {
+      ...frame,
+      layers: frame.layers.map(layer => (layer.id === layerId ? { ...layer, image: newLayerImage } : layer)),
+      composite: newComposite
+    } : frame)));
+  }, []);
 
   const handleAddFrame = () => {
-    const newFrame = createLayeredFrame(canvasSize.width, canvasSize.height);
+    labelNextEdit('Add Frame');
+    const newFrame = createFrameLike(frames[currentFrameIndex], canvasSize.width, canvasSize.height);
     setFrames((prev) => {
       const newFrames = [...prev];
       newFrames.splice(currentFrameIndex + 1, 0, newFrame);
@@ -251,36 +468,135 @@ function App() {
     setCurrentFrameIndex((prev) => prev + 1);
   };
 
-  const handleDuplicateFrame = () => {
-    const currentFrame = frames[currentFrameIndex];
-    const newLayers = currentFrame.layers ? [...currentFrame.layers] : [currentFrame.dataUrl, createBlankLayer(canvasSize.width, canvasSize.height), createBlankLayer(canvasSize.width, canvasSize.height)];
+  // The frames bulk actions apply to. Falls back to the current frame when the
+  // stored selection no longer includes it (e.g. after adding or deleting frames).
+  const currentFrameId = frames[currentFrameIndex]?.id;
+  const selectedIds = useMemo(() => {
+    const existing = selectedFrameIds.filter(id => frames.some(f => f.id === id));
+    if (!currentFrameId) return existing;
+    return existing.includes(currentFrameId) ? existing : [currentFrameId];
+  }, [selectedFrameIds, frames, currentFrameId]);
+
+  // Commits a timeline edit, keeping `currentId` as the current frame where it survived
+  const applyFrameEdit = (label: string, nextFrames: Frame[], currentId: string | undefined, selection: string[]) => {
+    if (nextFrames === frames) return;
+    labelNextEdit(label);
+    const index = nextFrames.findIndex(f => f.id === currentId);
+    const nextIndex = index !== -1 ? index : Math.min(currentFrameIndex, nextFrames.length - 1);
+    setFrames(nextFrames);
+    setCurrentFrameIndex(nextIndex);
+    setSelectedFrameIds(selection);
+    selectionAnchorRef.current = nextIndex;
+  };
 
-    const newFrame: Frame = {
-      id: uuidv4(),
-      dataUrl: currentFrame.dataUrl,
-      layers: newLayers
-    };
-    setFrames((prev) => {
-      const newFrames = [...prev];
-      newFrames.splice(currentFrameIndex + 1, 0, newFrame);
-      return newFrames;
+  const handleSelectFrame = (index: number, modifiers: { range: boolean; toggle: boolean }) => {
+    const id = frames[index]?.id;
+    if (!id) return;
+
+    if (modifiers.range) {
+      // Shift-click: everything between the anchor and the clicked frame
+      setSelectedFrameIds(getFrameRange(frames, selectionAnchorRef.current, index));
+      setCurrentFrameIndex(index);
+      return;
+    }
+
+    if (modifiers.toggle) {
+      if (selectedIds.includes(id)) {
+        if (selectedIds.length === 1) return; // Keep at least one frame selected
+        const remaining = selectedIds.filter(s => s !== id);
+        setSelectedFrameIds(remaining);
+        if (id === currentFrameId) {
+          setCurrentFrameIndex(frames.findIndex(f => f.id === remaining[0]));
+        }
+      } else {
+        setSelectedFrameIds([...selectedIds, id]);
+        setCurrentFrameIndex(index);
+      }
+      selectionAnchorRef.current = index;
+      return;
+    }
+
+    setSelectedFrameIds([id]);
+    setCurrentFrameIndex(index);
+    selectionAnchorRef.current = index;
+  };
+
+  const handleDuplicateFrames = () => {
+    const { frames: nextFrames, inserted } = duplicateFrames(frames, selectedIds);
+    if (inserted.length === 0) return;
+    applyFrameEdit('Duplicate Frames', nextFrames, inserted[0].id, inserted.map(f => f.id));
+  };
+
+  const handleDeleteFrames = (ids: string[]) => {
+    const nextFrames = deleteFrames(frames, ids);
+    // Continue from the first frame after the deleted ones
+    const deleted = new Set(ids);
+    const nextCurrent = frames.slice(currentFrameIndex).find(f => !deleted.has(f.id))
+      ?? [...frames].reverse().find(f => !deleted.has(f.id));
+    applyFrameEdit('Delete Frames', nextFrames, nextCurrent?.id, []);
+  };
+
+  const handleReverseFrames = () => {
+    applyFrameEdit('Reverse Frames', reverseFrames(frames, selectedIds), currentFrameId, selectedIds);
+  };
+
+  const handleNudgeFrames = (direction: -1 | 1) => {
+    applyFrameEdit('Move Frames', nudgeFrames(frames, selectedIds, direction), currentFrameId, selectedIds);
+  };
+
+  // Drag and drop: `ids` land before the frame at `targetIndex`
+  const handleMoveFrames = (ids: string[], targetIndex: number) => {
+    const dragged = ids.includes(currentFrameId ?? '') ? currentFrameId : ids[0];
+    applyFrameEdit('Move Frames', moveFrames(frames, ids, targetIndex), dragged, ids);
+  };
+
+  const handleCopyFrames = () => {
+    setFrameClipboard(getSelectedFrames(frames, selectedIds));
+  };
+
+  // Pastes after the selection; copies get fresh ids so the same clipboard can be pasted repeatedly
+  const handlePasteFrames = () => {
+    if (frameClipboard.length === 0) return;
+    // Frames copied from another project are fitted onto this project's layers
+    const blank = getBlankImage(canvasSize.width, canvasSize.height);
+    const pasted = cloneFrames(frameClipboard).map(f => conformFrameLayers(f, frames[0].layers, blank));
+    const lastSelected = Math.max(...selectedIds.map(id => frames.findIndex(f => f.id === id)));
+    applyFrameEdit('Paste Frames', insertFrames(frames, lastSelected + 1, pasted), pasted[0].id, pasted.map(f => f.id));
+  };
+
+  const handleChangeFrameDuration = (index: number, duration: number) => {
+    const clamped = Math.min(MAX_FRAME_DURATION, Math.max(1, Math.round(duration)));
+    labelNextEdit('Change Hold', `duration:${frames[index]?.id}`);
+    setFrames(prev => {
+      if ((prev[index]?.duration ?? 1) === clamped) return prev;
+      const nf = [...prev];
+      nf[index] = { ...nf[index], duration: clamped };
+      return nf;
     });
-    setCurrentFrameIndex((prev) => prev + 1);
   };
 
-  const handleDeleteFrame = (index: number) => {
-    if (frames.length <= 1) return;
-    setFrames((prev) => prev.filter((_, i) => i !== index));
-    if (currentFrameIndex >= index && currentFrameIndex > 0) {
-      setCurrentFrameIndex((prev) => prev - 1);
-    }
+  const handleToggleKeyframe = (index: number) => {
+    labelNextEdit('Toggle Keyframe');
+    setFrames(prev => {
+      const nf = [...prev];
+      const { keyframe, ...frame } = nf[index];
+      nf[index] = keyframe ? frame : { ...frame, keyframe: true };
+      return nf;
+    });
   };
 
   const handleClearFrame = () => {
-    const newFrame = createLayeredFrame(canvasSize.width, canvasSize.height);
+    labelNextEdit('Clear Frame');
+    const newFrame = createFrameLike(frames[currentFrameIndex], canvasSize.width, canvasSize.height);
     setFrames(prev => {
       const nf = [...prev];
-      nf[currentFrameIndex] = newFrame;
+      // Clearing wipes the drawing but keeps the frame's timing and keyframe mark
+      const { duration, keyframe } = prev[currentFrameIndex];
+      nf[currentFrameIndex] = {
+        ...newFrame,
+        ...(duration ? { duration } : {}),
+        ...(keyframe ? { keyframe } : {})
+      };
       return nf;
     });
   };
@@ -289,77 +605,261 @@ function App() {
     if (audioUrl) URL.revokeObjectURL(audioUrl);
     const url = URL.createObjectURL(file);
     setAudioUrl(url);
+    if (currentProject) {
+      saveProjectAudio(currentProject.id, file).catch(e => console.error("Failed to save audio", e));
+    }
   };
 
   const handleRemoveAudio = () => {
     if (audioUrl) URL.revokeObjectURL(audioUrl);
     setAudioUrl(null);
+    if (currentProject) {
+      saveProjectAudio(currentProject.id, null).catch(e => console.error("Failed to remove audio", e));
+    }
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
   };
 
-  const handleSurprise = async () => {
-    if (isProcessing) return;
-    setIsProcessing(true);
+  // The current frame's drawing, and the next frame's for effects that end on it
+  const getEffectInputs = async (run: EffectRun, scale: number) => {
+    const { width, height } = canvasSize;
+    const inputs = [await renderEffectInput(frames[currentFrameIndex].layers, width, height, customBrushes, scale)];
+    const next = frames[currentFrameIndex + 1];
+    if (next && getEffect(run.effect)?.usesNextFrame) {
+      inputs.push(await renderEffectInput(next.layers, width, height, customBrushes, scale));
+    }
+    return inputs;
+  };
+
+  const handlePreviewEffect = async (run: EffectRun) => {
+    const scale = Math.min(1, EFFECT_PREVIEW_WIDTH / canvasSize.width);
+    return runEffect(run, await getEffectInputs(run, scale));
+  };
+
+  // Shows a job in the progress pill, where it can be cancelled. Only one job is shown at a time;
+  // another one started meanwhile just runs.
+  const trackJob = async <T,>(label: string, run: (options: JobOptions) => Promise<T>): Promise<T> => {
+    if (processingAbortRef.current) return run({});
+    const controller = new AbortController();
+    processingAbortRef.current = controller;
+    setProcessing({ label, progress: 0 });
     try {
-      const currentFrameData = frames[currentFrameIndex].dataUrl;
-      const meltFramesData = await generateMeltAnimation(currentFrameData, 20);
-      if (meltFramesData.length === 0) {
-        setIsProcessing(false);
-        return;
+      return await run({
+        signal: controller.signal,
+        onProgress: (progress) => setProcessing(prev => prev && { ...prev, progress })
+      });
+    } finally {
+      processingAbortRef.current = null;
+      setProcessing(null);
+    }
+  };
+
+  const handleApplyEffect = async (run: EffectRun) => {
+    if (isProcessing) return;
+    const effectName = getEffect(run.effect)?.name;
+    await trackJob(effectName || 'Effect', async (options) => {
+      const inputs = await getEffectInputs(run, 1);
+      const images = await runJob('effect', { run, inputs }, {
+        ...options,
+        transfer: inputs.map(input => input.data.buffer)
+      });
+      if (images.length === 0) return;
+      // Effect frames go on the bottom layer of frames shaped like the current one
+      const template = frames[currentFrameIndex];
+      const newFramesObj: Frame[] = [];
+      for (const image of images) {
+        const frame = createFrameLike(template, canvasSize.width, canvasSize.height);
+        frame.layers[0] = { ...frame.layers[0], image: createImage(image) };
+        const composite = await compositeLayers(frame.layers, canvasSize.width, canvasSize.height, customBrushes);
+        newFramesObj.push({ ...frame, composite, effect: run });
       }
-      const newFramesObj = meltFramesData.map(url => ({
-        id: uuidv4(),
-        dataUrl: url,
-        layers: [url, createBlankLayer(canvasSize.width, canvasSize.height), createBlankLayer(canvasSize.width, canvasSize.height)]
-      }));
+      labelNextEdit(`${effectName} Effect`);
       setFrames(prev => {
         const newF = [...prev];
         newF.splice(currentFrameIndex + 1, 0, ...newFramesObj);
         return newF;
       });
       setTimeout(() => setIsPlaying(true), 100);
-    } catch (e) {
-      console.error("Melt effect failed", e);
-    } finally {
-      setIsProcessing(false);
-    }
+    }).catch(e => {
+      if (!isCancelled(e)) console.error("Effect failed", e);
+    });
   };
 
   const handleAIEdit = async (prompt: string) => {
     const currentFrame = frames[currentFrameIndex];
-    const compositeData = currentFrame.dataUrl;
-    const newImageData = await editFrameWithAI(compositeData, prompt);
-    handleDrawEnd(newImageData, newImageData);
+    const newImageData = await editFrameWithAI(await imageToDataUrl(currentFrame.composite), prompt);
+    const newImage = createImageFromDataUrl(newImageData);
+    labelNextEdit('Magic Edit');
+    handleDrawEnd(newImage, newImage);
   };
 
-  const handleColorPicked = (color: string) => {
+  const handleColorPicked = (color: string, opacity?: number) => {
     setDrawingSettings(prev => ({
       ...prev,
       color,
-      tool: ToolType.PENCIL // Automatically switch back to a drawing tool
+      opacity: opacity ?? prev.opacity,
+      // Automatically switch back to drawing with the current brush
+      tool: (getBrushPreset(prev.brushId, customBrushes) || getToolBrush(ToolType.PENCIL)).tool
     }));
   };
 
+  const handleSaveBrush = (brush: BrushPreset) => {
+    setCustomBrushes(prev => (
+      prev.some(b => b.id === brush.id) ? prev.map(b => b.id === brush.id ? brush : b) : [...prev, brush]
+    ));
+  };
+
+  const handleDeleteBrush = (id: string) => {
+    setCustomBrushes(prev => prev.filter(b => b.id !== id));
+    if (drawingSettings.brushId === id) {
+      setDrawingSettings(prev => ({ ...prev, brushId: DEFAULT_BRUSH_ID, tool: getToolBrush(ToolType.PENCIL).tool }));
+    }
+  };
+
+  const framesRef = useRef(frames);
+  framesRef.current = frames;
+
+  // Object edits don't go through the canvas, so the edited frames are re-composited once
+  // the edits settle (a drag reports every move). The timeline, playback and exports use that.
+  const staleFrameIdsRef = useRef(new Set<string>());
+  const recompositeTimerRef = useRef<number | undefined>(undefined);
+
+  const scheduleRecomposite = (frameId: string) => {
+    staleFrameIdsRef.current.add(frameId);
+    window.clearTimeout(recompositeTimerRef.current);
+    recompositeTimerRef.current = window.setTimeout(async () => {
+      const ids = staleFrameIdsRef.current;
+      staleFrameIdsRef.current = new Set();
+      try {
+        const stale = framesRef.current.filter(f => ids.has(f.id));
+        const composites = await recompositeFrames(stale, canvasSize.width, canvasSize.height, customBrushes);
+        // Frames edited again meanwhile have been scheduled again
+        if (!framesRef.current.some(f => composites.has(f))) return;
+        skipHistoryRef.current = true;
+        setFrames(prev => prev.map(f => {
+          const composite = composites.get(f);
+          return composite ? { ...f, composite } : f;
+        }));
+      } catch (e) {
+        console.error("Failed to re-render frames", e);
+      }
+    }, 300);
+  };
+
   // Handle objects change
-  const handleObjectsChange = useCallback((newObjects: DrawObject[]) => {
+  const handleObjectsChange = useCallback((newObjects: DrawObject[], gesture?: string) => {
+    // Dragging an object or typing reports every change; keep the gesture as one undo step
+    labelNextEdit('Edit Objects', gesture && `objects:${gesture}`);
     setFrames((prevFrames) => {
       const newFrames = [...prevFrames];
       const currentFrame = newFrames[currentFrameIndex];
 
-      const currentObjects = currentFrame.objects || [[], [], []];
-      const newObjectsArray = [...currentObjects];
-      newObjectsArray[activeLayerIndex] = newObjects;
+      const newLayers = [...currentFrame.layers];
+      newLayers[activeLayerIndex] = { ...newLayers[activeLayerIndex], objects: newObjects };
 
       newFrames[currentFrameIndex] = {
         ...currentFrame,
-        objects: newObjectsArray
+        layers: newLayers
       };
       return newFrames;
     });
-  }, [currentFrameIndex, activeLayerIndex]);
+    const frameId = framesRef.current[currentFrameIndex]?.id;
+    if (frameId) scheduleRecomposite(frameId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentFrameIndex, activeLayerIndex, canvasSize, customBrushes]);
+
+  // Paints vector objects into the nearest paint layer below the active one, e.g. to touch a shape up with brushes
+  const handleRasterizeObjects = async (ids: string[]) => {
+    const frame = framesRef.current[currentFrameIndex];
+    const vectorLayer = frame?.layers[activeLayerIndex];
+    const targetIndex = frame ? findRasterLayerBelow(frame.layers, activeLayerIndex) : -1;
+    const rasterized = (vectorLayer?.objects || []).filter(obj => ids.includes(obj.id));
+    if (!vectorLayer || targetIndex === -1 || rasterized.length === 0) return;
+
+    const target = frame.layers[targetIndex];
+    try {
+      const image = await rasterizeObjects(target.image, rasterized, canvasSize.width, canvasSize.height, customBrushes);
+      labelNextEdit('Rasterize');
+      setFrames(prev => prev.map(f => (f.id === frame.id ? {
+        ...f,
+        layers: f.layers.map(layer => (layer.id === target.id ? { ...layer, image }
+          : layer.id === vectorLayer.id ? { ...layer, objects: (layer.objects || []).filter(obj => !ids.includes(obj.id)) }
+          : layer))
+      } : f)));
+      scheduleRecomposite(frame.id);
+    } catch (e) {
+      console.error("Failed to rasterize objects", e);
+    }
+  };
+
+  // --- Layers (structure is shared by every frame) ---
+
+  const handleAddLayer = (kind: LayerKind) => {
+    const layers = frames[currentFrameIndex].layers;
+    const blank = getBlankImage(canvasSize.width, canvasSize.height);
+    labelNextEdit('Add Layer');
+    setFrames(prev => addLayer(prev, activeLayerIndex + 1, generateLayerName(layers), blank, kind));
+    setActiveLayerIndex(activeLayerIndex + 1);
+  };
+
+  const handleRemoveLayer = (index: number) => {
+    const layers = frames[currentFrameIndex].layers;
+    if (layers.length <= 1) return;
+    labelNextEdit('Delete Layer');
+    setFrames(prev => removeLayer(prev, layers[index].id));
+    setActiveLayerIndex(Math.max(0, Math.min(activeLayerIndex, layers.length - 2)));
+  };
+
+  const handleMoveLayer = (index: number, toIndex: number) => {
+    const layers = frames[currentFrameIndex].layers;
+    if (toIndex < 0 || toIndex >= layers.length) return;
+    labelNextEdit('Move Layer');
+    setFrames(prev => moveLayer(prev, layers[index].id, toIndex));
+    if (index === activeLayerIndex) setActiveLayerIndex(toIndex);
+  };
+
+  const handleUpdateLayer = (index: number, changes: Partial<LayerProperties>) => {
+    const layer = frames[currentFrameIndex].layers[index];
+    labelNextEdit('Change Layer', `layer:${layer.id}:${Object.keys(changes).join(',')}`);
+    setFrames(prev => updateLayer(prev, layer.id, changes));
+  };
+
+  // Visibility, opacity, blend mode and order change how every frame looks, so composites
+  // (used by the timeline, playback and exports) are re-rendered once the edits settle
+  const layerAppearance = frames[0]?.layers
+    .map(l => `${l.id}:${l.visible}:${l.opacity}:${l.blendMode}`)
+    .join('|');
+  const layerAppearanceRef = useRef<{ projectId?: string; key?: string }>({});
+
+  useEffect(() => {
+    const previous = layerAppearanceRef.current;
+    layerAppearanceRef.current = { projectId: currentProject?.id, key: layerAppearance };
+    // Nothing to redo when a project was just opened
+    if (previous.projectId !== currentProject?.id || previous.key === undefined || previous.key === layerAppearance) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const composites = await recompositeFrames(framesRef.current, canvasSize.width, canvasSize.height, customBrushes);
+        if (cancelled) return;
+        // Frames edited in the meantime were already composited by the canvas.
+        // Re-rendering follows from the layer change, so it isn't an undo step of its own
+        skipHistoryRef.current = true;
+        setFrames(prev => prev.map(f => {
+          const composite = composites.get(f);
+          return composite ? { ...f, composite } : f;
+        }));
+      } catch (e) {
+        console.error("Failed to re-render frames", e);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [layerAppearance, currentProject?.id, canvasSize]);
 
   // Keyboard shortcuts for copy/paste/delete
   useEffect(() => {
@@ -369,33 +869,74 @@ function App() {
         return;
       }
 
+      // Cmd/Ctrl + Z: Undo, Cmd/Ctrl + Shift + Z or Cmd/Ctrl + Y: Redo
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+        return;
+      }
+      if ((e.metaKey || e.ctrlKey) && e.key === 'y') {
+        e.preventDefault();
+        handleRedo();
+        return;
+      }
+
+      // Each canvas only acts on its own kind of layer, so these go to both
+
       // Cmd/Ctrl + C: Copy
       if ((e.metaKey || e.ctrlKey) && e.key === 'c') {
         e.preventDefault();
         objectCanvasRef.current?.copySelected();
+        canvasRef.current?.copySelection();
+      }
+
+      // Cmd/Ctrl + X: Cut
+      if ((e.metaKey || e.ctrlKey) && e.key === 'x') {
+        e.preventDefault();
+        objectCanvasRef.current?.copySelected();
+        objectCanvasRef.current?.deleteSelected();
+        canvasRef.current?.cutSelection();
       }
 
       // Cmd/Ctrl + V: Paste
       if ((e.metaKey || e.ctrlKey) && e.key === 'v') {
         e.preventDefault();
         objectCanvasRef.current?.pasteObject();
+        canvasRef.current?.pasteSelection();
       }
 
       // Delete/Backspace: Delete selected
       if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault();
         objectCanvasRef.current?.deleteSelected();
+        canvasRef.current?.deleteSelection();
+      }
+
+      // Cmd/Ctrl + G: Group, Cmd/Ctrl + Shift + G: Ungroup
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'g') {
+        e.preventDefault();
+        if (e.shiftKey) objectCanvasRef.current?.ungroupSelected();
+        else objectCanvasRef.current?.groupSelected();
+      }
+
+      // Enter/Escape: Drop the raster selection where it is
+      if (e.key === 'Enter' || e.key === 'Escape') {
+        canvasRef.current?.commitSelection();
       }
     };
 
-    if (currentView === 'editor' && !isPlaying && !cinemaMode && !isVoiceActive) {
+    if (currentView === 'editor' && !isPlaying && !cinemaMode && !isVoiceActive && !showExport) {
       window.addEventListener('keydown', handleKeyDown);
     }
 
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [currentView, isPlaying, cinemaMode, isVoiceActive]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentView, isPlaying, cinemaMode, isVoiceActive, showExport, history]);
+
+  const activeLayer = frames[currentFrameIndex]?.layers[activeLayerIndex];
 
   // --- Intro Handling ---
   if (showIntro) {
@@ -411,6 +952,8 @@ function App() {
         onCreateProject={handleCreateProject}
         onSelectProject={handleSelectProject}
         onDeleteProject={handleDeleteProject}
+        onExportProject={handleExportProject}
+        onImportProject={handleImportProject}
       />
     );
   }
@@ -423,7 +966,8 @@ function App() {
       {/* Cinema Mode Overlay */}
       {cinemaMode && (
         <CinemaView
-          frameData={frames[currentFrameIndex].dataUrl}
+          frame={frames[currentFrameIndex].composite}
+          aspectRatio={canvasSize.width / canvasSize.height}
           isPlaying={isPlaying}
           onTogglePlay={() => setIsPlaying(!isPlaying)}
           onClose={() => {
@@ -433,6 +977,17 @@ function App() {
         />
       )}
 
+      {/* Export Dialog */}
+      {showExport && (
+        <ExportDialog
+          frames={frames}
+          fps={fps}
+          projectName={currentProject?.name || 'animation'}
+          audioUrl={audioUrl}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
       {/* Live Voice Overlay */}
       {isVoiceActive && (
         <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-enter">
@@ -479,10 +1034,19 @@ function App() {
             </button>
           </div>
 
-          <div className="pointer-events-auto">
+          <div className="pointer-events-auto flex items-start gap-2">
+            {processing && (
+              <JobProgress
+                label={processing.label}
+                progress={processing.progress}
+                onCancel={() => processingAbortRef.current?.abort()}
+              />
+            )}
             <MagicAssist
-              currentFrameData={frames[currentFrameIndex].dataUrl}
-              onSurprise={handleSurprise}
+              currentFrame={frames[currentFrameIndex].composite}
+              fps={fps}
+              onPreviewEffect={handlePreviewEffect}
+              onApplyEffect={handleApplyEffect}
               onAIEdit={handleAIEdit}
               isProcessing={isProcessing}
             />
@@ -493,9 +1057,13 @@ function App() {
         {showLayers && (
           <div className="absolute top-20 right-6 z-40">
             <LayersPanel
-              layers={frames[currentFrameIndex].layers || []}
+              layers={frames[currentFrameIndex].layers}
               activeIndex={activeLayerIndex}
               onSelectLayer={setActiveLayerIndex}
+              onAddLayer={handleAddLayer}
+              onRemoveLayer={handleRemoveLayer}
+              onMoveLayer={handleMoveLayer}
+              onUpdateLayer={handleUpdateLayer}
               onClose={() => setShowLayers(false)}
             />
           </div>
@@ -503,52 +1071,71 @@ function App() {
 
         {/* Canvas Area */}
         <div className="flex-1 min-h-0 flex items-center justify-center z-0 pt-20 pb-4 px-4">
-          <div className={`
-                  relative shadow-paper-hover rounded-2xl md:rounded-sm overflow-hidden transition-all duration-500 ease-out bg-[#FAFAF8] border border-gray-200/50
-                  w-full h-full
-              `}>
-            <div ref={containerRef} className="w-full h-full relative">
-              {isPlaying && !cinemaMode ? (
-                <img
-                  src={frames[currentFrameIndex].dataUrl}
-                  alt="Animation playback"
-                  className="w-full h-full object-contain bg-[#FAFAF8]"
-                />
-              ) : (
-                <div className="w-full h-full relative">
-                  {/* Pixel-based Canvas */}
-                  {drawingSettings.tool !== ToolType.SELECT && (
+          <div ref={containerRef} className="w-full h-full">
+            {/* Stage: fixed project resolution, scaled to fit the available space, then zoomed/panned/rotated */}
+            <StageViewport
+              view={view}
+              onViewChange={setView}
+              onGestureStart={() => {
+                canvasRef.current?.cancelStroke();
+                objectCanvasRef.current?.cancelInteraction();
+              }}
+              stageWidth={stageSize.width}
+              stageHeight={stageSize.height}
+              disabled={isPlaying}
+            >
+              <div className="w-full h-full relative shadow-paper-hover rounded-2xl md:rounded-sm overflow-hidden bg-[#FAFAF8] border border-gray-200/50">
+                {isPlaying && !cinemaMode ? (
+                  <ImageCanvas
+                    image={frames[currentFrameIndex].composite}
+                    className="w-full h-full object-contain bg-[#FAFAF8]"
+                  />
+                ) : (
+                  <div className="w-full h-full relative">
+                    {/* Pixel-based Canvas */}
                     <Canvas
                       ref={canvasRef}
                       width={canvasSize.width}
                       height={canvasSize.height}
                       settings={drawingSettings}
-                      layers={frames[currentFrameIndex].layers || [frames[currentFrameIndex].dataUrl, createBlankLayer(canvasSize.width, canvasSize.height), createBlankLayer(canvasSize.width, canvasSize.height)]}
+                      layers={frames[currentFrameIndex].layers}
                       activeLayerIndex={activeLayerIndex}
                       currentFrameId={frames[currentFrameIndex].id}
-                      prevFrameData={currentFrameIndex > 0 ? frames[currentFrameIndex - 1].dataUrl : undefined}
-                      onionSkin={onionSkin}
+                      onionSkinFrames={onionSkinFrames}
                       showGrid={showGrid}
                       onDrawEnd={handleDrawEnd}
+                      onCommitSelection={handleSelectionCommit}
                       isPlaying={isPlaying}
-                      onHistoryChange={(canUndo, canRedo) => setHistoryState({ canUndo, canRedo })}
                       onPickColor={handleColorPicked}
+                      viewRotation={view.rotation}
+                      brush={activeBrush}
+                      brushes={customBrushes}
+                      trackJob={trackJob}
                     />
-                  )}
-
-                  {/* Object-based Canvas */}
-                  <ObjectCanvas
-                    ref={objectCanvasRef}
-                    width={canvasSize.width}
-                    height={canvasSize.height}
-                    settings={drawingSettings}
-                    objects={(frames[currentFrameIndex].objects?.[activeLayerIndex]) || []}
-                    onObjectsChange={handleObjectsChange}
-                    isPlaying={isPlaying}
-                  />
-                </div>
-              )}
-            </div>
+
+                    {/* Object-based Canvas */}
+                    <ObjectCanvas
+                      ref={objectCanvasRef}
+                      width={canvasSize.width}
+                      height={canvasSize.height}
+                      settings={drawingSettings}
+                      objects={frames[currentFrameIndex].layers[activeLayerIndex]?.objects || []}
+                      onObjectsChange={handleObjectsChange}
+                      isPlaying={isPlaying}
+                      locked={!activeLayer || activeLayer.locked || !activeLayer.visible}
+                      opacity={activeLayer?.visible ? activeLayer.opacity : 0}
+                      blendMode={activeLayer?.blendMode || 'normal'}
+                      layerKind={activeLayer?.kind || 'raster'}
+                      zIndex={activeLayerIndex + 1}
+                      viewRotation={view.rotation}
+                      brush={activeBrush}
+                      customBrushes={customBrushes}
+                      onRasterize={findRasterLayerBelow(frames[currentFrameIndex].layers, activeLayerIndex) !== -1 ? handleRasterizeObjects : undefined}
+                    />
+                  </div>
+                )}
+              </div>
+            </StageViewport>
           </div>
         </div>
 
@@ -558,14 +1145,19 @@ function App() {
             settings={drawingSettings}
             onUpdateSettings={(s) => setDrawingSettings(prev => ({ ...prev, ...s }))}
             onClear={handleClearFrame}
-            onUndo={() => canvasRef.current?.undo()}
-            onRedo={() => canvasRef.current?.redo()}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
             onToggleGrid={() => setShowGrid(!showGrid)}
             onToggleLayers={() => setShowLayers(!showLayers)}
             showGrid={showGrid}
             showLayers={showLayers}
-            canUndo={historyState.canUndo}
-            canRedo={historyState.canRedo}
+            canUndo={history.past.length > 0}
+            canRedo={history.future.length > 0}
+            customBrushes={customBrushes}
+            onSaveBrush={handleSaveBrush}
+            onDeleteBrush={handleDeleteBrush}
+            undoLabel={undoLabel}
+            redoLabel={redoLabel}
             orientation="vertical"
           />
         </div>
@@ -576,14 +1168,19 @@ function App() {
             settings={drawingSettings}
             onUpdateSettings={(s) => setDrawingSettings(prev => ({ ...prev, ...s }))}
             onClear={handleClearFrame}
-            onUndo={() => canvasRef.current?.undo()}
-            onRedo={() => canvasRef.current?.redo()}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
             onToggleGrid={() => setShowGrid(!showGrid)}
             onToggleLayers={() => setShowLayers(!showLayers)}
             showGrid={showGrid}
             showLayers={showLayers}
-            canUndo={historyState.canUndo}
-            canRedo={historyState.canRedo}
+            canUndo={history.past.length > 0}
+            canRedo={history.future.length > 0}
+            customBrushes={customBrushes}
+            onSaveBrush={handleSaveBrush}
+            onDeleteBrush={handleDeleteBrush}
+            undoLabel={undoLabel}
+            redoLabel={redoLabel}
             orientation="vertical"
           />
         </div>
@@ -597,17 +1194,32 @@ function App() {
               isPlaying={isPlaying}
               fps={fps}
               onionSkin={onionSkin}
-              onSelectFrame={setCurrentFrameIndex}
+              onionSkinSettings={onionSkinSettings}
+              selectedFrameIds={selectedIds}
+              clipboardCount={frameClipboard.length}
+              onSelectFrame={handleSelectFrame}
               onAddFrame={handleAddFrame}
-              onDuplicateFrame={handleDuplicateFrame}
-              onDeleteFrame={handleDeleteFrame}
+              onDuplicateFrames={handleDuplicateFrames}
+              onDeleteFrames={handleDeleteFrames}
+              onReverseFrames={handleReverseFrames}
+              onNudgeFrames={handleNudgeFrames}
+              onMoveFrames={handleMoveFrames}
+              onCopyFrames={handleCopyFrames}
+              onPasteFrames={handlePasteFrames}
+              onChangeFrameDuration={handleChangeFrameDuration}
               onTogglePlay={() => setIsPlaying(!isPlaying)}
               onChangeFps={setFps}
               onToggleOnionSkin={() => setOnionSkin(!onionSkin)}
+              onChangeOnionSkinSettings={(changes) => setOnionSkinSettings(prev => ({ ...prev, ...changes }))}
+              onToggleKeyframe={handleToggleKeyframe}
               audioUrl={audioUrl}
               onUploadAudio={handleUploadAudio}
               onRemoveAudio={handleRemoveAudio}
               onEnterCinema={() => setCinemaMode(true)}
+              onExport={() => {
+                setIsPlaying(false);
+                setShowExport(true);
+              }}
             />
           </div>
         </div>
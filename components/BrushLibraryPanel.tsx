@@ -0,0 +1,304 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Copy, Trash2, Upload, Library } from 'lucide-react';
+import { BlendMode, BrushPreset, ToolType } from '../types';
+import { BLEND_MODES } from '../services/layers';
+import { getDefaultDynamics, toStrokeSamples } from '../services/brushEngine';
+import { BUILT_IN_BRUSHES, BUILT_IN_STAMPS, createStampFromImage, duplicateBrush, preloadStamp, renderStampedStroke } from '../services/brushPresets';
+import { hashSeed } from '../services/random';
+
+interface BrushLibraryPanelProps {
+  activeBrush: BrushPreset;
+  customBrushes: BrushPreset[];
+  onSelect: (brush: BrushPreset) => void;
+  onSave: (brush: BrushPreset) => void; // Adds a new brush or replaces one with the same id
+  onDelete: (id: string) => void;
+}
+
+const BEHAVIOURS = [
+  { value: ToolType.PENCIL, label: 'Pencil' },
+  { value: ToolType.BRUSH, label: 'Pen' },
+  { value: ToolType.MARKER, label: 'Marker' },
+  { value: ToolType.CRAYON, label: 'Crayon' }
+];
+
+// A little wave drawn with the brush, so presets can be told apart at a glance
+const BrushPreview: React.FC<{ brush: BrushPreset }> = ({ brush }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    preloadStamp(brush.stamp)
+      .catch(e => console.error("Failed to load brush stamp", e))
+      .then(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (cancelled || !ctx) return;
+        const points = Array.from({ length: 40 }, (_, i) => ({
+          x: 12 + i * 3.3,
+          y: 20 + Math.sin(i / 39 * Math.PI * 2) * 8,
+          pressure: 0.3 + 0.6 * Math.sin(i / 39 * Math.PI)
+        }));
+        const samples = toStrokeSamples(points);
+        const render = renderStampedStroke(samples, {
+          brush,
+          dynamics: getDefaultDynamics(brush.tool),
+          color: '#1F2937',
+          size: 8,
+          length: samples[samples.length - 1].distance
+        }, hashSeed(brush.id));
+        ctx.clearRect(0, 0, 152, 40);
+        ctx.globalAlpha = brush.opacity;
+        ctx.drawImage(render.canvas, render.x, render.y);
+      });
+    return () => { cancelled = true; };
+  }, [brush]);
+
+  return <canvas ref={canvasRef} width={152} height={40} className="w-full h-8" />;
+};
+
+const SliderRow = ({ label, value, display, min = 0, max, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min?: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="mb-2">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+    />
+  </div>
+);
+
+export const BrushLibraryPanel: React.FC<BrushLibraryPanelProps> = ({ activeBrush, customBrushes, onSelect, onSave, onDelete }) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const brushes = [...BUILT_IN_BRUSHES, ...customBrushes];
+
+  const update = (changes: Partial<BrushPreset>) => onSave({ ...activeBrush, ...changes });
+
+  const handleDuplicate = () => {
+    const copy = duplicateBrush(activeBrush, customBrushes);
+    onSave(copy);
+    onSelect(copy);
+  };
+
+  const commitRename = () => {
+    const brush = customBrushes.find(b => b.id === renamingId);
+    if (brush && draftName.trim()) onSave({ ...brush, name: draftName.trim() });
+    setRenamingId(null);
+  };
+
+  const handleStampUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      update({ stamp: await createStampFromImage(file) });
+    } catch (err) {
+      console.error("Failed to load stamp image", err);
+    }
+  };
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-72 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between mb-3 border-b border-gray-100 pb-2">
+        <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm">
+          <Library size={16} />
+          <span>Brushes</span>
+        </div>
+        <button
+          type="button"
+          onClick={handleDuplicate}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-2.5 py-1 rounded-full text-xs font-medium transition-colors flex items-center gap-1"
+          title="Make an editable copy of this brush"
+        >
+          <Copy size={12} /> Duplicate
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1.5 max-h-56 overflow-y-auto no-scrollbar mb-3">
+        {brushes.map(brush => (
+          <div
+            key={brush.id}
+            onClick={() => onSelect(brush)}
+            className={`group flex items-center gap-2 p-1.5 rounded-xl cursor-pointer border-2 transition-all ${
+              activeBrush.id === brush.id ? 'bg-apple-blue/5 border-apple-blue' : 'bg-white border-transparent hover:bg-gray-50'
+            }`}
+          >
+            <div className="w-20 flex-shrink-0 rounded-lg bg-white border border-gray-100 overflow-hidden">
+              <BrushPreview brush={brush} />
+            </div>
+            <div className="flex-grow min-w-0">
+              {renamingId === brush.id ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full text-xs font-medium bg-white border border-apple-blue/40 rounded px-1 outline-none"
+                />
+              ) : (
+                <div
+                  onDoubleClick={(e) => {
+                    if (brush.builtIn) return;
+                    e.stopPropagation();
+                    setRenamingId(brush.id);
+                    setDraftName(brush.name);
+                  }}
+                  className={`text-xs font-medium truncate ${activeBrush.id === brush.id ? 'text-apple-blue' : 'text-gray-700'}`}
+                  title={brush.builtIn ? brush.name : "Double-click to rename"}
+                >
+                  {brush.name}
+                </div>
+              )}
+            </div>
+            {!brush.builtIn && (
+              <button
+                type="button"
+                onClick={(e) => { e.stopPropagation(); onDelete(brush.id); }}
+                className="p-1 text-red-400 hover:bg-red-50 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Delete Brush"
+              >
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Editing */}
+      {activeBrush.builtIn ? (
+        <p className="text-[11px] text-gray-400 text-center border-t border-gray-100 pt-3">
+          Duplicate a brush to change how it works.
+        </p>
+      ) : (
+        <div className="border-t border-gray-100 pt-3">
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Stamp</div>
+          <div className="flex gap-1 mb-3 flex-wrap">
+            {BUILT_IN_STAMPS.map(stamp => (
+              <button
+                key={stamp.value}
+                type="button"
+                onClick={() => update({ stamp: stamp.value })}
+                className={`px-2 py-1 text-[10px] font-semibold rounded-full transition-colors ${
+                  activeBrush.stamp === stamp.value ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {stamp.label}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className={`px-2 py-1 text-[10px] font-semibold rounded-full transition-colors flex items-center gap-1 ${
+                activeBrush.stamp.startsWith('data:') ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+              title="Use a picture as the stamp"
+            >
+              <Upload size={10} /> Picture
+            </button>
+            <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleStampUpload} />
+          </div>
+
+          <SliderRow
+            label="Spacing"
+            value={Math.round(activeBrush.spacing * 100)}
+            display={`${Math.round(activeBrush.spacing * 100)}%`}
+            min={1}
+            max={200}
+            onChange={(v) => update({ spacing: v / 100 })}
+          />
+          <SliderRow
+            label="Size Jitter"
+            value={Math.round(activeBrush.jitter * 100)}
+            display={`${Math.round(activeBrush.jitter * 100)}%`}
+            max={100}
+            onChange={(v) => update({ jitter: v / 100 })}
+          />
+          <SliderRow
+            label="Scatter"
+            value={Math.round(activeBrush.scatter * 100)}
+            display={`${Math.round(activeBrush.scatter * 100)}%`}
+            max={200}
+            onChange={(v) => update({ scatter: v / 100 })}
+          />
+          <SliderRow
+            label="Angle"
+            value={activeBrush.angle}
+            display={`${activeBrush.angle}°`}
+            max={359}
+            onChange={(angle) => update({ angle })}
+          />
+          <SliderRow
+            label="Opacity"
+            value={Math.round(activeBrush.opacity * 100)}
+            display={`${Math.round(activeBrush.opacity * 100)}%`}
+            min={5}
+            max={100}
+            onChange={(v) => update({ opacity: v / 100 })}
+          />
+
+          <button
+            type="button"
+            onClick={() => update({ followDirection: !activeBrush.followDirection })}
+            className="w-full flex items-center justify-between text-xs font-medium text-gray-700 py-1 mb-2"
+          >
+            <span>Turn With Stroke</span>
+            <span className={`w-8 h-5 rounded-full p-0.5 transition-colors ${activeBrush.followDirection ? 'bg-apple-blue' : 'bg-gray-200'}`}>
+              <span className={`block w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${activeBrush.followDirection ? 'translate-x-3' : ''}`} />
+            </span>
+          </button>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Blend</div>
+              <select
+                value={activeBrush.blendMode}
+                onChange={(e) => update({ blendMode: e.target.value as BlendMode })}
+                className="w-full text-xs font-medium text-gray-700 bg-gray-100/70 rounded-lg px-2 py-1.5 outline-none"
+              >
+                {BLEND_MODES.map(mode => (
+                  <option key={mode.value} value={mode.value}>{mode.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Feels Like</div>
+              <select
+                value={activeBrush.tool}
+                onChange={(e) => {
+                  const tool = e.target.value as ToolType;
+                  update({ tool });
+                  onSelect({ ...activeBrush, tool });
+                }}
+                className="w-full text-xs font-medium text-gray-700 bg-gray-100/70 rounded-lg px-2 py-1.5 outline-none"
+                title="Which tool's pressure and stabilizer settings this brush uses"
+              >
+                {BEHAVIOURS.map(b => (
+                  <option key={b.value} value={b.value}>{b.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
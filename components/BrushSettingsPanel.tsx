@@ -0,0 +1,125 @@
+
+import React, { useState } from 'react';
+import { SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { BrushDynamics, ToolType } from '../types';
+import { MAX_TAPER } from '../services/brushEngine';
+import { PressureCurveEditor } from './PressureCurveEditor';
+
+interface BrushSettingsPanelProps {
+  tool: ToolType;
+  toolLabel: string;
+  dynamics: BrushDynamics;
+  isCustomized: boolean; // Differs from the tool's defaults
+  onChange: (changes: Partial<BrushDynamics>) => void;
+  onReset: () => void;
+}
+
+const SliderRow = ({ label, value, display, max, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="mb-3">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={0}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+    />
+  </div>
+);
+
+export const BrushSettingsPanel: React.FC<BrushSettingsPanelProps> = ({ tool, toolLabel, dynamics, isCustomized, onChange, onReset }) => {
+  const [curveMode, setCurveMode] = useState<'size' | 'opacity'>('size');
+  const isEraser = tool === ToolType.ERASER;
+
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-64 animate-in fade-in duration-200">
+      <div className="flex items-center justify-between mb-3 border-b border-gray-100 pb-2">
+        <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm">
+          <SlidersHorizontal size={16} />
+          <span>{toolLabel} Settings</span>
+        </div>
+        <button
+          type="button"
+          onClick={onReset}
+          disabled={!isCustomized}
+          className="p-1 text-gray-400 hover:text-gray-700 rounded-full transition-colors disabled:opacity-30"
+          title="Reset to Defaults"
+        >
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      <SliderRow
+        label="Stabilizer"
+        value={dynamics.stabilizer}
+        display={dynamics.stabilizer === 0 ? 'Off' : `${dynamics.stabilizer}%`}
+        max={100}
+        onChange={(stabilizer) => onChange({ stabilizer })}
+      />
+      <SliderRow
+        label="Taper Start"
+        value={dynamics.taperStart}
+        display={dynamics.taperStart === 0 ? 'Off' : `${dynamics.taperStart}px`}
+        max={MAX_TAPER}
+        onChange={(taperStart) => onChange({ taperStart })}
+      />
+      <SliderRow
+        label="Taper End"
+        value={dynamics.taperEnd}
+        display={dynamics.taperEnd === 0 ? 'Off' : `${dynamics.taperEnd}px`}
+        max={MAX_TAPER}
+        onChange={(taperEnd) => onChange({ taperEnd })}
+      />
+
+      <button
+        type="button"
+        onClick={() => onChange({ smoothing: !dynamics.smoothing })}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-700 py-1 mb-3"
+        title="Round off corners between pointer positions"
+      >
+        <span>Smooth Curves</span>
+        <span className={`w-8 h-5 rounded-full p-0.5 transition-colors ${dynamics.smoothing ? 'bg-apple-blue' : 'bg-gray-200'}`}>
+          <span className={`block w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${dynamics.smoothing ? 'translate-x-3' : ''}`} />
+        </span>
+      </button>
+
+      {/* Pressure curves */}
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-semibold uppercase tracking-wider text-gray-400">Pressure</span>
+        <div className="flex gap-1 bg-gray-100/70 rounded-full p-0.5">
+          {(['size', 'opacity'] as const).map(mode => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setCurveMode(mode)}
+              className={`px-2 py-0.5 text-[10px] font-semibold rounded-full capitalize transition-colors ${
+                curveMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {isEraser && mode === 'opacity' ? 'Strength' : mode}
+            </button>
+          ))}
+        </div>
+      </div>
+      {curveMode === 'size' ? (
+        <PressureCurveEditor curve={dynamics.sizeCurve} maxY={2} onChange={(sizeCurve) => onChange({ sizeCurve })} />
+      ) : (
+        <PressureCurveEditor curve={dynamics.opacityCurve} maxY={1} onChange={(opacityCurve) => onChange({ opacityCurve })} />
+      )}
+      <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+        <span>Light</span>
+        <span>Firm</span>
+      </div>
+    </div>
+  );
+};
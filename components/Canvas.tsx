@@ -1,26 +1,89 @@
 
-import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { DrawingSettings, ToolType } from '../types';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useMemo } from 'react';
+import { BrushDynamics, BrushPreset, DrawingSettings, FrameLayer, ImageHandle, Matrix, ToolType } from '../types';
+import { clientToCanvasPoint } from '../services/viewTransform';
+import { compositeLayers, renderLayers, PAPER_COLOR, toCompositeOperation } from '../services/compositing';
+import { applyFillMask, computeFillMask } from '../services/floodFill';
+import { isCancelled, JobOptions, runJob } from '../services/jobs';
+import { resolvePickedColor, sampleColor } from '../services/colorSampling';
+import { createStrokeBuilder, getBrushDynamics, getPointerPressure, StrokeBuilder, StrokeSample } from '../services/brushEngine';
+import { createStampState, ERASER_BRUSH, paintStamps, StampState } from '../services/brushPresets';
+import { createSeed } from '../services/random';
+import { createImage, getBitmap, peekBitmap } from '../services/frameStore';
+import { OnionSkinFrame } from '../services/onionSkin';
+import { multiply, Point, translation } from '../services/objectTransform';
+import {
+  clearOutline, copyFloating, drawFloating, drawSelectionOutline, FloatingSelection, getRectOutline, getSelectionBox,
+  isPointInSelection, liftPixels, MIN_SELECTION_SIZE, renderCommittedLayer
+} from '../services/pixelSelection';
+import { drawTransformBox, getDraggedMatrix, getFlippedMatrix, getHandleAt } from '../services/transformHandles';
+import { Check, Copy, FlipHorizontal2, FlipVertical2, Scissors, Trash2 } from 'lucide-react';
+import { OnionSkinOverlay } from './OnionSkinOverlay';
+import { PickerLoupe } from './PickerLoupe';
+import { LayerCanvas } from './LayerCanvas';
 
 interface CanvasProps {
   width: number;
   height: number;
   settings: DrawingSettings;
-  layers: string[]; // [Back, Mid, Fore]
+  layers: FrameLayer[]; // Bottom to top
   activeLayerIndex: number;
-  currentFrameId: string; // NEW: Needed to track when to actually reset history
-  prevFrameData?: string; // Onion skin composite
-  onionSkin: boolean;
+  currentFrameId: string;
+  onionSkinFrames: OnionSkinFrame[]; // Neighbouring frames to ghost underneath, empty when onion skin is off
   showGrid: boolean;
-  onDrawEnd: (newLayerData: string, newCompositeData: string) => void;
+  onDrawEnd: (newLayerImage: ImageHandle, newComposite: ImageHandle) => void;
+  // A raster selection was stamped down. It may belong to a frame that's no longer shown.
+  onCommitSelection: (frameId: string, layerId: string, newLayerImage: ImageHandle, newComposite: ImageHandle, label: string) => void;
   isPlaying: boolean;
-  onHistoryChange: (canUndo: boolean, canRedo: boolean) => void;
-  onPickColor: (color: string) => void; // New prop for picker
+  onPickColor: (color: string, opacity?: number) => void; // Opacity only when the picker samples it
+  viewRotation: number; // Stage rotation in degrees, needed to map pointer positions
+  brush: BrushPreset; // Preset the drawing tools paint with
+  brushes: BrushPreset[]; // Custom presets, to draw vector objects made with them
+  trackJob: <T>(label: string, run: (options: JobOptions) => Promise<T>) => Promise<T>; // Shows a worker job with progress and cancel
+}
+
+const WORKER_FILL_PIXELS = 2000 * 1000;
+
+interface ActiveStroke {
+  builder: StrokeBuilder;
+  brush: BrushPreset;
+  dynamics: BrushDynamics;
+  tool: ToolType;
+  stamps: StampState;
+  seed: number; // Redrawing with the same seed keeps the texture in place
+  base: ImageData | null; // Layer before an eraser stroke, to redraw it with a tapered end
+}
+
+// Selected pixels floating above the layer until they're committed
+interface ActiveSelection extends FloatingSelection {
+  frameId: string;
+  layerId: string;
+  layers: FrameLayer[]; // The frame's layers, to composite the commit if the frame is no longer shown
+  source: ImageHandle; // Layer image the pixels float over
+  lifted: Point[] | null; // Outline of the hole they left in the layer; null when pasted
+  changed: boolean; // Moved, transformed or pasted, so committing is an edit
+}
+
+// Dragging the selection by its inside ('move') or a scale/rotate handle
+interface SelectionDrag {
+  handle: string;
+  start: Point;
+  startTransform: Matrix;
+}
+
+interface PickSource {
+  image: ImageData; // Visible layers without the paper, for sampling color and opacity
+  paper: HTMLCanvasElement; // The same on paper, for the loupe
 }
 
 export interface CanvasHandle {
-  undo: () => void;
-  redo: () => void;
+  cancelStroke: () => void; // Discard the stroke in progress (e.g. when a pinch gesture starts)
+  copySelection: () => void;
+  cutSelection: () => void;
+  pasteSelection: () => void; // In place, on the active layer of whatever frame is shown
+  deleteSelection: () => void;
+  commitSelection: () => void;
+  revertSelection: () => boolean; // Drops an edited selection unapplied; false if there was nothing to undo
 }
 
 export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({
@@ -30,284 +93,444 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({
   layers,
   activeLayerIndex,
   currentFrameId,
-  prevFrameData,
-  onionSkin,
+  onionSkinFrames,
   showGrid,
   onDrawEnd,
+  onCommitSelection,
   isPlaying,
-  onHistoryChange,
-  onPickColor
+  onPickColor,
+  viewRotation,
+  brush,
+  brushes,
+  trackJob
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Strokes are drawn here first and merged into the layer at the brush opacity when done,
+  // so overlapping parts of one stroke don't build up darker
+  const strokeCanvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const lastPos = useRef<{ x: number; y: number; pressure: number } | null>(null);
-
-  // History State
-  const historyRef = useRef<string[]>([]);
-  const historyIndexRef = useRef<number>(-1);
-  const ignoreFrameUpdate = useRef(false);
+  const strokeRef = useRef<ActiveStroke | null>(null);
+
+  // Layer image currently on the canvas, so the layer is only redrawn when it changed elsewhere
+  // (undo/redo, switching frames) and not when our own stroke comes back through props
+  const shownImageRef = useRef<ImageHandle | null>(null);
+
+  // --- Raster selection ---
+  const selectionCanvasRef = useRef<HTMLCanvasElement>(null); // Floating pixels, stacked with the layer
+  const selectionUiRef = useRef<HTMLCanvasElement>(null); // Outline and handles, above everything
+  const [selection, setSelection] = useState<ActiveSelection | null>(null);
+  const selectionRef = useRef(selection);
+  selectionRef.current = selection;
+  const [outlineDraft, setOutlineDraft] = useState<Point[] | null>(null);
+  const selectionDragRef = useRef<SelectionDrag | null>(null);
+  const clipboardRef = useRef<FloatingSelection | null>(null);
+
+  const updateSelection = (changes: Partial<ActiveSelection>) => {
+    const current = selectionRef.current;
+    if (!current) return;
+    const next = { ...current, ...changes };
+    selectionRef.current = next;
+    setSelection(next);
+  };
 
-  // Expose Undo/Redo methods to parent
-  useImperativeHandle(ref, () => ({
-    undo: () => {
-      if (historyIndexRef.current > 0) {
-        historyIndexRef.current--;
-        const previousData = historyRef.current[historyIndexRef.current];
-        ignoreFrameUpdate.current = true; // Tell useEffect not to reset history
-        updateLayerAndComposite(previousData);
-        drawDataToCanvas(previousData);
-        updateHistoryState();
-      }
-    },
-    redo: () => {
-      if (historyIndexRef.current < historyRef.current.length - 1) {
-        historyIndexRef.current++;
-        const nextData = historyRef.current[historyIndexRef.current];
-        ignoreFrameUpdate.current = true;
-        updateLayerAndComposite(nextData);
-        drawDataToCanvas(nextData);
-        updateHistoryState();
-      }
-    }
-  }));
+  const clearSelection = () => {
+    selectionRef.current = null;
+    setSelection(null);
+    selectionDragRef.current = null;
+  };
 
-  const updateHistoryState = () => {
-    onHistoryChange(
-      historyIndexRef.current > 0,
-      historyIndexRef.current < historyRef.current.length - 1
-    );
+  const stampSelection = async (current: ActiveSelection, keepPixels: boolean, label: string) => {
+    const frameLayers = current.frameId === currentFrameId ? layers : current.layers;
+    const base = await getBitmap(current.source);
+    const image = createImage(renderCommittedLayer(base, keepPixels ? current : null, current.lifted, width, height));
+    const updatedLayers = frameLayers.map(layer => (layer.id === current.layerId ? { ...layer, image } : layer));
+    const composite = await compositeLayers(updatedLayers, width, height, brushes);
+    onCommitSelection(current.frameId, current.layerId, image, composite, label);
   };
 
-  const addToHistory = (dataUrl: string) => {
-    // If we are in the middle of the stack, chop off the future
-    if (historyIndexRef.current < historyRef.current.length - 1) {
-      historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1);
+  // Stamps the selection down (or, with `keepPixels` off, leaves just the hole) as one edit
+  const commitSelection = (label = 'Move Selection', keepPixels = true) => {
+    const current = selectionRef.current;
+    if (!current) return;
+    clearSelection();
+
+    const shown = current.frameId === currentFrameId && layers[activeLayerIndex]?.id === current.layerId;
+    if (keepPixels ? !current.changed : !current.lifted) {
+      // Nothing changed: put the layer back as it was
+      if (shown && current.lifted) drawImageToCanvas(current.source);
+      return;
     }
-    historyRef.current.push(dataUrl);
+    // Show the result straight away; the new layer image follows through props
+    const ctx = shown ? canvasRef.current?.getContext('2d') : null;
+    if (ctx && keepPixels) drawFloating(ctx, current);
+    stampSelection(current, keepPixels, label).catch(e => console.error("Failed to apply selection", e));
+  };
 
-    // Limit history size to prevent memory leaks
-    if (historyRef.current.length > 20) {
-      historyRef.current.shift();
-    } else {
-      historyIndexRef.current++;
+  // Unmounting (e.g. playback starting) keeps the edit
+  const commitSelectionRef = useRef(commitSelection);
+  commitSelectionRef.current = commitSelection;
+  useEffect(() => () => commitSelectionRef.current(), []);
+
+  // Switching tools drops the selection where it is
+  useEffect(() => {
+    if (settings.tool !== ToolType.SELECT) {
+      commitSelection();
+      setOutlineDraft(null);
     }
-    updateHistoryState();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings.tool]);
+
+  const copySelection = () => {
+    if (selectionRef.current) clipboardRef.current = copyFloating(selectionRef.current);
+  };
+
+  const cutSelection = () => {
+    if (!selectionRef.current) return;
+    copySelection();
+    commitSelection('Cut Selection', false);
   };
 
-  const drawDataToCanvas = (data: string) => {
+  useImperativeHandle(ref, () => ({
+    copySelection,
+    cutSelection,
+    pasteSelection: () => {
+      const clip = clipboardRef.current;
+      const layer = layers[activeLayerIndex];
+      if (!clip || !layer || !canEditLayer) return;
+      commitSelection();
+      const pasted = {
+        ...copyFloating(clip),
+        frameId: currentFrameId,
+        layerId: layer.id,
+        layers,
+        source: layer.image,
+        lifted: null,
+        changed: true
+      };
+      selectionRef.current = pasted;
+      setSelection(pasted);
+    },
+    deleteSelection: () => commitSelection('Delete Selection', false),
+    commitSelection: () => commitSelection(),
+    revertSelection: () => {
+      const current = selectionRef.current;
+      if (!current) return false;
+      clearSelection();
+      if (current.lifted && current.frameId === currentFrameId) drawImageToCanvas(current.source);
+      return current.changed;
+    },
+    cancelStroke: () => {
+      setOutlineDraft(null);
+      selectionDragRef.current = null;
+      if (!isDrawing) return;
+      setIsDrawing(false);
+      strokeRef.current = null;
+      clearStrokeCanvas();
+      // Restore the layer as it was before the stroke started
+      const image = layers[activeLayerIndex]?.image;
+      if (!image) return;
+      shownImageRef.current = image;
+      drawImageToCanvas(image);
+    }
+  }));
+
+  const drawImageToCanvas = (image: ImageHandle) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    ctx.clearRect(0, 0, width, height);
-    const img = new Image();
-    img.onload = () => {
-      ctx.drawImage(img, 0, 0, width, height);
+    const draw = (bitmap: ImageBitmap) => {
+      ctx.clearRect(0, 0, width, height);
+      ctx.drawImage(bitmap, 0, 0, width, height);
     };
-    img.src = data;
-  };
-
-  // --- CRITICAL FIX --- 
-  // Only reset history if the Frame ID or Active Layer changes. 
-  // We do NOT depend on `layers` content here, otherwise every stroke resets history.
-  useEffect(() => {
-    if (ignoreFrameUpdate.current) {
-      ignoreFrameUpdate.current = false;
+    const ready = peekBitmap(image);
+    if (ready) {
+      draw(ready);
       return;
     }
+    ctx.clearRect(0, 0, width, height);
+    getBitmap(image)
+      .then(bitmap => {
+        // Skip if another image was shown (or drawn) meanwhile
+        if (shownImageRef.current === image) draw(bitmap);
+      })
+      .catch(e => console.error("Failed to load layer", e));
+  };
 
-    const currentLayerData = layers[activeLayerIndex] || layers[0] || '';
+  const clearStrokeCanvas = () => {
+    const stroke = strokeCanvasRef.current;
+    stroke?.getContext('2d')?.clearRect(0, 0, stroke.width, stroke.height);
+  };
 
-    // Initialize history with the current state of the layer
-    historyRef.current = [currentLayerData];
-    historyIndexRef.current = 0;
-    updateHistoryState();
+  // Where the current tool paints: the eraser works on the layer directly, everything else on the stroke canvas
+  const getPaintContext = () => {
+    const target = settings.tool === ToolType.ERASER ? canvasRef.current : strokeCanvasRef.current;
+    return target?.getContext('2d') || null;
+  };
 
-    drawDataToCanvas(currentLayerData);
+  // Resizing the canvas element wipes it
+  useEffect(() => {
+    shownImageRef.current = null;
+  }, [width, height]);
 
+  const activeLayerImage = (layers[activeLayerIndex] || layers[0])?.image;
+  useEffect(() => {
+    const current = selectionRef.current;
+    if (current && (current.frameId !== currentFrameId || current.layerId !== layers[activeLayerIndex]?.id)) {
+      // Moving to another frame or layer drops the selection where it is
+      commitSelection();
+      if (current.lifted) shownImageRef.current = null;
+    } else if (current && current.source !== activeLayerImage) {
+      if (current.lifted) {
+        // The layer changed underneath (undo, redo): the lifted pixels no longer belong to it
+        clearSelection();
+        shownImageRef.current = null;
+      } else {
+        // Pasted pixels just float over whatever the layer now is
+        updateSelection({ source: activeLayerImage, layers });
+      }
+    }
+    if (!activeLayerImage || shownImageRef.current === activeLayerImage) return;
+    shownImageRef.current = activeLayerImage;
+    drawImageToCanvas(activeLayerImage);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentFrameId, activeLayerIndex, width, height]);
+  }, [currentFrameId, activeLayerIndex, activeLayerImage, width, height]);
 
   // Helper to composite all layers including the new update
-  const updateLayerAndComposite = (newActiveLayerData: string) => {
-    const compositeCanvas = document.createElement('canvas');
-    compositeCanvas.width = width;
-    compositeCanvas.height = height;
-    const ctx = compositeCanvas.getContext('2d');
-    if (!ctx) return;
-
-    // Fill white background for composite
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillRect(0, 0, width, height);
-
-    const loadAndDraw = async () => {
-      const promises = layers.map((layerData, idx) => {
-        return new Promise<HTMLImageElement>((resolve) => {
-          const img = new Image();
-          img.onload = () => resolve(img);
-          // Use the NEW data for the active layer, existing data for others
-          img.src = idx === activeLayerIndex ? newActiveLayerData : layerData;
-        });
-      });
-
-      const images = await Promise.all(promises);
-      images.forEach(img => {
-        ctx.drawImage(img, 0, 0, width, height);
-      });
-
-      onDrawEnd(newActiveLayerData, compositeCanvas.toDataURL());
-    };
-    loadAndDraw();
+  const updateLayerAndComposite = (newActiveLayerImage: ImageHandle) => {
+    // Use the NEW image for the active layer, existing images for others
+    const updatedLayers = layers.map((layer, idx) => (
+      idx === activeLayerIndex ? { ...layer, image: newActiveLayerImage } : layer
+    ));
+    compositeLayers(updatedLayers, width, height, brushes)
+      .then(composite => onDrawEnd(newActiveLayerImage, composite))
+      .catch(e => console.error("Failed to composite layers", e));
   };
 
-  // --- Flood Fill Algorithm ---
-  const hexToRgba = (hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return [r, g, b, 255];
-  };
+  // The layer on the canvas and how to commit to it, as of the latest render. Fills check it
+  // when they finish, since the user may have moved to another frame or layer meanwhile.
+  const shownLayerRef = useRef({ key: '', commit: updateLayerAndComposite });
+  shownLayerRef.current = { key: `${currentFrameId}:${layers[activeLayerIndex]?.id}`, commit: updateLayerAndComposite };
 
-  const floodFill = (startX: number, startY: number, fillColorHex: string) => {
+  // --- Flood Fill ---
+  const floodFill = async (startX: number, startY: number, fillColorHex: string) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) return;
 
-    const width = canvas.width;
-    const height = canvas.height;
-    const imageData = ctx.getImageData(0, 0, width, height);
-    const data = imageData.data;
+    const readLayer = () => ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const target = shownLayerRef.current.key;
+    const source = readLayer();
+    let sample = source;
+    if (settings.fill.sampleMerged) {
+      // Find the area on everything visible, but paint only onto the active layer
+      const merged = await renderLayers(layers, canvas.width, canvas.height, brushes);
+      sample = merged.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, canvas.width, canvas.height);
+    }
 
-    const startPos = (startY * width + startX) * 4;
-    const [startR, startG, startB, startA] = [data[startPos], data[startPos + 1], data[startPos + 2], data[startPos + 3]];
-    const [fillR, fillG, fillB, fillA] = hexToRgba(fillColorHex);
+    // Big canvases are filled in the job worker so the page doesn't freeze meanwhile
+    const inWorker = width * height >= WORKER_FILL_PIXELS;
+    const mask = inWorker
+      ? await trackJob('Fill', options => runJob('fill', { sample, x: startX, y: startY, settings: settings.fill }, options))
+      : computeFillMask(sample, startX, startY, settings.fill);
+    if (!mask) return;
+    // Another frame or layer is shown now: the area was found on pixels that are no longer there
+    if (shownLayerRef.current.key !== target) return;
+    // Paint onto the layer as it is now, in case it was drawn on while the area was worked out
+    const pixels = inWorker || settings.fill.sampleMerged ? readLayer() : source;
+    applyFillMask(pixels, mask, fillColorHex, settings.opacity);
+
+    ctx.putImageData(pixels, 0, 0);
+    const newImage = createImage(canvas);
+    shownImageRef.current = newImage;
+    shownLayerRef.current.commit(newImage);
+  };
 
-    // Tolerance check could be added here, but exact match for now
-    if (startR === fillR && startG === fillG && startB === fillB && startA === fillA) return;
+  // --- Eyedropper ---
+  // Samples what's visible on the stage, not just the active layer. The layers are rendered
+  // once when the pick starts; dragging then shows a loupe and the color is taken on release.
+  const [pickSource, setPickSource] = useState<PickSource | null>(null);
+  const [pickPoint, setPickPoint] = useState<{ x: number; y: number; clientX: number; clientY: number } | null>(null);
 
-    const matchStartColor = (pos: number) => {
-      return data[pos] === startR && data[pos + 1] === startG && data[pos + 2] === startB && data[pos + 3] === startA;
-    };
+  const updatePickPoint = (e: React.PointerEvent, canvas: HTMLCanvasElement) => {
+    const { offsetX, offsetY } = getCoordinates(e, canvas);
+    setPickPoint({
+      x: Math.min(width - 1, Math.max(0, Math.floor(offsetX))),
+      y: Math.min(height - 1, Math.max(0, Math.floor(offsetY))),
+      clientX: e.clientX,
+      clientY: e.clientY
+    });
+  };
 
-    const colorPixel = (pos: number) => {
-      data[pos] = fillR;
-      data[pos + 1] = fillG;
-      data[pos + 2] = fillB;
-      data[pos + 3] = fillA;
-    };
+  const pickRenderRef = useRef<Promise<PickSource | null> | null>(null);
+
+  const startPick = () => {
+    setPickSource(null);
+    const render = renderLayers(layers, width, height, brushes)
+      .then(rendered => {
+        const image = rendered.getContext('2d', { willReadFrequently: true })!.getImageData(0, 0, width, height);
+        const paper = document.createElement('canvas');
+        paper.width = width;
+        paper.height = height;
+        const ctx = paper.getContext('2d')!;
+        ctx.fillStyle = PAPER_COLOR;
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(rendered, 0, 0);
+        const source = { image, paper };
+        if (pickRenderRef.current === render) setPickSource(source);
+        return source;
+      })
+      .catch(e => {
+        console.error("Failed to render layers for the eyedropper", e);
+        return null;
+      });
+    pickRenderRef.current = render;
+  };
 
-    const stack = [[startX, startY]];
+  const pickAt = (source: PickSource, x: number, y: number) => (
+    resolvePickedColor(sampleColor(source.image, x, y, settings.picker.radius), PAPER_COLOR, settings.picker)
+  );
 
-    while (stack.length) {
-      const pop = stack.pop();
-      if (!pop) continue;
-      let [x, y] = pop;
-      let pos = (y * width + x) * 4;
+  const pickPreview = useMemo(() => (
+    pickSource && pickPoint ? pickAt(pickSource, pickPoint.x, pickPoint.y) : null
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  ), [pickSource, pickPoint, settings.picker]);
+
+  const finishPick = () => {
+    const point = pickPoint;
+    const render = pickRenderRef.current;
+    setPickPoint(null);
+    setPickSource(null);
+    pickRenderRef.current = null;
+    if (!point || !render) return;
+    // A quick tap can end before the layers finish rendering
+    render.then(source => {
+      if (!source) return;
+      const picked = pickAt(source, point.x, point.y);
+      onPickColor(picked.color, picked.opacity);
+    });
+  };
 
-      while (y >= 0 && matchStartColor(pos)) {
-        y--;
-        pos -= width * 4;
-      }
-      pos += width * 4;
-      y++;
-
-      let reachLeft = false;
-      let reachRight = false;
-
-      while (y < height && matchStartColor(pos)) {
-        colorPixel(pos);
-
-        if (x > 0) {
-          if (matchStartColor(pos - 4)) {
-            if (!reachLeft) {
-              stack.push([x - 1, y]);
-              reachLeft = true;
-            }
-          } else if (reachLeft) {
-            reachLeft = false;
-          }
-        }
-
-        if (x < width - 1) {
-          if (matchStartColor(pos + 4)) {
-            if (!reachRight) {
-              stack.push([x + 1, y]);
-              reachRight = true;
-            }
-          } else if (reachRight) {
-            reachRight = false;
-          }
-        }
-
-        y++;
-        pos += width * 4;
-      }
-    }
+  // --- Input Handling ---
 
-    ctx.putImageData(imageData, 0, 0);
-    const newData = canvas.toDataURL();
-    addToHistory(newData);
-    updateLayerAndComposite(newData);
+  const getCoordinates = (e: React.PointerEvent, canvas: HTMLCanvasElement) => {
+    const { x, y } = clientToCanvasPoint(e.clientX, e.clientY, canvas, canvas.width, canvas.height, viewRotation);
+    return { offsetX: x, offsetY: y };
   };
 
-  const pickColorAt = (x: number, y: number) => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) return;
+  const activeLayer = layers[activeLayerIndex];
+  const selectionBox = selection && !isDrawing ? getSelectionBox(selection) : null;
+  // Vector layers are drawn on as objects (ObjectCanvas), so only their pixels from before are here
+  const canEditLayer = !!activeLayer && activeLayer.kind === 'raster' && activeLayer.visible && !activeLayer.locked;
+  const isObjectTool = settings.tool === ToolType.SHAPE || settings.tool === ToolType.TEXT;
+
+  const strokeBrush = settings.tool === ToolType.ERASER ? ERASER_BRUSH : brush;
+  const strokeOpacity = settings.opacity * strokeBrush.opacity;
+
+  // Draws stroke samples. `length` is only known once the stroke is finished, for the end taper.
+  const paintSamples = (ctx: CanvasRenderingContext2D, samples: StrokeSample[], length: number | null) => {
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    ctx.globalCompositeOperation = stroke.tool === ToolType.ERASER ? 'destination-out' : 'source-over';
+    paintStamps(ctx, samples, {
+      brush: stroke.brush,
+      dynamics: stroke.dynamics,
+      color: settings.color,
+      size: settings.brushSize,
+      length
+    }, stroke.stamps);
+    ctx.globalCompositeOperation = 'source-over';
+  };
 
-    // We only read from the active layer canvas. 
-    // Ideally we'd read from composite, but that requires merging first or reading the visual state.
-    // For simplicity, let's read the current layer. If transparent, default to white or underlying?
-    // Let's grab data from current context.
-
-    const pixel = ctx.getImageData(x, y, 1, 1).data;
-    const r = pixel[0].toString(16).padStart(2, '0');
-    const g = pixel[1].toString(16).padStart(2, '0');
-    const b = pixel[2].toString(16).padStart(2, '0');
-    // Simple RGB, ignoring alpha for now or assuming white bg if alpha 0
-    onPickColor(`#${r}${g}${b}`.toUpperCase());
+  // Pressing inside the selection moves it and on a handle scales or rotates it; anywhere else
+  // drops it and starts a new outline
+  const startSelectionDrag = (point: Point) => {
+    const current = selectionRef.current;
+    if (current) {
+      const handle = getHandleAt(point, current.bounds, current.transform);
+      if (handle || isPointInSelection(current, point)) {
+        selectionDragRef.current = { handle: handle || 'move', start: point, startTransform: current.transform };
+        return;
+      }
+      commitSelection();
+    }
+    setOutlineDraft([point]);
   };
 
-  // --- Input Handling ---
+  const moveSelectionDrag = (point: Point, proportional: boolean) => {
+    if (outlineDraft) {
+      if (settings.selection.shape === 'rect') {
+        setOutlineDraft([outlineDraft[0], point]);
+        return;
+      }
+      const last = outlineDraft[outlineDraft.length - 1];
+      if (Math.hypot(point.x - last.x, point.y - last.y) >= MIN_SELECTION_SIZE) setOutlineDraft([...outlineDraft, point]);
+      return;
+    }
 
-  const getCoordinates = (e: React.PointerEvent, canvas: HTMLCanvasElement) => {
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    return {
-      offsetX: (e.clientX - rect.left) * scaleX,
-      offsetY: (e.clientY - rect.top) * scaleY,
+    const drag = selectionDragRef.current;
+    const current = selectionRef.current;
+    if (!drag || !current) return;
+    const transform = drag.handle === 'move'
+      ? multiply(translation(point.x - drag.start.x, point.y - drag.start.y), drag.startTransform)
+      : getDraggedMatrix(drag.handle, drag.start, point, current.bounds, drag.startTransform, proportional);
+    updateSelection({ transform, changed: true });
+  };
+
+  // A finished outline lifts the pixels inside it off the layer
+  const finishSelectionDrag = () => {
+    selectionDragRef.current = null;
+    const draft = outlineDraft;
+    setOutlineDraft(null);
+    const layer = layers[activeLayerIndex];
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!draft || !layer || !canvas || !ctx) return;
+
+    const outline = settings.selection.shape === 'rect' ? getRectOutline(draft[0], draft[draft.length - 1]) : draft;
+    if (outline.length < 3) return;
+    const lifted = liftPixels(canvas, outline, width, height);
+    if (!lifted) return;
+    clearOutline(ctx, outline);
+    const next: ActiveSelection = {
+      ...lifted,
+      frameId: currentFrameId,
+      layerId: layer.id,
+      layers,
+      source: layer.image,
+      lifted: outline,
+      changed: false
     };
+    selectionRef.current = next;
+    setSelection(next);
   };
 
-  const getPressureLineWidth = (baseSize: number, pressure: number, tool: ToolType, pointerType: string) => {
-    if (tool === ToolType.ERASER) return baseSize;
+  const flipSelection = (horizontal: boolean) => {
+    const current = selectionRef.current;
+    if (current) updateSelection({ transform: getFlippedMatrix(current.bounds, current.transform, horizontal), changed: true });
+  };
 
-    // If not a pen, or if pressure is default (0.5 often means "unknown" or mouse), treat as full
-    if (pointerType !== 'pen' || pressure === 0.5) {
-      if (tool === ToolType.PENCIL || tool === ToolType.CRAYON) return baseSize * 0.8;
-      return baseSize;
+  // Floating pixels with the layer, and the outline and handles on top
+  useEffect(() => {
+    const pixels = selectionCanvasRef.current?.getContext('2d');
+    const ui = selectionUiRef.current?.getContext('2d');
+    if (!pixels || !ui) return;
+    pixels.clearRect(0, 0, width, height);
+    ui.clearRect(0, 0, width, height);
+
+    if (outlineDraft && outlineDraft.length > 1) {
+      drawSelectionOutline(ui, settings.selection.shape === 'rect'
+        ? getRectOutline(outlineDraft[0], outlineDraft[outlineDraft.length - 1])
+        : outlineDraft);
     }
-
-    // Boost pressure sensitivity for iPad/Tablets
-    // Use an even flatter curve (power 0.2) to make light touches very strong
-    // Increase minimum floor to 0.5 to ensure visibility
-    const p = Math.max(Math.pow(pressure, 0.2), 0.5);
-
-    if (tool === ToolType.PENCIL || tool === ToolType.CRAYON) {
-      return baseSize * (0.6 + p * 0.4); // Range: 0.8 to 1.0 * base (approx)
-    } else if (tool === ToolType.MARKER) {
-      return baseSize * (0.7 + p * 0.3);
-    } else {
-      // Brush/Watercolor dynamic range
-      const minSize = baseSize * 0.5;
-      const variableSize = baseSize * 1.5 * p;
-      return Math.max(minSize, variableSize);
+    if (selection) {
+      drawFloating(pixels, selection);
+      drawSelectionOutline(ui, selection.outline, selection.transform);
+      drawTransformBox(ui, selection.bounds, selection.transform);
     }
-  };
+  }, [selection, outlineDraft, width, height, settings.selection.shape]);
 
   const startDrawing = (e: React.PointerEvent) => {
     if (isPlaying) return;
@@ -319,167 +542,124 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({
     const { offsetX, offsetY } = getCoordinates(e, canvas);
 
     if (settings.tool === ToolType.PICKER) {
-      pickColorAt(Math.floor(offsetX), Math.floor(offsetY));
+      updatePickPoint(e, canvas);
+      startPick();
       return;
     }
 
-    if (settings.tool === ToolType.FILL) {
-      floodFill(Math.floor(offsetX), Math.floor(offsetY), settings.color);
-      return;
-    }
+    // Shapes and text are vector objects, made on vector layers only
+    if (!canEditLayer || isObjectTool) return;
 
-    setIsDrawing(true);
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-
-    const pressure = e.pressure !== 0 ? e.pressure : 0.5;
-    lastPos.current = { x: offsetX, y: offsetY, pressure };
-
-    const currentWidth = getPressureLineWidth(settings.brushSize, pressure, settings.tool, e.pointerType);
-
-    // Initial setup for the stroke
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    if (settings.tool === ToolType.ERASER) {
-      ctx.globalCompositeOperation = 'destination-out';
-      ctx.fillStyle = '#000000'; // Color doesn't matter for destination-out
-      ctx.strokeStyle = '#000000';
-    } else {
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.fillStyle = settings.color;
-      ctx.strokeStyle = settings.color;
-    }
-
-    ctx.globalAlpha = 1.0;
-    if (settings.tool === ToolType.MARKER) ctx.globalAlpha = 0.5;
-
-    // Draw initial dot
-    if (settings.tool === ToolType.PENCIL || settings.tool === ToolType.CRAYON) {
-      drawTextureDot(ctx, offsetX, offsetY, currentWidth, pressure, settings.color, settings.tool);
-    } else {
-      ctx.beginPath();
-      ctx.arc(offsetX, offsetY, currentWidth / 2, 0, Math.PI * 2);
-      ctx.fill();
+    if (settings.tool === ToolType.SELECT) {
+      startSelectionDrag({ x: offsetX, y: offsetY });
+      return;
     }
-  };
 
-  const drawTextureDot = (ctx: CanvasRenderingContext2D, x: number, y: number, size: number, pressure: number, color: string, tool: ToolType) => {
-    const isCrayon = tool === ToolType.CRAYON;
-    const maxOpacity = isCrayon ? 1.0 : 0.8;
-
-    // Boost pressure for opacity too
-    const pRaw = pressure <= 0 ? 0.5 : pressure;
-    // Stronger boost: power 0.2 and min 0.5
-    const p = Math.max(Math.pow(pRaw, 0.2), 0.5);
-
-    // Minimum opacity 0.5 to ensure strokes are never too faint
-    const opacity = Math.max(0.5, Math.min(maxOpacity, p * (isCrayon ? 2.0 : 1.5)));
-
-    const oldAlpha = ctx.globalAlpha;
-    const oldComposite = ctx.globalCompositeOperation;
-    const oldFill = ctx.fillStyle;
-
-    ctx.globalAlpha = opacity;
-    ctx.fillStyle = color;
-
-    if (tool === ToolType.ERASER) {
-      ctx.globalCompositeOperation = 'destination-out';
-      ctx.fillStyle = '#000000';
-      ctx.globalAlpha = 1.0;
+    if (settings.tool === ToolType.FILL) {
+      floodFill(Math.floor(offsetX), Math.floor(offsetY), settings.color).catch(e => {
+        if (!isCancelled(e)) console.error("Fill failed", e);
+      });
+      return;
     }
 
-    const roughness = size * (isCrayon ? 0.6 : 0.2);
-
-    ctx.beginPath();
-    const jx = x + (Math.random() - 0.5) * roughness;
-    const jy = y + (Math.random() - 0.5) * roughness;
-    const particleSize = isCrayon ? size * 0.8 : size * 0.5;
+    clearStrokeCanvas();
+    const ctx = getPaintContext();
+    if (!ctx) return;
 
-    ctx.arc(jx, jy, particleSize, 0, Math.PI * 2);
-    ctx.fill();
+    const dynamics = getBrushDynamics(settings);
+    const seed = createSeed();
+    strokeRef.current = {
+      builder: createStrokeBuilder(dynamics),
+      brush: strokeBrush,
+      dynamics,
+      tool: settings.tool,
+      stamps: createStampState(seed),
+      seed,
+      // The eraser works on the layer itself, so keep what was there to redraw a tapered end
+      base: settings.tool === ToolType.ERASER && dynamics.taperEnd > 0
+        ? canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height)
+        : null
+    };
+    setIsDrawing(true);
 
-    // Restore context
-    ctx.globalAlpha = oldAlpha;
-    ctx.globalCompositeOperation = oldComposite;
-    ctx.fillStyle = oldFill;
+    paintSamples(ctx, strokeRef.current.builder.add({ x: offsetX, y: offsetY, pressure: getPointerPressure(e) }), null);
   };
 
   const draw = (e: React.PointerEvent) => {
-    // If picker is active, maybe update a preview? For now, do nothing on move
-    if (!isDrawing || isPlaying || !lastPos.current || settings.tool === ToolType.FILL || settings.tool === ToolType.PICKER) return;
+    if (settings.tool === ToolType.PICKER) {
+      if (pickPoint && canvasRef.current) updatePickPoint(e, canvasRef.current);
+      return;
+    }
+    if (settings.tool === ToolType.SELECT) {
+      if (canvasRef.current) {
+        const { offsetX, offsetY } = getCoordinates(e, canvasRef.current);
+        moveSelectionDrag({ x: offsetX, y: offsetY }, e.shiftKey);
+      }
+      return;
+    }
+    const stroke = strokeRef.current;
+    if (!isDrawing || isPlaying || !stroke) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+    const ctx = getPaintContext();
     if (!ctx) return;
 
     // Prevent default touch actions like scrolling
     e.preventDefault();
 
-    const { offsetX, offsetY } = getCoordinates(e, canvas);
-    const pressure = e.pressure !== 0 ? e.pressure : 0.5;
-    const currentWidth = getPressureLineWidth(settings.brushSize, pressure, settings.tool, e.pointerType);
-
-    if (settings.tool === ToolType.ERASER) {
-      ctx.globalCompositeOperation = 'destination-out';
-      ctx.strokeStyle = '#000000';
-    } else {
-      ctx.globalCompositeOperation = 'source-over';
-      ctx.strokeStyle = settings.color;
-    }
-
-    if (settings.tool === ToolType.MARKER) ctx.globalAlpha = 0.5;
-    else ctx.globalAlpha = 1.0;
-
-    if (settings.tool === ToolType.PENCIL || settings.tool === ToolType.CRAYON) {
-      const dist = Math.hypot(offsetX - lastPos.current.x, offsetY - lastPos.current.y);
-      const angle = Math.atan2(offsetY - lastPos.current.y, offsetX - lastPos.current.x);
-      const step = settings.tool === ToolType.CRAYON ? 2 : 1;
-
-      for (let i = 0; i < dist; i += step) {
-        const x = lastPos.current.x + Math.cos(angle) * i;
-        const y = lastPos.current.y + Math.sin(angle) * i;
-        // Linear interpolation of pressure
-        const ratio = i / dist;
-        const p = lastPos.current.pressure + (pressure - lastPos.current.pressure) * ratio;
-        const w = getPressureLineWidth(settings.brushSize, p, settings.tool, e.pointerType);
-        drawTextureDot(ctx, x, y, w, p, settings.color, settings.tool);
-      }
-    } else {
-      ctx.lineWidth = currentWidth;
-      ctx.beginPath();
-      ctx.moveTo(lastPos.current.x, lastPos.current.y);
-      ctx.lineTo(offsetX, offsetY);
-      ctx.stroke();
-
-      // Fill gaps in fast strokes with circles
-      ctx.beginPath();
-      ctx.arc(offsetX, offsetY, currentWidth / 2, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    // Reset standard context
-    ctx.globalAlpha = 1.0;
-    ctx.globalCompositeOperation = 'source-over';
-    lastPos.current = { x: offsetX, y: offsetY, pressure };
+    // Coalesced events keep fast pen strokes from turning into straight segments
+    const events = e.nativeEvent.getCoalescedEvents?.() || [];
+    const inputs = events.length > 0 ? events : [e.nativeEvent];
+    inputs.forEach(input => {
+      const { x, y } = clientToCanvasPoint(input.clientX, input.clientY, canvas, canvas.width, canvas.height, viewRotation);
+      paintSamples(ctx, stroke.builder.add({ x, y, pressure: getPointerPressure(input) }), null);
+    });
   };
 
   const stopDrawing = (e: React.PointerEvent) => {
-    if (settings.tool === ToolType.PICKER) return;
+    if (settings.tool === ToolType.PICKER) {
+      finishPick();
+      return;
+    }
+    if (settings.tool === ToolType.SELECT) {
+      finishSelectionDrag();
+      return;
+    }
 
-    if (!isDrawing) return;
+    const stroke = strokeRef.current;
+    if (!isDrawing || !stroke) return;
 
     const canvas = canvasRef.current;
-    if (canvas) {
+    const ctx = canvas?.getContext('2d');
+    const paintCtx = getPaintContext();
+    if (canvas && ctx && paintCtx) {
       canvas.releasePointerCapture(e.pointerId);
-      const newData = canvas.toDataURL();
-      // IMPORTANT: Add to history BEFORE updating parent to ensure sync
-      addToHistory(newData);
-      updateLayerAndComposite(newData);
+      paintSamples(paintCtx, stroke.builder.finish(), null);
+
+      if (stroke.dynamics.taperEnd > 0) {
+        // Only now is the stroke's length known: draw it again with the end thinned out
+        if (stroke.base) ctx.putImageData(stroke.base, 0, 0);
+        else clearStrokeCanvas();
+        stroke.stamps = createStampState(stroke.seed);
+        paintSamples(paintCtx, stroke.builder.getSamples(), stroke.builder.getLength());
+      }
+
+      const strokeCanvas = strokeCanvasRef.current;
+      if (stroke.tool !== ToolType.ERASER && strokeCanvas) {
+        ctx.globalAlpha = settings.opacity * stroke.brush.opacity;
+        ctx.globalCompositeOperation = toCompositeOperation(stroke.brush.blendMode);
+        ctx.drawImage(strokeCanvas, 0, 0);
+        ctx.globalAlpha = 1.0;
+        ctx.globalCompositeOperation = 'source-over';
+        clearStrokeCanvas();
+      }
+      const newImage = createImage(canvas);
+      shownImageRef.current = newImage;
+      updateLayerAndComposite(newImage);
     }
 
     setIsDrawing(false);
-    lastPos.current = null;
+    strokeRef.current = null;
   };
 
   return (
@@ -504,23 +684,17 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({
       )}
 
       {/* Onion Skin */}
-      {onionSkin && prevFrameData && !isPlaying && (
-        <img
-          src={prevFrameData}
-          alt="onion-skin"
-          className="absolute inset-0 pointer-events-none opacity-30 select-none w-full h-full object-contain z-[5]"
-        />
-      )}
+      {!isPlaying && <OnionSkinOverlay frames={onionSkinFrames} />}
 
       {/* Inactive Layers */}
-      {layers.map((layerSrc, index) => (
-        index !== activeLayerIndex ? (
-          <img
-            key={index}
-            src={layerSrc}
-            alt={`layer-${index}`}
+      {layers.map((layer, index) => (
+        index !== activeLayerIndex && layer.visible ? (
+          <LayerCanvas
+            key={layer.id}
+            layer={layer}
+            brushes={brushes}
             className="absolute inset-0 w-full h-full pointer-events-none"
-            style={{ zIndex: index + 1 }}
+            style={{ zIndex: index + 1, opacity: layer.opacity, mixBlendMode: layer.blendMode }}
           />
         ) : null
       ))}
@@ -537,10 +711,90 @@ export const Canvas = forwardRef<CanvasHandle, CanvasProps>(({
         className="absolute inset-0 touch-none w-full h-full"
         style={{
           touchAction: 'none',
-          cursor: settings.tool === ToolType.ERASER ? 'cell' : settings.tool === ToolType.FILL ? 'pointer' : settings.tool === ToolType.PICKER ? 'crosshair' : 'crosshair',
-          zIndex: activeLayerIndex + 1
+          cursor: (!canEditLayer && settings.tool !== ToolType.PICKER) || isObjectTool ? 'not-allowed' : settings.tool === ToolType.SELECT ? 'default' : settings.tool === ToolType.ERASER ? 'cell' : settings.tool === ToolType.FILL ? 'pointer' : settings.tool === ToolType.PICKER ? 'crosshair' : 'crosshair',
+          zIndex: activeLayerIndex + 1,
+          opacity: activeLayer?.visible ? activeLayer.opacity : 0,
+          mixBlendMode: activeLayer?.blendMode
         }}
       />
+
+      {/* Stroke in progress, shown at the opacity it will be merged with */}
+      <canvas
+        ref={strokeCanvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{
+          zIndex: activeLayerIndex + 1,
+          opacity: activeLayer?.visible ? activeLayer.opacity * strokeOpacity : 0,
+          mixBlendMode: strokeBrush.blendMode
+        }}
+      />
+
+      {/* Floating selection, shown like it will look once it's stamped down */}
+      <canvas
+        ref={selectionCanvasRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{
+          zIndex: activeLayerIndex + 1,
+          opacity: activeLayer?.visible ? activeLayer.opacity : 0,
+          mixBlendMode: activeLayer?.blendMode
+        }}
+      />
+      <canvas
+        ref={selectionUiRef}
+        width={width}
+        height={height}
+        className="absolute inset-0 w-full h-full pointer-events-none"
+        style={{ zIndex: layers.length + 1 }}
+      />
+
+      {/* Action buttons for the selection */}
+      {selectionBox && (
+        <div
+          className="absolute bg-white rounded-lg shadow-lg flex gap-2 p-2"
+          style={{
+            zIndex: layers.length + 2,
+            // Canvas pixels in percent so it lines up at any stage scale
+            left: `calc(${((selectionBox.x + selectionBox.width) / width) * 100}% + 10px)`,
+            top: `${(selectionBox.y / height) * 100}%`
+          }}
+        >
+          <button onClick={() => flipSelection(true)} className="p-2 hover:bg-gray-100 rounded transition-colors" title="Flip Horizontal">
+            <FlipHorizontal2 size={16} />
+          </button>
+          <button onClick={() => flipSelection(false)} className="p-2 hover:bg-gray-100 rounded transition-colors" title="Flip Vertical">
+            <FlipVertical2 size={16} />
+          </button>
+          <button onClick={copySelection} className="p-2 hover:bg-gray-100 rounded transition-colors" title="Copy">
+            <Copy size={16} />
+          </button>
+          <button onClick={cutSelection} className="p-2 hover:bg-gray-100 rounded transition-colors" title="Cut">
+            <Scissors size={16} />
+          </button>
+          <button onClick={() => commitSelection('Delete Selection', false)} className="p-2 hover:bg-red-50 text-red-500 rounded transition-colors" title="Delete">
+            <Trash2 size={16} />
+          </button>
+          <button onClick={() => commitSelection()} className="p-2 hover:bg-apple-blue/10 text-apple-blue rounded transition-colors" title="Done">
+            <Check size={16} />
+          </button>
+        </div>
+      )}
+
+      {pickPoint && (
+        <PickerLoupe
+          source={pickSource?.paper || null}
+          x={pickPoint.x}
+          y={pickPoint.y}
+          clientX={pickPoint.clientX}
+          clientY={pickPoint.clientY}
+          radius={settings.picker.radius}
+          color={pickPreview?.color || null}
+          opacity={pickPreview?.opacity}
+        />
+      )}
     </div>
   );
 });
@@ -1,15 +1,18 @@
 
 import React, { useEffect } from 'react';
 import { X, Pause, Play, Maximize2 } from 'lucide-react';
+import { ImageHandle } from '../types';
+import { ImageCanvas } from './ImageCanvas';
 
 interface CinemaViewProps {
-  frameData: string;
+  frame: ImageHandle; // Composite of the frame on screen
   onClose: () => void;
   isPlaying: boolean;
   onTogglePlay: () => void;
+  aspectRatio: number; // Project width / height
 }
 
-export const CinemaView: React.FC<CinemaViewProps> = ({ frameData, onClose, isPlaying, onTogglePlay }) => {
+export const CinemaView: React.FC<CinemaViewProps> = ({ frame, onClose, isPlaying, onTogglePlay, aspectRatio }) => {
   
   // Auto-play when entering cinema mode if not already playing
   useEffect(() => {
@@ -28,14 +31,16 @@ export const CinemaView: React.FC<CinemaViewProps> = ({ frameData, onClose, isPl
       </div>
 
       {/* Screen Container */}
-      <div className="relative z-10 w-full max-w-5xl aspect-[4/3] max-h-[75vh] mx-4 animate-in zoom-in-95 duration-700 ease-out fill-mode-forwards">
+      <div
+        className="relative z-10 w-full max-w-5xl max-h-[75vh] mx-4 animate-in zoom-in-95 duration-700 ease-out fill-mode-forwards"
+        style={{ aspectRatio }}
+      >
         
         {/* The Screen Itself */}
         <div className="relative w-full h-full bg-black rounded-lg overflow-hidden shadow-[0_0_50px_rgba(255,255,255,0.05)] border border-gray-800/50 ring-1 ring-white/10">
-            <img 
-                src={frameData} 
-                className="w-full h-full object-contain" 
-                alt="Cinema Screen"
+            <ImageCanvas
+                image={frame}
+                className="w-full h-full object-contain"
             />
             
             {/* Screen Gloss/Reflection overlay */}
@@ -49,7 +54,7 @@ export const CinemaView: React.FC<CinemaViewProps> = ({ frameData, onClose, isPl
       {/* Floor Reflection */}
       <div className="relative z-0 w-full max-w-5xl mx-4 h-40 -mt-2 opacity-30 pointer-events-none perspective-1000">
           <div className="w-full h-full transform scale-y-[-1] origin-top blur-lg opacity-50">
-             <img src={frameData} className="w-full h-full object-contain opacity-50 mask-linear-fade" />
+             <ImageCanvas image={frame} className="w-full h-full object-contain opacity-50 mask-linear-fade" />
           </div>
           {/* Mask for fade out */}
           <div className="absolute inset-0 bg-gradient-to-b from-transparent to-[#050505]" />
@@ -7,6 +7,8 @@ interface ColorPickerProps {
   onChange: (color: string) => void;
   onActivateEyedropper: () => void;
   onClose: () => void;
+  opacity?: number; // 0-1, slider is hidden when not given
+  onOpacityChange?: (opacity: number) => void;
 }
 
 // Utility functions for color conversion
@@ -67,7 +69,7 @@ const hslToRgb = (h: number, s: number, l: number) => {
   return { r: Math.round(r * 255), g: Math.round(g * 255), b: Math.round(b * 255) };
 };
 
-export const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, onActivateEyedropper, onClose }) => {
+export const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, onActivateEyedropper, onClose, opacity, onOpacityChange }) => {
   const [mode, setMode] = useState<'solid' | 'sliders'>('solid');
   const [customPalette, setCustomPalette] = useState<string[]>(() => {
     const saved = localStorage.getItem('animate_custom_palette');
@@ -255,6 +257,22 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({ color, onChange, onAct
         </div>
       )}
 
+      {/* Opacity */}
+      {opacity !== undefined && onOpacityChange && (
+        <div className="flex items-center gap-2 mt-4 text-xs text-gray-300">
+            <span className="w-12">Opacity</span>
+            <input
+                type="range"
+                min="5"
+                max="100"
+                value={Math.round(opacity * 100)}
+                onChange={(e) => onOpacityChange(parseInt(e.target.value) / 100)}
+                className="flex-1 accent-white h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
+            />
+            <span className="w-8 text-right">{Math.round(opacity * 100)}%</span>
+        </div>
+      )}
+
       {/* Hex & Eyedropper */}
       <div className="flex items-center gap-2 mt-4">
         <div className="flex-1 h-9 bg-white/10 rounded-lg flex items-center px-2 border border-white/10 focus-within:border-white/40 transition-colors">
@@ -0,0 +1,160 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Dices, Gift, X } from 'lucide-react';
+import { EffectRun } from '../types';
+import { EFFECTS, getDefaultParams, getEffect, MAX_EFFECT_FRAMES, MIN_EFFECT_FRAMES } from '../services/effects';
+import { createSeed } from '../services/random';
+
+interface EffectsPanelProps {
+  fps: number; // Preview plays at the project's speed
+  isProcessing: boolean;
+  onPreview: (run: EffectRun) => Promise<ImageData[]>; // Small frames for the preview
+  onApply: (run: EffectRun) => Promise<void>; // Inserts the frames after the current one
+  onClose: () => void;
+}
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}
+
+const SliderRow: React.FC<SliderRowProps> = ({ label, value, display, min, max, onChange }) => (
+  <div className="mb-2">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+    />
+  </div>
+);
+
+export const EffectsPanel: React.FC<EffectsPanelProps> = ({ fps, isProcessing, onPreview, onApply, onClose }) => {
+  const [run, setRun] = useState<Required<EffectRun>>(() => ({
+    effect: EFFECTS[0].id,
+    params: getDefaultParams(EFFECTS[0]),
+    frameCount: EFFECTS[0].defaultFrameCount,
+    seed: createSeed()
+  }));
+  const [previewFrames, setPreviewFrames] = useState<ImageData[]>([]);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const effect = getEffect(run.effect) || EFFECTS[0];
+
+  // Re-render the preview once the sliders settle
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onPreview(run)
+        .then(frames => { if (!cancelled) setPreviewFrames(frames); })
+        .catch(e => console.error("Effect preview failed", e));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [run]);
+
+  // Loop the preview
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || previewFrames.length === 0) return;
+    canvas.width = previewFrames[0].width;
+    canvas.height = previewFrames[0].height;
+    let index = 0;
+    const show = () => {
+      ctx.putImageData(previewFrames[index], 0, 0);
+      index = (index + 1) % previewFrames.length;
+    };
+    show();
+    const timer = setInterval(show, 1000 / fps);
+    return () => clearInterval(timer);
+  }, [previewFrames, fps]);
+
+  const selectEffect = (id: string) => {
+    const next = getEffect(id);
+    if (!next || next.id === run.effect) return;
+    setRun({ ...run, effect: next.id, params: getDefaultParams(next), frameCount: next.defaultFrameCount });
+  };
+
+  return (
+    <div className="p-3">
+      <div className="flex items-center gap-2 mb-3 text-gray-800 font-semibold text-sm">
+        <div className="w-8 h-8 rounded-full bg-apple-red/10 text-apple-red flex items-center justify-center">
+          <Gift size={16} />
+        </div>
+        Effects
+        <button onClick={onClose} className="ml-auto text-gray-400 hover:text-gray-600">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 mb-3">
+        {EFFECTS.map(e => (
+          <button
+            key={e.id}
+            type="button"
+            onClick={() => selectEffect(e.id)}
+            className={`px-1 py-1.5 text-[10px] font-semibold rounded-lg transition-colors ${
+              e.id === run.effect ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+            }`}
+          >
+            {e.name}
+          </button>
+        ))}
+      </div>
+
+      <div className="relative rounded-lg overflow-hidden bg-white shadow-paper border border-gray-100 mb-1">
+        <canvas ref={canvasRef} className="w-full h-auto block" />
+        <button
+          type="button"
+          onClick={() => setRun({ ...run, seed: createSeed() })}
+          className="absolute top-1.5 right-1.5 p-1.5 rounded-full bg-white/90 text-gray-600 hover:text-gray-900 shadow-sm"
+          title="Try Another Variation"
+        >
+          <Dices size={14} />
+        </button>
+      </div>
+      <p className="text-[11px] text-gray-400 mb-3">{effect.description}</p>
+
+      {effect.params.map(param => (
+        <SliderRow
+          key={param.key}
+          label={param.label}
+          value={run.params[param.key] ?? param.default}
+          display={`${run.params[param.key] ?? param.default}${param.unit || ''}`}
+          min={param.min}
+          max={param.max}
+          onChange={(value) => setRun({ ...run, params: { ...run.params, [param.key]: value } })}
+        />
+      ))}
+      <SliderRow
+        label="Frames"
+        value={run.frameCount}
+        display={`${run.frameCount}`}
+        min={MIN_EFFECT_FRAMES}
+        max={MAX_EFFECT_FRAMES}
+        onChange={(frameCount) => setRun({ ...run, frameCount })}
+      />
+
+      <button
+        type="button"
+        onClick={() => onApply(run)}
+        disabled={isProcessing}
+        className="w-full mt-1 py-2 bg-apple-red text-white rounded-lg font-semibold text-xs hover:bg-apple-red/90 disabled:opacity-50 transition-colors"
+      >
+        {isProcessing ? 'Animating...' : `Add ${run.frameCount} Frames`}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useRef, useState } from 'react';
+import { Download, X, Loader2, Image as ImageIcon, Film } from 'lucide-react';
+import { Frame } from '../types';
+import { exportGif } from '../services/gifExport';
+import { DitherMode } from '../services/gifEncoder';
+import { exportVideo, getSupportedVideoFormats, AudioFit, VideoFormat } from '../services/videoExport';
+import { downloadBlob, toFileName } from '../services/download';
+import { isCancelled } from '../services/jobs';
+
+interface ExportDialogProps {
+  frames: Frame[];
+  fps: number;
+  projectName: string;
+  audioUrl: string | null;
+  onClose: () => void;
+}
+
+type ExportFormat = 'gif' | VideoFormat;
+
+const DITHER_OPTIONS: { value: DitherMode; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'floyd-steinberg', label: 'Smooth' },
+  { value: 'ordered', label: 'Pattern' }
+];
+
+const COLOR_OPTIONS = [256, 128, 64, 32];
+const LOOP_OPTIONS = [
+  { value: 0, label: 'Forever' },
+  { value: 1, label: 'Once' },
+  { value: 3, label: '3 times' }
+];
+const SCALE_OPTIONS = [
+  { value: 1, label: 'Full' },
+  { value: 0.5, label: 'Half' },
+  { value: 0.25, label: 'Small' }
+];
+const REPEAT_OPTIONS = [
+  { value: 1, label: '1x' },
+  { value: 2, label: '2x' },
+  { value: 4, label: '4x' }
+];
+const AUDIO_FIT_OPTIONS: { value: AudioFit; label: string }[] = [
+  { value: 'trim', label: 'Play once' },
+  { value: 'loop', label: 'Loop music' }
+];
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  gif: 'GIF',
+  webm: 'WebM',
+  mp4: 'MP4'
+};
+
+const OptionGroup = <T extends string | number>({ label, options, value, onChange }: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="mb-3">
+    <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1.5">{label}</div>
+    <div className="flex gap-1 bg-gray-100/70 rounded-lg p-1">
+      {options.map(option => (
+        <button
+          key={String(option.value)}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={`flex-1 py-1.5 rounded-md text-xs font-medium transition-colors ${
+            value === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ frames, fps, projectName, audioUrl, onClose }) => {
+  const [videoFormats] = useState(getSupportedVideoFormats);
+  const [format, setFormat] = useState<ExportFormat>('gif');
+  const [repeat, setRepeat] = useState(1);
+  const [audioFit, setAudioFit] = useState<AudioFit>('trim');
+  const [dither, setDither] = useState<DitherMode>('floyd-steinberg');
+  const [maxColors, setMaxColors] = useState(256);
+  const [loop, setLoop] = useState(0);
+  const [scale, setScale] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setError(null);
+    setProgress(0);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const blob = format === 'gif'
+        ? await exportGif(frames, { fps, loop, dither, maxColors, scale }, setProgress, controller.signal)
+        : await exportVideo(frames, { fps, format, scale, repeat, audioUrl, audioFit }, setProgress, controller.signal);
+      downloadBlob(blob, toFileName(projectName, format));
+      onClose();
+    } catch (e) {
+      if (!isCancelled(e)) {
+        console.error("Export failed", e);
+        setError("Export failed. Try a smaller size.");
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-enter">
+      <div className="glass-panel rounded-2xl p-5 shadow-glass w-80 bg-white/90">
+        <div className="flex items-center justify-between mb-4 border-b border-gray-100 pb-2">
+          <div className="flex items-center gap-2 text-gray-800 font-semibold">
+            <Download size={18} />
+            <span>Export</span>
+          </div>
+          <button
+            onClick={() => isExporting ? abortRef.current?.abort() : onClose()}
+            className="text-gray-400 hover:text-gray-600"
+            title={isExporting ? "Cancel Export" : "Close"}
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2 mb-4 text-sm font-medium text-gray-700">
+          {format === 'gif' ? <ImageIcon size={16} className="text-apple-blue" /> : <Film size={16} className="text-apple-blue" />}
+          {format === 'gif' ? 'Animated GIF' : 'Video'}
+          <span className="ml-auto text-xs text-gray-400">{frames.length} frames · {fps} FPS</span>
+        </div>
+
+        <OptionGroup
+          label="Format"
+          options={(['gif', ...videoFormats] as ExportFormat[]).map(f => ({ value: f, label: FORMAT_LABELS[f] }))}
+          value={format}
+          onChange={setFormat}
+        />
+        <OptionGroup label="Size" options={SCALE_OPTIONS} value={scale} onChange={setScale} />
+
+        {format === 'gif' ? (
+          <>
+            <OptionGroup
+              label="Colors"
+              options={COLOR_OPTIONS.map(c => ({ value: c, label: String(c) }))}
+              value={maxColors}
+              onChange={setMaxColors}
+            />
+            <OptionGroup label="Dithering" options={DITHER_OPTIONS} value={dither} onChange={setDither} />
+            <OptionGroup label="Loop" options={LOOP_OPTIONS} value={loop} onChange={setLoop} />
+          </>
+        ) : (
+          <>
+            <OptionGroup label="Repeat Animation" options={REPEAT_OPTIONS} value={repeat} onChange={setRepeat} />
+            {audioUrl ? (
+              <OptionGroup label="Music" options={AUDIO_FIT_OPTIONS} value={audioFit} onChange={setAudioFit} />
+            ) : (
+              <div className="text-xs text-gray-400 mb-3">No music track. Add one in the timeline to include it.</div>
+            )}
+            <div className="text-[10px] text-gray-400 mb-2">Videos record in real time, so this takes as long as the animation.</div>
+          </>
+        )}
+
+        {error && <div className="text-xs text-apple-red mb-2">{error}</div>}
+
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="w-full mt-2 py-2.5 bg-[#1D1D1F] text-white rounded-xl font-semibold text-sm hover:bg-black disabled:opacity-70 transition-colors flex items-center justify-center gap-2"
+        >
+          {isExporting ? (
+            <>
+              <Loader2 size={16} className="animate-spin" />
+              {Math.round((progress || 0) * 100)}%
+            </>
+          ) : (
+            <>
+              <Download size={16} /> Export {FORMAT_LABELS[format]}
+            </>
+          )}
+        </button>
+      </div>
+    </div>
+  );
+};
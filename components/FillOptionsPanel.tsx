@@ -0,0 +1,82 @@
+
+import React from 'react';
+import { PaintBucket } from 'lucide-react';
+import { FillSettings } from '../types';
+import { MAX_FILL_EXPAND, MAX_GAP_CLOSING } from '../services/floodFill';
+
+interface FillOptionsPanelProps {
+  settings: FillSettings;
+  onChange: (changes: Partial<FillSettings>) => void;
+}
+
+const SliderRow = ({ label, value, display, min, max, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="mb-3">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+    />
+  </div>
+);
+
+export const FillOptionsPanel: React.FC<FillOptionsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-60 animate-in fade-in duration-200">
+      <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm mb-3 border-b border-gray-100 pb-2">
+        <PaintBucket size={16} />
+        <span>Fill</span>
+      </div>
+
+      <SliderRow
+        label="Tolerance"
+        value={settings.tolerance}
+        display={`${settings.tolerance}%`}
+        min={0}
+        max={100}
+        onChange={(tolerance) => onChange({ tolerance })}
+      />
+      <SliderRow
+        label="Grow / Shrink"
+        value={settings.expand}
+        display={`${settings.expand > 0 ? '+' : ''}${settings.expand}px`}
+        min={-MAX_FILL_EXPAND}
+        max={MAX_FILL_EXPAND}
+        onChange={(expand) => onChange({ expand })}
+      />
+      <SliderRow
+        label="Close Gaps"
+        value={settings.gapClosing}
+        display={settings.gapClosing === 0 ? 'Off' : `${settings.gapClosing}px`}
+        min={0}
+        max={MAX_GAP_CLOSING}
+        onChange={(gapClosing) => onChange({ gapClosing })}
+      />
+
+      <button
+        type="button"
+        onClick={() => onChange({ sampleMerged: !settings.sampleMerged })}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-700 py-1"
+        title="Find the fill area using every visible layer, but paint on the current one"
+      >
+        <span>Sample All Layers</span>
+        <span className={`w-8 h-5 rounded-full p-0.5 transition-colors ${settings.sampleMerged ? 'bg-apple-blue' : 'bg-gray-200'}`}>
+          <span className={`block w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${settings.sampleMerged ? 'translate-x-3' : ''}`} />
+        </span>
+      </button>
+    </div>
+  );
+};
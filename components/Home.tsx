@@ -1,19 +1,54 @@
 
-import React from 'react';
-import { Plus, Clock, Trash2, Film, PlayCircle, MoreHorizontal } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { Plus, Clock, Trash2, Film, PlayCircle, MoreHorizontal, Download, Upload } from 'lucide-react';
 import { Project } from '../types';
+import { BUNDLE_EXTENSION } from '../services/projectBundle';
+import { ResolutionPreset, formatAspectRatio } from '../services/resolution';
+import { NewProjectDialog } from './NewProjectDialog';
+import { Thumbnail } from './Thumbnail';
 
 interface HomeProps {
   projects: Project[];
-  onCreateProject: () => void;
+  onCreateProject: (preset: ResolutionPreset) => void;
   onSelectProject: (project: Project) => void;
   onDeleteProject: (id: string) => void;
+  onExportProject: (project: Project) => void;
+  onImportProject: (file: File) => Promise<void>;
 }
 
-export const Home: React.FC<HomeProps> = ({ projects, onCreateProject, onSelectProject, onDeleteProject }) => {
+export const Home: React.FC<HomeProps> = ({ projects, onCreateProject, onSelectProject, onDeleteProject, onExportProject, onImportProject }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [showNewProject, setShowNewProject] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset value so the same file can be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      await onImportProject(file);
+    } catch (error) {
+      console.error("Import failed", error);
+      setImportError(error instanceof Error ? error.message : "Couldn't open that file.");
+    }
+  };
+
   return (
     <div className="min-h-screen bg-paper-pattern p-6 md:p-12 overflow-y-auto">
-      
+
+      {showNewProject && (
+        <NewProjectDialog
+          onCreate={(preset) => {
+            setShowNewProject(false);
+            onCreateProject(preset);
+          }}
+          onClose={() => setShowNewProject(false)}
+        />
+      )}
+
       <div className="max-w-7xl mx-auto">
         {/* Header */}
         <div className="flex flex-col md:flex-row md:items-end justify-between mb-16 animate-enter">
@@ -21,21 +56,44 @@ export const Home: React.FC<HomeProps> = ({ projects, onCreateProject, onSelectP
             <h1 className="text-4xl md:text-5xl font-bold text-[#1D1D1F] tracking-tight mb-3">Studio</h1>
             <p className="text-[#86868B] text-lg font-medium">Your sketchbook.</p>
           </div>
-          <button 
-            onClick={onCreateProject}
-            className="mt-6 md:mt-0 bg-[#1D1D1F] hover:bg-black text-white px-6 py-3 rounded-full font-medium shadow-lg hover:shadow-xl transition-all hover:scale-105 active:scale-95 flex items-center gap-2"
-          >
-            <Plus size={20} />
-            New Sketch
-          </button>
+          <div className="mt-6 md:mt-0 flex items-center gap-3">
+            <input
+              type="file"
+              ref={fileInputRef}
+              className="hidden"
+              accept={`.${BUNDLE_EXTENSION},application/zip`}
+              onChange={handleFileChange}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-white hover:bg-gray-50 text-[#1D1D1F] px-5 py-3 rounded-full font-medium shadow-paper hover:shadow-paper-hover transition-all flex items-center gap-2 border border-gray-100"
+            >
+              <Upload size={18} />
+              Import
+            </button>
+            <button 
+              onClick={() => setShowNewProject(true)}
+              className="bg-[#1D1D1F] hover:bg-black text-white px-6 py-3 rounded-full font-medium shadow-lg hover:shadow-xl transition-all hover:scale-105 active:scale-95 flex items-center gap-2"
+            >
+              <Plus size={20} />
+              New Sketch
+            </button>
+          </div>
         </div>
 
+        {importError && (
+          <div className="-mt-10 mb-8 px-4 py-3 rounded-xl bg-red-50 text-red-600 text-sm font-medium flex items-center justify-between animate-enter">
+            {importError}
+            <button onClick={() => setImportError(null)} className="text-xs font-semibold hover:underline">Dismiss</button>
+          </div>
+        )}
+
         {/* Projects Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8 md:gap-10">
           
           {/* New Project Card (Minimalist) */}
           <button 
-            onClick={onCreateProject}
+            onClick={() => setShowNewProject(true)}
             className="group relative aspect-[4/3] bg-white rounded-2xl shadow-paper hover:shadow-paper-hover transition-all duration-300 flex flex-col items-center justify-center gap-4 border border-gray-100 hover:border-gray-200"
           >
              <div className="w-16 h-16 rounded-full bg-[#F5F5F7] group-hover:bg-blue-50 text-gray-400 group-hover:text-apple-blue flex items-center justify-center transition-colors duration-300">
@@ -56,14 +114,14 @@ export const Home: React.FC<HomeProps> = ({ projects, onCreateProject, onSelectP
                 onClick={() => onSelectProject(project)}
                 className="relative aspect-[4/3] bg-white rounded-2xl shadow-paper group-hover:shadow-paper-hover transition-all duration-300 cursor-pointer overflow-hidden border border-gray-100/50"
               >
-                {project.frames.length > 0 ? (
+                {project.preview ? (
                   <div className="w-full h-full p-4">
                       {/* Inner Paper Texture & Drawing */}
                       <div className="w-full h-full bg-[#FAFAF8] rounded-lg overflow-hidden relative">
                          <div className="absolute inset-0 opacity-[0.03] bg-[url('https://www.transparenttextures.com/patterns/cream-paper.png')] mix-blend-multiply pointer-events-none" />
-                         <img 
-                            src={project.previewImage || project.frames[0].dataUrl} 
-                            alt={project.name} 
+                         <Thumbnail
+                            image={project.preview}
+                            alt={project.name}
                             className="w-full h-full object-contain mix-blend-multiply opacity-90 transition-transform duration-700 group-hover:scale-105"
                           />
                       </div>
@@ -91,7 +149,9 @@ export const Home: React.FC<HomeProps> = ({ projects, onCreateProject, onSelectP
                   <div className="flex items-center gap-2 text-xs text-[#86868B]">
                     <span>{new Date(project.lastModified).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
                     <span>•</span>
-                    <span>{project.frames.length} frames</span>
+                    <span>{project.frameCount ?? project.frames.length} frames</span>
+                    <span>•</span>
+                    <span>{formatAspectRatio(project.width, project.height)}</span>
                   </div>
                 </div>
 
@@ -103,6 +163,12 @@ export const Home: React.FC<HomeProps> = ({ projects, onCreateProject, onSelectP
                     </button>
                     {/* Minimal Popover Menu */}
                     <div className="absolute right-0 top-full mt-1 w-32 bg-white rounded-xl shadow-lg border border-gray-100 py-1 opacity-0 invisible group-hover/menu:opacity-100 group-hover/menu:visible transition-all z-10 transform origin-top-right scale-95 group-hover/menu:scale-100">
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); onExportProject(project); }}
+                            className="w-full text-left px-3 py-2 text-xs font-medium text-gray-700 hover:bg-gray-50 flex items-center gap-2"
+                        >
+                            <Download size={12} /> Export
+                        </button>
                         <button 
                             onClick={(e) => { e.stopPropagation(); onDeleteProject(project.id); }}
                             className="w-full text-left px-3 py-2 text-xs font-medium text-red-500 hover:bg-red-50 flex items-center gap-2"
@@ -0,0 +1,40 @@
+
+import React, { useEffect, useRef } from 'react';
+import { ImageHandle } from '../types';
+import { getBitmap, peekBitmap } from '../services/frameStore';
+
+interface ImageCanvasProps {
+  image: ImageHandle;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Shows a stored image at full resolution. Drawn straight away when it's already decoded,
+// so flipping through frames during playback doesn't flicker.
+export const ImageCanvas: React.FC<ImageCanvasProps> = ({ image, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const draw = (bitmap: ImageBitmap) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      const ctx = canvas.getContext('2d');
+      ctx?.clearRect(0, 0, canvas.width, canvas.height);
+      ctx?.drawImage(bitmap, 0, 0);
+    };
+
+    const ready = peekBitmap(image);
+    if (ready) draw(ready);
+    else getBitmap(image).then(draw).catch(e => console.error("Failed to show image", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  return <canvas ref={canvasRef} className={className} style={style} />;
+};
@@ -0,0 +1,33 @@
+
+import React from 'react';
+import { Loader2, X } from 'lucide-react';
+
+interface JobProgressProps {
+  label: string;
+  progress: number; // 0-1
+  onCancel: () => void;
+}
+
+// Pill in the top bar while a background job runs
+export const JobProgress: React.FC<JobProgressProps> = ({ label, progress, onCancel }) => (
+  <div className="flex items-center gap-2 pl-3 pr-1.5 py-1.5 rounded-full bg-white/90 backdrop-blur-xl shadow-paper border border-white/60 animate-in fade-in duration-200">
+    <Loader2 size={14} className="animate-spin text-apple-purple flex-shrink-0" />
+    <div className="flex flex-col gap-1 w-24">
+      <div className="flex justify-between text-[10px] font-semibold text-gray-600">
+        <span className="truncate">{label}</span>
+        <span className="text-gray-400">{Math.round(progress * 100)}%</span>
+      </div>
+      <div className="h-1 rounded-full bg-gray-200 overflow-hidden">
+        <div className="h-full bg-apple-purple transition-all duration-200" style={{ width: `${progress * 100}%` }} />
+      </div>
+    </div>
+    <button
+      type="button"
+      onClick={onCancel}
+      className="p-1 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-100 transition-colors"
+      title="Cancel"
+    >
+      <X size={12} />
+    </button>
+  </div>
+);
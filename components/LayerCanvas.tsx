@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { BrushPreset, FrameLayer } from '../types';
+import { getBitmap, peekBitmap } from '../services/frameStore';
+import { drawObjects } from '../services/objectRendering';
+
+interface LayerCanvasProps {
+  layer: FrameLayer;
+  brushes: BrushPreset[]; // Custom presets, for objects drawn with them
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// A layer that isn't being edited: its pixels with its vector objects on top
+export const LayerCanvas: React.FC<LayerCanvasProps> = ({ layer, brushes, className, style }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { image, objects } = layer;
+
+  useEffect(() => {
+    let cancelled = false;
+    const draw = (bitmap: ImageBitmap) => {
+      const canvas = canvasRef.current;
+      if (cancelled || !canvas) return;
+      if (canvas.width !== bitmap.width || canvas.height !== bitmap.height) {
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+      }
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(bitmap, 0, 0);
+      drawObjects(ctx, objects || [], brushes);
+    };
+
+    const ready = peekBitmap(image);
+    if (ready) draw(ready);
+    else getBitmap(image).then(draw).catch(e => console.error("Failed to show layer", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [image, objects, brushes]);
+
+  return <canvas ref={canvasRef} className={className} style={style} />;
+};
@@ -1,25 +1,49 @@
 
-import React from 'react';
-import { Layers, Lock, Eye, EyeOff, Unlock } from 'lucide-react';
+import React, { useState } from 'react';
+import { Layers, Lock, Eye, EyeOff, Unlock, Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { BlendMode, FrameLayer, LayerKind } from '../types';
+import { BLEND_MODES, LAYER_KINDS, LayerProperties } from '../services/layers';
+import { Thumbnail } from './Thumbnail';
 
 interface LayersPanelProps {
-  layers: string[];
+  layers: FrameLayer[]; // Layers of the current frame, bottom to top
   activeIndex: number;
   onSelectLayer: (index: number) => void;
-  onToggleVisibility?: (index: number) => void; // Placeholder for future
-  onToggleLock?: (index: number) => void;      // Placeholder for future
+  onAddLayer: (kind: LayerKind) => void;
+  onRemoveLayer: (index: number) => void;
+  onMoveLayer: (index: number, toIndex: number) => void;
+  onUpdateLayer: (index: number, changes: Partial<LayerProperties>) => void;
   onClose: () => void;
 }
 
-const LAYER_NAMES = ['Background', 'Middle', 'Foreground'];
-
-export const LayersPanel: React.FC<LayersPanelProps> = ({ 
-  activeIndex, 
-  onSelectLayer, 
-  onClose 
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  layers,
+  activeIndex,
+  onSelectLayer,
+  onAddLayer,
+  onRemoveLayer,
+  onMoveLayer,
+  onUpdateLayer,
+  onClose
 }) => {
+  const [renamingIndex, setRenamingIndex] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const activeLayer = layers[activeIndex];
+
+  const startRename = (index: number) => {
+    setRenamingIndex(index);
+    setDraftName(layers[index].name);
+  };
+
+  const commitRename = () => {
+    if (renamingIndex !== null && draftName.trim()) {
+      onUpdateLayer(renamingIndex, { name: draftName.trim() });
+    }
+    setRenamingIndex(null);
+  };
+
   return (
-    <div className="glass-panel rounded-2xl p-4 shadow-glass w-64 animate-in slide-in-from-right-10 duration-200">
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-72 animate-in slide-in-from-right-10 duration-200">
       <div className="flex items-center justify-between mb-4 border-b border-gray-100 pb-2">
         <div className="flex items-center gap-2 text-gray-800 font-semibold">
           <Layers size={18} />
@@ -30,39 +54,139 @@ export const LayersPanel: React.FC<LayersPanelProps> = ({
         </button>
       </div>
 
-      <div className="flex flex-col-reverse gap-2">
-        {[0, 1, 2].map((index) => (
+      {/* Top layer first, like it's stacked on the stage */}
+      <div className="flex flex-col-reverse gap-2 max-h-72 overflow-y-auto no-scrollbar">
+        {layers.map((layer, index) => (
           <div
-            key={index}
+            key={layer.id}
             onClick={() => onSelectLayer(index)}
             className={`
-              relative flex items-center gap-3 p-3 rounded-xl cursor-pointer transition-all border-2
-              ${activeIndex === index 
-                ? 'bg-apple-blue/5 border-apple-blue shadow-sm' 
+              relative flex items-center gap-2 p-2 rounded-xl cursor-pointer transition-all border-2
+              ${activeIndex === index
+                ? 'bg-apple-blue/5 border-apple-blue shadow-sm'
                 : 'bg-white border-transparent hover:bg-gray-50'
               }
             `}
           >
-            {/* Layer Preview Thumbnail (Placeholder) */}
-            <div className={`w-10 h-8 rounded border ${activeIndex === index ? 'border-apple-blue/30' : 'border-gray-200'} bg-white flex items-center justify-center`}>
-               <span className="text-[10px] text-gray-400 font-bold">{index + 1}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); onUpdateLayer(index, { visible: !layer.visible }); }}
+              className={`p-1 rounded-full ${layer.visible ? 'text-gray-500 hover:bg-gray-100' : 'text-gray-300 hover:bg-gray-100'}`}
+              title={layer.visible ? "Hide Layer" : "Show Layer"}
+            >
+              {layer.visible ? <Eye size={14} /> : <EyeOff size={14} />}
+            </button>
+
+            {/* Layer Preview Thumbnail */}
+            <div className={`w-10 h-8 rounded border flex-shrink-0 ${activeIndex === index ? 'border-apple-blue/30' : 'border-gray-200'} bg-white overflow-hidden`}>
+              <Thumbnail image={layer.image} alt="" className={`w-full h-full object-contain ${layer.visible ? '' : 'opacity-30'}`} />
             </div>
 
-            <div className="flex-grow">
-               <div className={`text-sm font-medium ${activeIndex === index ? 'text-apple-blue' : 'text-gray-700'}`}>
-                 {LAYER_NAMES[index]}
-               </div>
-               <div className="text-[10px] text-gray-400">
-                  {index === 0 ? 'Bottom' : index === 2 ? 'Top' : 'Normal'}
-               </div>
+            <div className="flex-grow min-w-0">
+              {renamingIndex === index ? (
+                <input
+                  autoFocus
+                  value={draftName}
+                  onChange={(e) => setDraftName(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingIndex(null);
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  className="w-full text-sm font-medium bg-white border border-apple-blue/40 rounded px-1 outline-none"
+                />
+              ) : (
+                <div
+                  onDoubleClick={(e) => { e.stopPropagation(); startRename(index); }}
+                  className={`text-sm font-medium truncate ${activeIndex === index ? 'text-apple-blue' : 'text-gray-700'}`}
+                  title="Double-click to rename"
+                >
+                  {layer.name}
+                </div>
+              )}
+              <div className="text-[10px] text-gray-400">
+                {LAYER_KINDS.find(k => k.value === layer.kind)?.label} • {Math.round(layer.opacity * 100)}% • {BLEND_MODES.find(m => m.value === layer.blendMode)?.label}
+              </div>
             </div>
 
-            {activeIndex === index && (
-                <div className="w-2 h-2 rounded-full bg-apple-blue shadow-sm" />
-            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); onUpdateLayer(index, { locked: !layer.locked }); }}
+              className={`p-1 rounded-full hover:bg-gray-100 ${layer.locked ? 'text-apple-orange' : 'text-gray-300'}`}
+              title={layer.locked ? "Unlock Layer" : "Lock Layer"}
+            >
+              {layer.locked ? <Lock size={14} /> : <Unlock size={14} />}
+            </button>
           </div>
         ))}
       </div>
+
+      {/* Active Layer Settings */}
+      {activeLayer && (
+        <div className="mt-3 pt-3 border-t border-gray-100">
+          <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+            <span>Opacity</span>
+            <span>{Math.round(activeLayer.opacity * 100)}%</span>
+          </div>
+          <input
+            type="range"
+            min="0"
+            max="100"
+            value={Math.round(activeLayer.opacity * 100)}
+            onChange={(e) => onUpdateLayer(activeIndex, { opacity: parseInt(e.target.value) / 100 })}
+            className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue mb-3"
+          />
+
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Blend</div>
+          <select
+            value={activeLayer.blendMode}
+            onChange={(e) => onUpdateLayer(activeIndex, { blendMode: e.target.value as BlendMode })}
+            className="w-full text-xs font-medium text-gray-700 bg-gray-100/70 rounded-lg px-2 py-1.5 outline-none"
+          >
+            {BLEND_MODES.map(mode => (
+              <option key={mode.value} value={mode.value}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Layer Actions */}
+      <div className="flex items-center gap-1 mt-3 pt-3 border-t border-gray-100">
+        {LAYER_KINDS.map(kind => (
+          <button
+            key={kind.value}
+            onClick={() => onAddLayer(kind.value)}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-1.5 rounded-full text-xs font-medium transition-colors flex items-center gap-1"
+            title={`Add ${kind.label} Layer`}
+          >
+            <Plus size={14} /> {kind.label}
+          </button>
+        ))}
+        <div className="flex-grow" />
+        <button
+          onClick={() => onMoveLayer(activeIndex, activeIndex + 1)}
+          disabled={activeIndex >= layers.length - 1}
+          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-30"
+          title="Move Up"
+        >
+          <ChevronUp size={16} />
+        </button>
+        <button
+          onClick={() => onMoveLayer(activeIndex, activeIndex - 1)}
+          disabled={activeIndex <= 0}
+          className="p-1.5 text-gray-500 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-30"
+          title="Move Down"
+        >
+          <ChevronDown size={16} />
+        </button>
+        <button
+          onClick={() => onRemoveLayer(activeIndex)}
+          disabled={layers.length <= 1}
+          className="p-1.5 text-red-500 hover:bg-red-50 rounded-full transition-colors disabled:opacity-30"
+          title="Delete Layer"
+        >
+          <Trash2 size={16} />
+        </button>
+      </div>
     </div>
   );
 };
@@ -1,20 +1,26 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Sparkles, Lightbulb, Gift, MessageCircle, X, ChevronDown, Wand2 } from 'lucide-react';
 import { generateAnimationIdea, tellStoryAboutFrame } from '../services/geminiService';
+import { EffectRun, ImageHandle } from '../types';
+import { imageToDataUrl } from '../services/frameStore';
+import { EffectsPanel } from './EffectsPanel';
 
 interface MagicAssistProps {
-  currentFrameData: string;
-  onSurprise: () => void;
+  currentFrame: ImageHandle; // Composite the story is told about
+  fps: number;
+  onPreviewEffect: (run: EffectRun) => Promise<ImageData[]>;
+  onApplyEffect: (run: EffectRun) => Promise<void>;
   onAIEdit: (prompt: string) => Promise<void>;
   isProcessing: boolean;
 }
 
-export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSurprise, onAIEdit, isProcessing }) => {
+export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrame, fps, onPreviewEffect, onApplyEffect, onAIEdit, isProcessing }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [result, setResult] = useState<{type: 'idea' | 'story' | 'error', text: string} | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [editMode, setEditMode] = useState(false);
   const [editPrompt, setEditPrompt] = useState('');
+  const [effectsMode, setEffectsMode] = useState(false);
   
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -23,6 +29,7 @@ export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSu
       if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
         setIsOpen(false);
         setEditMode(false);
+        setEffectsMode(false);
       }
     };
     document.addEventListener('mousedown', handleClickOutside);
@@ -40,8 +47,12 @@ export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSu
   const handleGetStory = async () => {
     setIsLoading(true);
     setResult(null);
-    const text = await tellStoryAboutFrame(currentFrameData);
-    setResult({ type: 'story', text });
+    try {
+      const text = await tellStoryAboutFrame(await imageToDataUrl(currentFrame));
+      setResult({ type: 'story', text });
+    } catch (e) {
+      console.error("Failed to read the frame", e);
+    }
     setIsLoading(false);
   };
 
@@ -65,7 +76,7 @@ export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSu
   return (
     <div className="relative" ref={menuRef}>
       <button
-        onClick={() => { setIsOpen(!isOpen); setEditMode(false); }}
+        onClick={() => { setIsOpen(!isOpen); setEditMode(false); setEffectsMode(false); }}
         className={`
             flex items-center gap-2 px-4 py-2 rounded-full shadow-sm transition-all duration-300
             ${isOpen ? 'bg-gray-900 text-white' : 'bg-white text-gray-800 hover:bg-gray-50'}
@@ -80,7 +91,19 @@ export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSu
       {isOpen && (
         <div className="absolute right-0 top-full mt-2 w-80 glass-panel rounded-2xl p-2 shadow-xl z-50 origin-top-right animate-in fade-in zoom-in-95 duration-200">
             
-            {editMode ? (
+            {effectsMode ? (
+                <EffectsPanel
+                    fps={fps}
+                    isProcessing={isProcessing}
+                    onPreview={onPreviewEffect}
+                    onApply={async (run) => {
+                        await onApplyEffect(run);
+                        setIsOpen(false);
+                        setEffectsMode(false);
+                    }}
+                    onClose={() => setEffectsMode(false)}
+                />
+            ) : editMode ? (
                  <div className="p-3">
                     <div className="flex items-center gap-2 mb-3 text-gray-800 font-semibold text-sm">
                         <div className="w-8 h-8 rounded-full bg-apple-indigo/10 text-apple-indigo flex items-center justify-center">
@@ -156,7 +179,7 @@ export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSu
                         </button>
 
                         <button 
-                            onClick={() => { onSurprise(); setIsOpen(false); }}
+                            onClick={() => setEffectsMode(true)}
                             disabled={isLoading || isProcessing}
                             className="flex items-center gap-3 p-3 rounded-xl hover:bg-gray-50/80 transition-colors text-left w-full group"
                         >
@@ -164,15 +187,15 @@ export const MagicAssist: React.FC<MagicAssistProps> = ({ currentFrameData, onSu
                                 <Gift size={16} />
                             </div>
                             <div>
-                                <div className="font-semibold text-sm text-gray-800">Melt Effect</div>
-                                <div className="text-xs text-gray-500">Animate your drawing!</div>
+                                <div className="font-semibold text-sm text-gray-800">Effects</div>
+                                <div className="text-xs text-gray-500">Melt, explode, wobble and more!</div>
                             </div>
                         </button>
                     </div>
                 )
             )}
 
-            {isLoading && !editMode && (
+            {isLoading && !editMode && !effectsMode && (
                 <div className="p-8 text-center text-gray-400">
                     <Sparkles className="animate-spin mx-auto mb-2 text-apple-purple" size={24} />
                     <span className="text-xs font-medium">Working magic...</span>
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { X, Plus } from 'lucide-react';
+import { RESOLUTION_PRESETS, DEFAULT_PRESET_ID, ResolutionPreset, formatAspectRatio } from '../services/resolution';
+
+interface NewProjectDialogProps {
+  onCreate: (preset: ResolutionPreset) => void;
+  onClose: () => void;
+}
+
+export const NewProjectDialog: React.FC<NewProjectDialogProps> = ({ onCreate, onClose }) => {
+  const [selectedId, setSelectedId] = useState(DEFAULT_PRESET_ID);
+  const selected = RESOLUTION_PRESETS.find(p => p.id === selectedId) || RESOLUTION_PRESETS[0];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/20 backdrop-blur-sm animate-enter p-6">
+      <div className="bg-white rounded-3xl shadow-paper-hover w-full max-w-xl p-6 md:p-8 border border-gray-100">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h2 className="text-2xl font-bold text-[#1D1D1F] tracking-tight">New Sketch</h2>
+            <p className="text-[#86868B] text-sm font-medium mt-1">Pick the shape of your paper.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-300 hover:text-[#1D1D1F] p-1.5 rounded-full hover:bg-gray-100 transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+          {RESOLUTION_PRESETS.map(preset => {
+            const isSelected = preset.id === selectedId;
+            // Preview box with the preset's proportions, sized to fit a 56px square
+            const previewScale = 56 / Math.max(preset.width, preset.height);
+            return (
+              <button
+                key={preset.id}
+                type="button"
+                onClick={() => setSelectedId(preset.id)}
+                onDoubleClick={() => onCreate(preset)}
+                className={`flex flex-col items-center gap-3 p-4 rounded-2xl border-2 transition-all ${
+                  isSelected ? 'border-apple-blue bg-apple-blue/5' : 'border-gray-100 hover:border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="h-14 flex items-center justify-center">
+                  <div
+                    className={`rounded-sm border-2 ${isSelected ? 'border-apple-blue bg-white' : 'border-gray-300 bg-[#FAFAF8]'}`}
+                    style={{ width: preset.width * previewScale, height: preset.height * previewScale }}
+                  />
+                </div>
+                <div className="text-center">
+                  <div className={`text-sm font-semibold ${isSelected ? 'text-apple-blue' : 'text-[#1D1D1F]'}`}>{preset.label}</div>
+                  <div className="text-[11px] text-[#86868B]">
+                    {formatAspectRatio(preset.width, preset.height)} · {preset.width}×{preset.height}
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => onCreate(selected)}
+          className="w-full bg-[#1D1D1F] hover:bg-black text-white px-6 py-3 rounded-full font-medium shadow-lg hover:shadow-xl transition-all active:scale-[0.98] flex items-center justify-center gap-2"
+        >
+          <Plus size={20} />
+          Create {selected.label} Sketch
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,124 @@
 import React, { useRef, useState, useEffect, forwardRef, useImperativeHandle } from 'react';
-import { DrawObject, DrawingSettings, ToolType } from '../types';
+import { BlendMode, BrushPreset, DrawObject, DrawingSettings, LayerKind, Matrix, TextStyle, ToolType } from '../types';
+import { clientToCanvasPoint } from '../services/viewTransform';
+import { createStrokeBuilder, getBrushDynamics, getPointerPressure, StrokeBuilder, StrokeSample } from '../services/brushEngine';
+import { createStampState, paintStamps, StampState } from '../services/brushPresets';
+import { toCompositeOperation } from '../services/compositing';
+import { drawObject, drawObjects } from '../services/objectRendering';
+import { createShape, getShapeCorners, getTail, isBubble, setBubbleTail } from '../services/shapes';
+import { createText, updateText } from '../services/text';
+import { createSeed } from '../services/random';
+import {
+  applyToPoint, Bounds, boundsIntersect, getObjectBoundingBox, getObjectMatrix, getObjectsBoundingBox, getRectBounds,
+  hitTestObject, IDENTITY, invert, multiply, Point, translation
+} from '../services/objectTransform';
+import {
+  AlignEdge, alignObjects, bringToFront, cloneObject, distributeObjects, DistributeAxis, groupObjects, moveObjectsInStack,
+  sendToBack, transformObject, ungroupObjects
+} from '../services/objectArrange';
+import { drawTransformBox, getDraggedMatrix, getFlippedMatrix, getHandleAt, HANDLE_SIZE } from '../services/transformHandles';
 import { v4 as uuidv4 } from 'uuid';
-import { Copy, Trash2 } from 'lucide-react';
+import {
+  AlignCenterHorizontal, AlignCenterVertical, AlignEndHorizontal, AlignEndVertical, AlignHorizontalDistributeCenter,
+  AlignStartHorizontal, AlignStartVertical, AlignVerticalDistributeCenter, ArrowDown, ArrowUp, BringToFront, Copy,
+  FlipHorizontal2, FlipVertical2, Group, ImageDown, SendToBack, Trash2, Ungroup
+} from 'lucide-react';
 
 interface ObjectCanvasProps {
   width: number;
   height: number;
   settings: DrawingSettings;
   objects: DrawObject[];
-  onObjectsChange: (objects: DrawObject[]) => void;
+  onObjectsChange: (objects: DrawObject[], gesture?: string) => void; // Changes of one drag or typing session share a `gesture`
   isPlaying: boolean;
+  locked: boolean; // Active layer is locked or hidden, objects can't be drawn or edited
+  opacity: number; // Active layer opacity, 0 when hidden
+  blendMode: BlendMode; // Active layer blend mode
+  layerKind: LayerKind; // Only vector layers take objects; on raster layers this just shows them
+  zIndex: number; // Stacked with the active layer, between the layers below and above it
+  viewRotation: number; // Stage rotation in degrees, needed to map pointer positions
+  brush: BrushPreset; // Preset new strokes are drawn with
+  customBrushes: BrushPreset[]; // To find the presets existing strokes were drawn with
+  onRasterize?: (ids: string[]) => void; // Paints the objects onto a raster layer; left out when there isn't one
 }
 
+// Scale or rotate drag on the selection handles. Worked out from the objects as they were when
+// the drag started, so rounding doesn't build up over many moves.
+interface TransformDrag {
+  handle: string; // 'nw', 'n', ... 'e', or 'rotate'
+  start: Point;
+  startObjects: DrawObject[];
+  frame: SelectionFrame;
+}
+
+// Box the selection handles sit on: a single object's own (turned) bounds, or for several
+// objects the upright box around all of them
+interface SelectionFrame {
+  bounds: Bounds;
+  matrix: Matrix;
+}
+
+// Rubber band drag on empty space. `additive` (Shift) adds to the selection instead of replacing it.
+interface Marquee {
+  start: Point;
+  end: Point;
+  additive: boolean;
+}
+
+// Shape being dragged out. Shift and Alt can change while dragging, so it's rebuilt from `start` each move.
+interface ShapeDraft {
+  start: Point;
+  shape: DrawObject;
+}
+
+// Text being typed into. The object is only added once it has some letters, and changes go
+// straight into it, so it's saved with the frame like any other edit.
+interface TextEdit {
+  id: string;
+  anchor: Point;
+  created: boolean; // The object exists; if it has gone (undo, another frame) editing stops
+}
+
+const HIT_TOLERANCE = 6; // Clicks this close to a stroke still select it
+
+const ALIGN_ACTIONS: { edge: AlignEdge; icon: typeof Copy; label: string }[] = [
+  { edge: 'left', icon: AlignStartVertical, label: 'Align Left' },
+  { edge: 'center', icon: AlignCenterVertical, label: 'Align Centers' },
+  { edge: 'right', icon: AlignEndVertical, label: 'Align Right' },
+  { edge: 'top', icon: AlignStartHorizontal, label: 'Align Top' },
+  { edge: 'middle', icon: AlignCenterHorizontal, label: 'Align Middles' },
+  { edge: 'bottom', icon: AlignEndHorizontal, label: 'Align Bottom' }
+];
+
+const DISTRIBUTE_ACTIONS: { axis: DistributeAxis; icon: typeof Copy; label: string }[] = [
+  { axis: 'horizontal', icon: AlignHorizontalDistributeCenter, label: 'Space Evenly Across' },
+  { axis: 'vertical', icon: AlignVerticalDistributeCenter, label: 'Space Evenly Down' }
+];
+
+interface ActionButtonProps {
+  icon: typeof Copy;
+  label: string;
+  onClick: () => void;
+  danger?: boolean;
+}
+
+const ActionButton: React.FC<ActionButtonProps> = ({ icon: Icon, label, onClick, danger }) => (
+  <button
+    onClick={onClick}
+    className={`p-2 rounded transition-colors ${danger ? 'hover:bg-red-50 text-red-500' : 'hover:bg-gray-100'}`}
+    title={label}
+  >
+    <Icon size={16} />
+  </button>
+);
+
 export interface ObjectCanvasHandle {
   copySelected: () => void;
   pasteObject: () => void;
   deleteSelected: () => void;
+  groupSelected: () => void;
+  ungroupSelected: () => void;
+  cancelInteraction: () => void; // Abort drawing/dragging (e.g. when a pinch gesture starts)
 }
 
 export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
@@ -24,48 +127,139 @@ export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
   settings,
   objects,
   onObjectsChange,
-  isPlaying
+  isPlaying,
+  locked,
+  opacity,
+  blendMode,
+  layerKind,
+  zIndex,
+  viewRotation,
+  brush,
+  customBrushes,
+  onRasterize
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPath, setCurrentPath] = useState<{ x: number; y: number; pressure?: number }[]>([]);
-  const [selectedObjectId, setSelectedObjectId] = useState<string | null>(null);
+  const strokeBuilderRef = useRef<StrokeBuilder | null>(null);
+  // Stroke being drawn is stamped here as it grows
+  const previewRef = useRef<{ canvas: HTMLCanvasElement; stamps: StampState; seed: number } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [isResizing, setIsResizing] = useState(false);
-  const [isRotating, setIsRotating] = useState(false);
+  const [isErasing, setIsErasing] = useState(false);
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
-  const [resizeHandle, setResizeHandle] = useState<string | null>(null);
-  const [clipboard, setClipboard] = useState<DrawObject | null>(null);
+  const gestureRef = useRef(''); // Id of the current pointer gesture, so a drag is one undo step
+  const [transformDrag, setTransformDrag] = useState<TransformDrag | null>(null);
+  const [clipboard, setClipboard] = useState<DrawObject[]>([]);
+  const [shapeDraft, setShapeDraft] = useState<ShapeDraft | null>(null);
+  const [tailDrag, setTailDrag] = useState<string | null>(null); // Id of the bubble whose tail is dragged
+  const [textEdit, setTextEdit] = useState<TextEdit | null>(null);
+  const lastTextSettingsRef = useRef({ style: settings.text, color: settings.color });
+
+  // Ids of objects that have gone (undo, another frame) simply don't match anything
+  const selectedObjects = objects.filter(obj => selectedIds.includes(obj.id));
+  const selectedBox = selectedObjects.length > 0 ? getObjectsBoundingBox(selectedObjects) : null;
+  const selectionFrame: SelectionFrame | null = selectedObjects.length === 1
+    ? { bounds: selectedObjects[0].bounds, matrix: getObjectMatrix(selectedObjects[0]) }
+    : selectedBox && { bounds: selectedBox, matrix: IDENTITY };
+  const selectedBubble = selectedObjects.length === 1 && selectedObjects[0].shape && isBubble(selectedObjects[0].shape.kind)
+    ? selectedObjects[0]
+    : null;
+  const editedText = textEdit ? objects.find(obj => obj.id === textEdit.id) : undefined;
+  const isEditingText = !!textEdit && (!!editedText || !textEdit.created);
+  // Where the letters go, even before there are any
+  const textEditBox: Bounds | null = !textEdit || !isEditingText ? null
+    : editedText ? getObjectBoundingBox(editedText)
+    : { x: textEdit.anchor.x - 2, y: textEdit.anchor.y, width: 4, height: settings.text.fontSize * 1.2 };
+
+  // Typing, or clearing the text out, which removes it
+  const changeEditedText = (text: string) => {
+    if (!textEdit) return;
+    if (editedText) {
+      onObjectsChange(text ? objects.map(obj => (obj.id === editedText.id ? updateText(obj, { text }) : obj))
+        : objects.filter(obj => obj.id !== editedText.id), textEdit.id);
+    } else if (text) {
+      onObjectsChange([...objects, createText(text, settings.text, settings.color, textEdit.anchor, textEdit.id)], textEdit.id);
+      setTextEdit({ ...textEdit, created: true });
+    }
+  };
+
+  // Text style and color changes apply to the text being edited, but only what was just changed,
+  // so opening a text doesn't restyle it to match the panel
+  useEffect(() => {
+    const last = lastTextSettingsRef.current;
+    lastTextSettingsRef.current = { style: settings.text, color: settings.color };
+    if (!editedText?.textStyle) return;
+    const changed = (Object.keys(settings.text) as (keyof TextStyle)[]).filter(key => settings.text[key] !== last.style[key]);
+    const colorChanged = settings.color !== last.color;
+    if (changed.length === 0 && !colorChanged) return;
+    const textStyle: TextStyle = { ...editedText.textStyle, ...Object.fromEntries(changed.map(key => [key, settings.text[key]])) };
+    const color = colorChanged ? settings.color : editedText.color;
+    onObjectsChange(objects.map(obj => (obj.id === editedText.id ? updateText(obj, { textStyle, color }) : obj)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [settings.text, settings.color]);
+
+  // Another tool, or the text going away, ends editing
+  useEffect(() => {
+    setTextEdit(null);
+  }, [settings.tool, layerKind]);
 
-  const selectedObject = objects.find(obj => obj.id === selectedObjectId);
+  useEffect(() => {
+    if (textEdit && !isEditingText) setTextEdit(null);
+  }, [textEdit, isEditingText]);
+
+  const copySelected = () => {
+    if (selectedObjects.length > 0) setClipboard(selectedObjects);
+  };
+
+  const deleteSelected = () => {
+    if (selectedObjects.length === 0) return;
+    onObjectsChange(objects.filter(obj => !selectedIds.includes(obj.id)));
+    setSelectedIds([]);
+  };
+
+  const groupSelected = () => {
+    const { objects: next, group } = groupObjects(objects, selectedIds);
+    if (!group) return;
+    onObjectsChange(next);
+    setSelectedIds([group.id]);
+  };
+
+  const ungroupSelected = () => {
+    const { objects: next, ids } = ungroupObjects(objects, selectedIds);
+    if (ids.length === 0) return;
+    onObjectsChange(next);
+    setSelectedIds(ids);
+  };
 
   // Expose methods to parent
   useImperativeHandle(ref, () => ({
-    copySelected: () => {
-      if (selectedObject) {
-        setClipboard({ ...selectedObject, id: uuidv4() });
-      }
-    },
+    copySelected,
     pasteObject: () => {
-      if (clipboard) {
-        const newObj = {
-          ...clipboard,
-          id: uuidv4(),
-          bounds: {
-            ...clipboard.bounds,
-            x: clipboard.bounds.x + 20,
-            y: clipboard.bounds.y + 20
-          }
-        };
-        onObjectsChange([...objects, newObj]);
-        setSelectedObjectId(newObj.id);
-      }
+      // Raster layers paste their own selection
+      if (clipboard.length === 0 || layerKind !== 'vector') return;
+      const pasted = clipboard.map(obj => transformObject(cloneObject(obj), translation(20, 20)));
+      onObjectsChange([...objects, ...pasted]);
+      setSelectedIds(pasted.map(obj => obj.id));
+      // Pasting again steps further along
+      setClipboard(pasted);
     },
-    deleteSelected: () => {
-      if (selectedObjectId) {
-        onObjectsChange(objects.filter(obj => obj.id !== selectedObjectId));
-        setSelectedObjectId(null);
-      }
+    deleteSelected,
+    groupSelected,
+    ungroupSelected,
+    cancelInteraction: () => {
+      setIsDrawing(false);
+      setCurrentPath([]);
+      strokeBuilderRef.current = null;
+      previewRef.current = null;
+      setIsDragging(false);
+      setIsErasing(false);
+      setTransformDrag(null);
+      setTailDrag(null);
+      setDragStart(null);
+      setMarquee(null);
+      setShapeDraft(null);
     }
   }));
 
@@ -94,110 +288,36 @@ export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
     };
   };
 
-  // Check if point is inside bounds
-  const isPointInBounds = (x: number, y: number, bounds: { x: number; y: number; width: number; height: number }) => {
-    return x >= bounds.x && x <= bounds.x + bounds.width &&
-           y >= bounds.y && y <= bounds.y + bounds.height;
+  // Check if a canvas point is inside the box the handles sit on
+  const isPointInFrame = (point: Point, frame: SelectionFrame) => {
+    const local = applyToPoint(invert(frame.matrix), point);
+    const { bounds } = frame;
+    return local.x >= bounds.x && local.x <= bounds.x + bounds.width &&
+           local.y >= bounds.y && local.y <= bounds.y + bounds.height;
   };
 
-  // Get resize handle at point
-  const getResizeHandle = (x: number, y: number, bounds: { x: number; y: number; width: number; height: number }) => {
-    const handleSize = 10;
-    const handles = {
-      'nw': { x: bounds.x, y: bounds.y },
-      'ne': { x: bounds.x + bounds.width, y: bounds.y },
-      'sw': { x: bounds.x, y: bounds.y + bounds.height },
-      'se': { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
-      'n': { x: bounds.x + bounds.width / 2, y: bounds.y },
-      's': { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height },
-      'w': { x: bounds.x, y: bounds.y + bounds.height / 2 },
-      'e': { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 }
-    };
-
-    for (const [handle, pos] of Object.entries(handles)) {
-      if (Math.abs(x - pos.x) < handleSize && Math.abs(y - pos.y) < handleSize) {
-        return handle;
-      }
-    }
-    return null;
+  const updateSelected = (update: (obj: DrawObject) => DrawObject, gesture?: string) => {
+    onObjectsChange(objects.map(obj => (selectedIds.includes(obj.id) ? update(obj) : obj)), gesture);
   };
 
-  // Get coordinates from event
-  const getCoordinates = (e: React.PointerEvent, canvas: HTMLCanvasElement) => {
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-    return {
-      x: (e.clientX - rect.left) * scaleX,
-      y: (e.clientY - rect.top) * scaleY,
-    };
+  // Several objects flip together, around the middle of the box around them
+  const flipSelected = (horizontal: boolean) => {
+    if (!selectionFrame) return;
+    const { bounds, matrix } = selectionFrame;
+    const flip = multiply(getFlippedMatrix(bounds, matrix, horizontal), invert(matrix));
+    updateSelected(obj => transformObject(obj, flip));
   };
 
-  // Draw object on canvas
-  const drawObject = (ctx: CanvasRenderingContext2D, obj: DrawObject) => {
-    if (obj.paths.length === 0) return;
-
-    ctx.save();
-
-    // Apply rotation if needed
-    if (obj.rotation !== 0) {
-      const centerX = obj.bounds.x + obj.bounds.width / 2;
-      const centerY = obj.bounds.y + obj.bounds.height / 2;
-      ctx.translate(centerX, centerY);
-      ctx.rotate(obj.rotation);
-      ctx.translate(-centerX, -centerY);
-    }
-
-    ctx.strokeStyle = obj.color;
-    ctx.fillStyle = obj.color;
-    ctx.lineWidth = obj.brushSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.globalAlpha = obj.tool === ToolType.MARKER ? 0.5 : 1.0;
-
-    ctx.beginPath();
-    ctx.moveTo(obj.paths[0].x, obj.paths[0].y);
-
-    for (let i = 1; i < obj.paths.length; i++) {
-      ctx.lineTo(obj.paths[i].x, obj.paths[i].y);
-    }
-
-    ctx.stroke();
-    ctx.restore();
+  // The eraser takes out whole objects it touches
+  const eraseAt = (point: Point) => {
+    const tolerance = settings.brushSize / 2;
+    const remaining = objects.filter(obj => !hitTestObject(obj, point, tolerance));
+    if (remaining.length !== objects.length) onObjectsChange(remaining, gestureRef.current);
   };
 
-  // Draw selection box and handles
-  const drawSelection = (ctx: CanvasRenderingContext2D, bounds: { x: number; y: number; width: number; height: number }) => {
-    ctx.save();
-    ctx.strokeStyle = '#007AFF';
-    ctx.lineWidth = 2;
-    ctx.setLineDash([5, 5]);
-    ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
-    ctx.setLineDash([]);
-
-    // Draw handles
-    const handleSize = 8;
-    ctx.fillStyle = '#FFFFFF';
-    ctx.strokeStyle = '#007AFF';
-    ctx.lineWidth = 2;
-
-    const handles = [
-      { x: bounds.x, y: bounds.y }, // nw
-      { x: bounds.x + bounds.width, y: bounds.y }, // ne
-      { x: bounds.x, y: bounds.y + bounds.height }, // sw
-      { x: bounds.x + bounds.width, y: bounds.y + bounds.height }, // se
-      { x: bounds.x + bounds.width / 2, y: bounds.y }, // n
-      { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height }, // s
-      { x: bounds.x, y: bounds.y + bounds.height / 2 }, // w
-      { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 } // e
-    ];
-
-    handles.forEach(handle => {
-      ctx.fillRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
-      ctx.strokeRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
-    });
-
-    ctx.restore();
+  // Get coordinates from event
+  const getCoordinates = (e: React.MouseEvent, canvas: HTMLCanvasElement) => {
+    return clientToCanvasPoint(e.clientX, e.clientY, canvas, canvas.width, canvas.height, viewRotation);
   };
 
   // Redraw canvas
@@ -210,71 +330,166 @@ export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
     ctx.clearRect(0, 0, width, height);
 
     // Draw all objects
-    objects.forEach(obj => drawObject(ctx, obj));
+    drawObjects(ctx, objects, customBrushes);
 
     // Draw current path
-    if (currentPath.length > 0 && isDrawing) {
-      ctx.strokeStyle = settings.color;
-      ctx.lineWidth = settings.brushSize;
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
-      ctx.globalAlpha = settings.tool === ToolType.MARKER ? 0.5 : 1.0;
-
-      ctx.beginPath();
-      ctx.moveTo(currentPath[0].x, currentPath[0].y);
-      currentPath.forEach(p => ctx.lineTo(p.x, p.y));
-      ctx.stroke();
+    if (previewRef.current && isDrawing) {
+      ctx.save();
+      ctx.globalAlpha = brush.opacity;
+      ctx.globalCompositeOperation = toCompositeOperation(brush.blendMode);
+      ctx.drawImage(previewRef.current.canvas, 0, 0);
+      ctx.restore();
     }
 
+    if (shapeDraft) drawObject(ctx, shapeDraft.shape, customBrushes);
+
     // Draw selection
-    if (selectedObject && settings.tool === ToolType.SELECT) {
-      drawSelection(ctx, selectedObject.bounds);
+    if (selectionFrame && settings.tool === ToolType.SELECT && layerKind === 'vector') {
+      if (selectedObjects.length > 1) {
+        // Outline each object inside the shared box
+        ctx.save();
+        ctx.strokeStyle = 'rgba(0, 122, 255, 0.5)';
+        ctx.lineWidth = 1;
+        selectedObjects.forEach(obj => {
+          const box = getObjectBoundingBox(obj);
+          ctx.strokeRect(box.x, box.y, box.width, box.height);
+        });
+        ctx.restore();
+      }
+      drawTransformBox(ctx, selectionFrame.bounds, selectionFrame.matrix);
+
+      if (selectedBubble) {
+        // Tail handle, dragged to point the bubble at someone else
+        const tip = applyToPoint(getObjectMatrix(selectedBubble), getTail(selectedBubble));
+        ctx.save();
+        ctx.fillStyle = '#FFCC00';
+        ctx.strokeStyle = '#007AFF';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(tip.x, tip.y, 6, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+        ctx.restore();
+      }
+    }
+
+    if (textEditBox) {
+      const { x: bx, y: by, width: bw, height: bh } = textEditBox;
+      ctx.save();
+      ctx.strokeStyle = '#007AFF';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.strokeRect(bx - 4, by - 4, bw + 8, bh + 8);
+      ctx.restore();
+    }
+
+    if (marquee) {
+      const box = getRectBounds(marquee.start, marquee.end);
+      ctx.save();
+      ctx.fillStyle = 'rgba(0, 122, 255, 0.08)';
+      ctx.strokeStyle = '#007AFF';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 4]);
+      ctx.fillRect(box.x, box.y, box.width, box.height);
+      ctx.strokeRect(box.x, box.y, box.width, box.height);
+      ctx.restore();
+    }
+  }, [objects, currentPath, selectedIds, marquee, shapeDraft, textEdit, settings, width, height, isDrawing, layerKind, customBrushes]);
+
+  const addToPreview = (samples: StrokeSample[]) => {
+    const preview = previewRef.current;
+    const ctx = preview?.canvas.getContext('2d');
+    if (preview && ctx) {
+      paintStamps(ctx, samples, {
+        brush,
+        dynamics: getBrushDynamics(settings, brush.tool),
+        color: settings.color,
+        size: settings.brushSize,
+        length: null
+      }, preview.stamps);
     }
-  }, [objects, currentPath, selectedObject, settings, width, height, isDrawing]);
+    return samples;
+  };
+
+  // Shift keeps it square (or a line at 45° steps), Alt grows it out from where the drag started
+  const buildShape = (start: Point, end: Point, e: React.PointerEvent) =>
+    createShape(settings.shape, settings.color, settings.brushSize, getShapeCorners(settings.shape.kind, start, end, e.shiftKey, e.altKey));
 
   const handlePointerDown = (e: React.PointerEvent) => {
-    if (isPlaying) return;
+    if (isPlaying || locked) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     canvas.setPointerCapture(e.pointerId);
     const { x, y } = getCoordinates(e, canvas);
+    gestureRef.current = uuidv4();
+    // Clicking anywhere else is done with the text being typed
+    setTextEdit(null);
 
     if (settings.tool === ToolType.SELECT) {
-      // Check if clicking on a resize handle
-      if (selectedObject) {
-        const handle = getResizeHandle(x, y, selectedObject.bounds);
+      const point = { x, y };
+      if (selectedBubble) {
+        const tip = applyToPoint(getObjectMatrix(selectedBubble), getTail(selectedBubble));
+        if (Math.hypot(point.x - tip.x, point.y - tip.y) < HANDLE_SIZE) {
+          setTailDrag(selectedBubble.id);
+          return;
+        }
+      }
+      if (selectionFrame) {
+        // Check if clicking on a scale or rotate handle
+        const handle = getHandleAt(point, selectionFrame.bounds, selectionFrame.matrix);
         if (handle) {
-          setIsResizing(true);
-          setResizeHandle(handle);
-          setDragStart({ x, y });
+          setTransformDrag({ handle, start: point, startObjects: selectedObjects, frame: selectionFrame });
           return;
         }
 
-        // Check if clicking inside selected object
-        if (isPointInBounds(x, y, selectedObject.bounds)) {
+        // The selection can be dragged anywhere inside its box
+        if (!e.shiftKey && isPointInFrame(point, selectionFrame)) {
           setIsDragging(true);
-          setDragStart({ x, y });
+          setDragStart(point);
           return;
         }
       }
 
-      // Check if clicking on any object
-      for (let i = objects.length - 1; i >= 0; i--) {
-        if (isPointInBounds(x, y, objects[i].bounds)) {
-          setSelectedObjectId(objects[i].id);
-          setIsDragging(true);
-          setDragStart({ x, y });
-          return;
-        }
+      // Others are picked by the stroke itself, so a stroke's empty box doesn't hide what's under it
+      const hit = [...objects].reverse().find(obj => hitTestObject(obj, point, HIT_TOLERANCE));
+      if (hit && e.shiftKey) {
+        // Shift-click adds or removes one object
+        setSelectedIds(ids => (ids.includes(hit.id) ? ids.filter(id => id !== hit.id) : [...ids, hit.id]));
+        return;
+      }
+      if (hit) {
+        if (!selectedIds.includes(hit.id)) setSelectedIds([hit.id]);
+        setIsDragging(true);
+        setDragStart(point);
+        return;
       }
 
-      // Deselect if clicking on empty space
-      setSelectedObjectId(null);
-    } else if (settings.tool !== ToolType.FILL && settings.tool !== ToolType.PICKER && settings.tool !== ToolType.ERASER) {
-      // Start drawing a new object
+      // Empty space: rubber band, which replaces the selection unless Shift is held
+      if (!e.shiftKey) setSelectedIds([]);
+      setMarquee({ start: point, end: point, additive: e.shiftKey });
+    } else if (settings.tool === ToolType.ERASER) {
+      setIsErasing(true);
+      eraseAt({ x, y });
+    } else if (settings.tool === ToolType.SHAPE) {
+      const start = { x, y };
+      setShapeDraft({ start, shape: buildShape(start, start, e) });
+    } else if (settings.tool === ToolType.TEXT) {
+      // Keeps the mouse events that follow from taking focus off the typing box
+      e.preventDefault();
+      // Clicking a text opens it again, anywhere else starts a new one
+      const hit = [...objects].reverse().find(obj => obj.type === 'text' && hitTestObject(obj, { x, y }, HIT_TOLERANCE));
+      setTextEdit(hit ? { id: hit.id, anchor: hit.paths[0], created: true } : { id: uuidv4(), anchor: { x, y }, created: false });
+    } else {
+      // Start drawing a new object. Points are kept a few pixels apart to keep saved strokes small.
+      strokeBuilderRef.current = createStrokeBuilder(getBrushDynamics(settings, brush.tool), 3);
+      const preview = document.createElement('canvas');
+      preview.width = width;
+      preview.height = height;
+      const seed = createSeed();
+      previewRef.current = { canvas: preview, stamps: createStampState(seed), seed };
       setIsDrawing(true);
-      setCurrentPath([{ x, y, pressure: e.pressure || 0.5 }]);
+      setCurrentPath(addToPreview(strokeBuilderRef.current.add({ x, y, pressure: getPointerPressure(e) })));
     }
   };
 
@@ -285,65 +500,36 @@ export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
 
     const { x, y } = getCoordinates(e, canvas);
 
-    if (isDrawing && currentPath.length > 0) {
-      setCurrentPath(prev => [...prev, { x, y, pressure: e.pressure || 0.5 }]);
-    } else if (isDragging && dragStart && selectedObject) {
-      const dx = x - dragStart.x;
-      const dy = y - dragStart.y;
-
-      const updatedObjects = objects.map(obj => {
-        if (obj.id === selectedObjectId) {
-          return {
-            ...obj,
-            bounds: {
-              ...obj.bounds,
-              x: obj.bounds.x + dx,
-              y: obj.bounds.y + dy
-            },
-            paths: obj.paths.map(p => ({ ...p, x: p.x + dx, y: p.y + dy }))
-          };
-        }
-        return obj;
-      });
-
-      onObjectsChange(updatedObjects);
-      setDragStart({ x, y });
-    } else if (isResizing && dragStart && selectedObject && resizeHandle) {
-      const dx = x - dragStart.x;
-      const dy = y - dragStart.y;
-
-      let newBounds = { ...selectedObject.bounds };
-      const scaleX = (newBounds.width + dx) / newBounds.width;
-      const scaleY = (newBounds.height + dy) / newBounds.height;
-
-      // Simple resize for now - proportional scaling
-      if (resizeHandle.includes('e')) {
-        newBounds.width += dx;
-      }
-      if (resizeHandle.includes('w')) {
-        newBounds.x += dx;
-        newBounds.width -= dx;
-      }
-      if (resizeHandle.includes('s')) {
-        newBounds.height += dy;
-      }
-      if (resizeHandle.includes('n')) {
-        newBounds.y += dy;
-        newBounds.height -= dy;
-      }
-
-      const updatedObjects = objects.map(obj => {
-        if (obj.id === selectedObjectId) {
-          return {
-            ...obj,
-            bounds: newBounds
-          };
-        }
-        return obj;
-      });
-
-      onObjectsChange(updatedObjects);
+    if (isErasing) {
+      eraseAt({ x, y });
+    } else if (shapeDraft) {
+      setShapeDraft({ ...shapeDraft, shape: buildShape(shapeDraft.start, { x, y }, e) });
+    } else if (tailDrag) {
+      onObjectsChange(objects.map(obj => (obj.id === tailDrag
+        ? setBubbleTail(obj, applyToPoint(invert(getObjectMatrix(obj)), { x, y }))
+        : obj)), gestureRef.current);
+    } else if (isDrawing && strokeBuilderRef.current) {
+      const added = addToPreview(strokeBuilderRef.current.add({ x, y, pressure: getPointerPressure(e) }));
+      if (added.length > 0) setCurrentPath(prev => [...prev, ...added]);
+    } else if (marquee) {
+      setMarquee({ ...marquee, end: { x, y } });
+    } else if (isDragging && dragStart) {
+      const move = translation(x - dragStart.x, y - dragStart.y);
+      updateSelected(obj => transformObject(obj, move), gestureRef.current);
       setDragStart({ x, y });
+    } else if (transformDrag) {
+      // Shift keeps proportions when scaling and snaps the angle when rotating. The change to
+      // the handles' box is applied to every selected object as it was when the drag started.
+      const { handle, start, startObjects, frame } = transformDrag;
+      const change = multiply(
+        getDraggedMatrix(handle, start, { x, y }, frame.bounds, frame.matrix, e.shiftKey),
+        invert(frame.matrix)
+      );
+      const startById = new Map<string, DrawObject>(startObjects.map(obj => [obj.id, obj]));
+      onObjectsChange(objects.map(obj => {
+        const startObject = startById.get(obj.id);
+        return startObject ? transformObject(startObject, change) : obj;
+      }), gestureRef.current);
     }
   };
 
@@ -353,29 +539,68 @@ export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
       canvas.releasePointerCapture(e.pointerId);
     }
 
-    if (isDrawing && currentPath.length > 1) {
-      const newObject: DrawObject = {
-        id: uuidv4(),
-        type: 'stroke',
-        paths: currentPath,
-        color: settings.color,
-        brushSize: settings.brushSize,
-        tool: settings.tool,
-        bounds: calculateBounds(currentPath, settings.brushSize),
-        rotation: 0
-      };
-
-      onObjectsChange([...objects, newObject]);
+    const builder = strokeBuilderRef.current;
+    const seed = previewRef.current?.seed ?? createSeed();
+    strokeBuilderRef.current = null;
+    previewRef.current = null;
+    if (isDrawing && builder) {
+      builder.finish();
+      const paths = builder.getSamples().map(({ x, y, pressure }) => ({ x, y, pressure }));
+      if (paths.length > 1) {
+        const dynamics = getBrushDynamics(settings, brush.tool);
+        const newObject: DrawObject = {
+          id: uuidv4(),
+          type: 'stroke',
+          paths,
+          color: settings.color,
+          brushSize: settings.brushSize,
+          tool: settings.tool,
+          // Room for the widest the pressure curve can make it
+          bounds: calculateBounds(paths, settings.brushSize * Math.max(1, ...dynamics.sizeCurve.map(p => p.y))),
+          rotation: 0,
+          dynamics,
+          brushId: brush.id,
+          seed
+        };
+        onObjectsChange([...objects, newObject]);
+      }
       setCurrentPath([]);
     }
 
+    if (shapeDraft) {
+      // A click without a drag doesn't leave a dot behind
+      const [a, b] = shapeDraft.shape.paths;
+      if (Math.abs(b.x - a.x) > 2 || Math.abs(b.y - a.y) > 2) onObjectsChange([...objects, shapeDraft.shape]);
+      setShapeDraft(null);
+    }
+
+    if (marquee) {
+      const box = getRectBounds(marquee.start, marquee.end);
+      const touched = objects.filter(obj => boundsIntersect(getObjectBoundingBox(obj), box)).map(obj => obj.id);
+      // A click without dragging has already cleared the selection
+      if (box.width > 2 || box.height > 2) {
+        setSelectedIds(ids => (marquee.additive ? [...ids.filter(id => !touched.includes(id)), ...touched] : touched));
+      }
+      setMarquee(null);
+    }
+
     setIsDrawing(false);
     setIsDragging(false);
-    setIsResizing(false);
-    setResizeHandle(null);
+    setIsErasing(false);
+    setTransformDrag(null);
+    setTailDrag(null);
     setDragStart(null);
   };
 
+  // Double-clicking a text with the select tool types into it
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const canvas = canvasRef.current;
+    if (!canvas || isPlaying || locked || settings.tool !== ToolType.SELECT) return;
+    const point = getCoordinates(e, canvas);
+    const hit = [...objects].reverse().find(obj => obj.type === 'text' && hitTestObject(obj, point, HIT_TOLERANCE));
+    if (hit) setTextEdit({ id: hit.id, anchor: hit.paths[0], created: true });
+  };
+
   return (
     <>
       <canvas
@@ -386,48 +611,101 @@ export const ObjectCanvas = forwardRef<ObjectCanvasHandle, ObjectCanvasProps>(({
         onPointerMove={handlePointerMove}
         onPointerUp={handlePointerUp}
         onPointerLeave={handlePointerUp}
+        onDoubleClick={handleDoubleClick}
         className="absolute inset-0 touch-none w-full h-full"
         style={{
           touchAction: 'none',
-          cursor: settings.tool === ToolType.SELECT ? 'default' : 'crosshair',
-          zIndex: 10
+          cursor: locked ? 'not-allowed' : settings.tool === ToolType.SELECT ? 'default' : settings.tool === ToolType.ERASER ? 'cell' : settings.tool === ToolType.TEXT ? 'text' : 'crosshair',
+          zIndex,
+          opacity,
+          mixBlendMode: blendMode,
+          // Raster layers and pixel-only tools go straight through to the drawing canvas underneath
+          pointerEvents: layerKind !== 'vector' || settings.tool === ToolType.FILL || settings.tool === ToolType.PICKER ? 'none' : undefined
         }}
       />
 
-      {/* Action buttons for selected object */}
-      {selectedObject && settings.tool === ToolType.SELECT && (
+      {/* Typing box under the text being edited */}
+      {textEdit && textEditBox && (
         <div
-          className="absolute bg-white rounded-lg shadow-lg flex gap-2 p-2 z-20"
+          className="absolute glass-panel rounded-xl shadow-glass p-2 flex flex-col gap-2 z-20 w-60"
           style={{
-            left: `${selectedObject.bounds.x + selectedObject.bounds.width + 10}px`,
-            top: `${selectedObject.bounds.y}px`
+            left: `${(textEditBox.x / width) * 100}%`,
+            top: `calc(${((textEditBox.y + textEditBox.height) / height) * 100}% + 12px)`
           }}
         >
-          <button
-            onClick={() => {
-              if (selectedObject) {
-                setClipboard({ ...selectedObject, id: uuidv4() });
+          <textarea
+            key={textEdit.id}
+            autoFocus
+            rows={3}
+            value={editedText?.text || ''}
+            onChange={(e) => changeEditedText(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter makes new lines; Escape or Cmd/Ctrl + Enter finishes
+              if (e.key === 'Escape' || (e.key === 'Enter' && (e.metaKey || e.ctrlKey))) {
+                e.preventDefault();
+                setTextEdit(null);
               }
             }}
-            className="p-2 hover:bg-gray-100 rounded transition-colors"
-            title="Copy"
-          >
-            <Copy size={16} />
-          </button>
+            placeholder="Type here..."
+            className="w-full text-sm p-2 rounded-lg border border-gray-200 bg-white/80 focus:outline-none focus:ring-2 focus:ring-apple-blue/40 resize-none"
+          />
           <button
-            onClick={() => {
-              if (selectedObjectId) {
-                onObjectsChange(objects.filter(obj => obj.id !== selectedObjectId));
-                setSelectedObjectId(null);
-              }
-            }}
-            className="p-2 hover:bg-red-50 text-red-500 rounded transition-colors"
-            title="Delete"
+            type="button"
+            onClick={() => setTextEdit(null)}
+            className="self-end px-3 py-1 text-xs font-semibold rounded-full bg-apple-blue text-white hover:bg-apple-blue/90 transition-colors"
           >
-            <Trash2 size={16} />
+            Done
           </button>
         </div>
       )}
+
+      {/* Action buttons for the selection */}
+      {selectedBox && settings.tool === ToolType.SELECT && layerKind === 'vector' && !marquee && (
+        <div
+          className="absolute bg-white rounded-lg shadow-lg flex flex-col gap-1 p-2 z-20"
+          style={{
+            // Bounds are in canvas pixels; position in percent so it lines up at any stage scale
+            left: `calc(${((selectedBox.x + selectedBox.width) / width) * 100}% + 10px)`,
+            top: `${(selectedBox.y / height) * 100}%`
+          }}
+        >
+          <div className="flex gap-1">
+            <ActionButton icon={FlipHorizontal2} label="Flip Horizontal" onClick={() => flipSelected(true)} />
+            <ActionButton icon={FlipVertical2} label="Flip Vertical" onClick={() => flipSelected(false)} />
+            <ActionButton icon={Copy} label="Copy" onClick={copySelected} />
+            {onRasterize && <ActionButton icon={ImageDown} label="Paint onto Layer Below" onClick={() => onRasterize(selectedIds)} />}
+            {selectedObjects.length > 1 && <ActionButton icon={Group} label="Group" onClick={groupSelected} />}
+            {selectedObjects.some(obj => obj.type === 'group') && <ActionButton icon={Ungroup} label="Ungroup" onClick={ungroupSelected} />}
+            <ActionButton icon={Trash2} label="Delete" onClick={deleteSelected} danger />
+          </div>
+          <div className="flex gap-1 border-t border-gray-100 pt-1">
+            <ActionButton icon={BringToFront} label="Bring to Front" onClick={() => onObjectsChange(bringToFront(objects, selectedIds))} />
+            <ActionButton icon={ArrowUp} label="Bring Forward" onClick={() => onObjectsChange(moveObjectsInStack(objects, selectedIds, 1))} />
+            <ActionButton icon={ArrowDown} label="Send Backward" onClick={() => onObjectsChange(moveObjectsInStack(objects, selectedIds, -1))} />
+            <ActionButton icon={SendToBack} label="Send to Back" onClick={() => onObjectsChange(sendToBack(objects, selectedIds))} />
+          </div>
+          {selectedObjects.length > 1 && (
+            <div className="flex gap-1 border-t border-gray-100 pt-1">
+              {ALIGN_ACTIONS.map(action => (
+                <ActionButton
+                  key={action.edge}
+                  icon={action.icon}
+                  label={action.label}
+                  onClick={() => onObjectsChange(alignObjects(objects, selectedIds, action.edge))}
+                />
+              ))}
+              {selectedObjects.length > 2 && DISTRIBUTE_ACTIONS.map(action => (
+                <ActionButton
+                  key={action.axis}
+                  icon={action.icon}
+                  label={action.label}
+                  onClick={() => onObjectsChange(distributeObjects(objects, selectedIds, action.axis))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </>
   );
 });
@@ -0,0 +1,55 @@
+import React, { useEffect, useState } from 'react';
+import { ImageHandle } from '../types';
+import { OnionSkinFrame, getTintedFrame } from '../services/onionSkin';
+import { ImageCanvas } from './ImageCanvas';
+
+interface OnionSkinOverlayProps {
+  frames: OnionSkinFrame[];
+}
+
+export const OnionSkinOverlay: React.FC<OnionSkinOverlayProps> = ({ frames }) => {
+  // Tinted images by `${frameId}|${color}`, filled in as they finish rendering
+  const [tinted, setTinted] = useState<Record<string, ImageHandle>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    const visible = new Set(frames.map(({ frame, color }) => `${frame.id}|${color}`));
+    frames.forEach(({ frame, color }) => {
+      getTintedFrame(frame, color)
+        .then(image => {
+          if (cancelled) return;
+          const key = `${frame.id}|${color}`;
+          // Drop images of frames that scrolled out of range so they can be freed
+          setTinted(prev => {
+            const next: Record<string, ImageHandle> = {};
+            Object.keys(prev).forEach(k => {
+              if (visible.has(k)) next[k] = prev[k];
+            });
+            next[key] = image;
+            return next;
+          });
+        })
+        .catch(e => console.error("Onion skin tint failed", e));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [frames]);
+
+  return (
+    <>
+      {frames.map(({ frame, color, opacity }) => {
+        const image = tinted[`${frame.id}|${color}`];
+        if (!image) return null;
+        return (
+          <ImageCanvas
+            key={`${frame.id}|${color}`}
+            image={image}
+            className="absolute inset-0 pointer-events-none select-none w-full h-full object-contain z-[5]"
+            style={{ opacity }}
+          />
+        );
+      })}
+    </>
+  );
+};
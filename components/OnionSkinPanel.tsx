@@ -0,0 +1,119 @@
+import React from 'react';
+import { Layers, Minus, Plus } from 'lucide-react';
+import { OnionSkinSettings } from '../types';
+import { MAX_ONION_SKIN_FRAMES } from '../services/onionSkin';
+
+interface OnionSkinPanelProps {
+  settings: OnionSkinSettings;
+  onChange: (settings: Partial<OnionSkinSettings>) => void;
+  onClose: () => void;
+}
+
+const FrameCounter: React.FC<{ label: string; color: string; value: number; onChange: (value: number) => void; onColorChange: (color: string) => void }> = ({
+  label,
+  color,
+  value,
+  onChange,
+  onColorChange
+}) => (
+  <div className="flex items-center gap-2">
+    <label className="relative w-6 h-6 rounded-full border-2 border-white shadow-sm cursor-pointer overflow-hidden flex-shrink-0" style={{ backgroundColor: color }} title={`${label} Color`}>
+      <input type="color" value={color} onChange={(e) => onColorChange(e.target.value.toUpperCase())} className="absolute inset-0 opacity-0 cursor-pointer" />
+    </label>
+    <span className="text-xs font-medium text-gray-700 flex-grow">{label}</span>
+    <div className="flex items-center gap-1 bg-gray-100/70 rounded-full p-0.5">
+      <button
+        onClick={() => onChange(Math.max(0, value - 1))}
+        disabled={value <= 0}
+        className="w-6 h-6 rounded-full flex items-center justify-center text-gray-500 hover:bg-white disabled:opacity-30"
+      >
+        <Minus size={12} />
+      </button>
+      <span className="text-xs font-semibold text-gray-700 w-4 text-center tabular-nums">{value}</span>
+      <button
+        onClick={() => onChange(Math.min(MAX_ONION_SKIN_FRAMES, value + 1))}
+        disabled={value >= MAX_ONION_SKIN_FRAMES}
+        className="w-6 h-6 rounded-full flex items-center justify-center text-gray-500 hover:bg-white disabled:opacity-30"
+      >
+        <Plus size={12} />
+      </button>
+    </div>
+  </div>
+);
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, onChange }) => (
+  <button onClick={() => onChange(!checked)} className="flex items-center justify-between w-full py-1">
+    <span className="text-xs font-medium text-gray-700">{label}</span>
+    <span className={`w-8 h-5 rounded-full p-0.5 transition-colors ${checked ? 'bg-apple-blue' : 'bg-gray-200'}`}>
+      <span className={`block w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${checked ? 'translate-x-3' : ''}`} />
+    </span>
+  </button>
+);
+
+export const OnionSkinPanel: React.FC<OnionSkinPanelProps> = ({ settings, onChange, onClose }) => {
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-64 bg-white/95">
+      <div className="flex items-center justify-between mb-3 border-b border-gray-100 pb-2">
+        <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm">
+          <Layers size={16} />
+          <span>Onion Skin</span>
+        </div>
+        <button onClick={onClose} className="text-xs text-apple-blue font-medium hover:underline">
+          Done
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-2 mb-3">
+        <FrameCounter
+          label="Frames Before"
+          color={settings.pastColor}
+          value={settings.before}
+          onChange={(before) => onChange({ before })}
+          onColorChange={(pastColor) => onChange({ pastColor })}
+        />
+        <FrameCounter
+          label="Frames After"
+          color={settings.futureColor}
+          value={settings.after}
+          onChange={(after) => onChange({ after })}
+          onColorChange={(futureColor) => onChange({ futureColor })}
+        />
+      </div>
+
+      <div className="mb-2">
+        <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+          <span>Opacity</span>
+          <span>{Math.round(settings.opacity * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min="5"
+          max="100"
+          value={Math.round(settings.opacity * 100)}
+          onChange={(e) => onChange({ opacity: parseInt(e.target.value) / 100 })}
+          className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+        />
+      </div>
+
+      <div className="mb-3">
+        <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+          <span>Fade Per Frame</span>
+          <span>{Math.round((1 - settings.falloff) * 100)}%</span>
+        </div>
+        <input
+          type="range"
+          min="0"
+          max="90"
+          value={Math.round((1 - settings.falloff) * 100)}
+          onChange={(e) => onChange({ falloff: 1 - parseInt(e.target.value) / 100 })}
+          className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+        />
+      </div>
+
+      <div className="border-t border-gray-100 pt-2">
+        <Toggle label="Keyframes Only" checked={settings.keyframesOnly} onChange={(keyframesOnly) => onChange({ keyframesOnly })} />
+        <Toggle label="Loop Around" checked={settings.loop} onChange={(loop) => onChange({ loop })} />
+      </div>
+    </div>
+  );
+};
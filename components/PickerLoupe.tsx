@@ -0,0 +1,60 @@
+
+import React, { useEffect, useRef } from 'react';
+import { createPortal } from 'react-dom';
+
+interface PickerLoupeProps {
+  source: HTMLCanvasElement | null; // What's on the stage, flattened on paper. Null while it's rendering
+  x: number; // Point being sampled, in canvas pixels
+  y: number;
+  clientX: number; // Pointer position on screen
+  clientY: number;
+  radius: number;
+  color: string | null; // Color that would be picked
+  opacity?: number;
+}
+
+const VIEW_PIXELS = 15; // Canvas pixels across the loupe
+const ZOOM = 8;
+const SIZE = VIEW_PIXELS * ZOOM;
+
+export const PickerLoupe: React.FC<PickerLoupeProps> = ({ source, x, y, clientX, clientY, radius, color, opacity }) => {
+  const viewRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = viewRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, SIZE, SIZE);
+    if (!source) return;
+
+    // Hard pixels so the exact sample point is visible
+    ctx.imageSmoothingEnabled = false;
+    const half = Math.floor(VIEW_PIXELS / 2);
+    ctx.drawImage(source, x - half, y - half, VIEW_PIXELS, VIEW_PIXELS, 0, 0, SIZE, SIZE);
+
+    // Outline of the averaged area
+    const size = (radius * 2 + 1) * ZOOM;
+    const offset = half * ZOOM - radius * ZOOM;
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.strokeRect(offset, offset, size, size);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.strokeRect(offset - 2, offset - 2, size + 4, size + 4);
+  }, [source, x, y, radius]);
+
+  // Fixed to the screen, so it lives outside the zoomed/rotated stage.
+  // Sits above and to the left of the pointer so a finger doesn't cover it.
+  return createPortal(
+    <div
+      className="fixed z-[100] pointer-events-none flex flex-col items-center gap-1 animate-in fade-in duration-100"
+      style={{ left: clientX - SIZE / 2, top: clientY - SIZE - 56 }}
+    >
+      <div className="rounded-full overflow-hidden border-4 shadow-paper bg-white" style={{ borderColor: color || '#FFFFFF' }}>
+        <canvas ref={viewRef} width={SIZE} height={SIZE} className="block" />
+      </div>
+      <div className="glass-panel rounded-full px-2 py-0.5 text-[10px] font-mono font-semibold text-gray-700 shadow-sm">
+        {color || '…'}{opacity !== undefined && ` • ${Math.round(opacity * 100)}%`}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,49 @@
+
+import React from 'react';
+import { Pipette } from 'lucide-react';
+import { PickerSettings } from '../types';
+import { PICKER_RADII } from '../services/colorSampling';
+
+interface PickerOptionsPanelProps {
+  settings: PickerSettings;
+  onChange: (changes: Partial<PickerSettings>) => void;
+}
+
+export const PickerOptionsPanel: React.FC<PickerOptionsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-60 animate-in fade-in duration-200">
+      <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm mb-3 border-b border-gray-100 pb-2">
+        <Pipette size={16} />
+        <span>Eyedropper</span>
+      </div>
+
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Sample Size</div>
+      <div className="flex gap-1 bg-gray-100/70 rounded-full p-0.5 mb-3">
+        {PICKER_RADII.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ radius: option.value })}
+            className={`flex-1 py-1 text-[10px] font-semibold rounded-full transition-colors ${
+              settings.radius === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => onChange({ sampleOpacity: !settings.sampleOpacity })}
+        className="w-full flex items-center justify-between text-xs font-medium text-gray-700 py-1"
+        title="Also set the brush opacity from see-through paint"
+      >
+        <span>Pick Opacity</span>
+        <span className={`w-8 h-5 rounded-full p-0.5 transition-colors ${settings.sampleOpacity ? 'bg-apple-blue' : 'bg-gray-200'}`}>
+          <span className={`block w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${settings.sampleOpacity ? 'translate-x-3' : ''}`} />
+        </span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+
+import React, { useRef, useState } from 'react';
+import { CurvePoint } from '../types';
+
+interface PressureCurveEditorProps {
+  curve: CurvePoint[]; // Sorted by x; the first and last points stay pinned to x = 0 and x = 1
+  maxY: number; // Top of the graph
+  onChange: (curve: CurvePoint[]) => void;
+}
+
+const SIZE = 160;
+const POINT_RADIUS = 6;
+const MAX_POINTS = 8;
+
+// Tap the graph to add a point, drag points to shape the curve, double-tap a middle point to remove it
+export const PressureCurveEditor: React.FC<PressureCurveEditorProps> = ({ curve, maxY, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const toScreen = (p: CurvePoint) => ({ x: p.x * SIZE, y: SIZE - (p.y / maxY) * SIZE });
+
+  const toCurve = (e: React.PointerEvent): CurvePoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const x = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const y = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height)) * maxY;
+    return { x: Math.round(x * 100) / 100, y: Math.round(y * 100) / 100 };
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent) => {
+    if (curve.length >= MAX_POINTS) return;
+    const point = toCurve(e);
+    if (point.x <= 0 || point.x >= 1) return;
+    const next = [...curve, point].sort((a, b) => a.x - b.x);
+    onChange(next);
+    setDragIndex(next.indexOf(point));
+    svgRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handleMove = (e: React.PointerEvent) => {
+    if (dragIndex === null) return;
+    const point = toCurve(e);
+    const isEnd = dragIndex === 0 || dragIndex === curve.length - 1;
+    // Points can't pass their neighbours, and the ends only move up and down
+    const minX = isEnd ? curve[dragIndex].x : curve[dragIndex - 1].x + 0.01;
+    const maxX = isEnd ? curve[dragIndex].x : curve[dragIndex + 1].x - 0.01;
+    const next = curve.slice();
+    next[dragIndex] = { x: Math.max(minX, Math.min(maxX, point.x)), y: point.y };
+    onChange(next);
+  };
+
+  const removePoint = (index: number) => {
+    if (index === 0 || index === curve.length - 1) return;
+    onChange(curve.filter((_, i) => i !== index));
+  };
+
+  const line = curve.map(p => {
+    const { x, y } = toScreen(p);
+    return `${x},${y}`;
+  }).join(' ');
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`${-POINT_RADIUS} ${-POINT_RADIUS} ${SIZE + POINT_RADIUS * 2} ${SIZE + POINT_RADIUS * 2}`}
+      className="w-full aspect-square touch-none select-none"
+      onPointerDown={handleBackgroundDown}
+      onPointerMove={handleMove}
+      onPointerUp={() => setDragIndex(null)}
+      onPointerLeave={() => setDragIndex(null)}
+    >
+      <rect x={0} y={0} width={SIZE} height={SIZE} rx={8} className="fill-gray-100/70" />
+      {[0.25, 0.5, 0.75].map(t => (
+        <g key={t} className="stroke-gray-200" strokeWidth={1}>
+          <line x1={t * SIZE} y1={0} x2={t * SIZE} y2={SIZE} />
+          <line x1={0} y1={t * SIZE} x2={SIZE} y2={t * SIZE} />
+        </g>
+      ))}
+      {/* Where an unchanged size or full opacity sits */}
+      {maxY > 1 && (
+        <line x1={0} y1={SIZE - SIZE / maxY} x2={SIZE} y2={SIZE - SIZE / maxY} className="stroke-gray-300" strokeDasharray="4 4" />
+      )}
+      <polyline points={line} fill="none" className="stroke-apple-blue" strokeWidth={2.5} strokeLinejoin="round" />
+      {curve.map((p, i) => {
+        const { x, y } = toScreen(p);
+        return (
+          <circle
+            key={i}
+            cx={x}
+            cy={y}
+            r={POINT_RADIUS}
+            className={`fill-white stroke-apple-blue cursor-grab ${dragIndex === i ? 'fill-apple-blue' : ''}`}
+            strokeWidth={2}
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              setDragIndex(i);
+              svgRef.current?.setPointerCapture(e.pointerId);
+            }}
+            onDoubleClick={() => removePoint(i)}
+          />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Lasso, SquareDashed } from 'lucide-react';
+import { SelectionSettings } from '../types';
+import { SELECTION_SHAPES } from '../services/pixelSelection';
+
+interface SelectionOptionsPanelProps {
+  settings: SelectionSettings;
+  onChange: (changes: Partial<SelectionSettings>) => void;
+}
+
+const SHAPE_ICONS = {
+  rect: SquareDashed,
+  lasso: Lasso
+};
+
+export const SelectionOptionsPanel: React.FC<SelectionOptionsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-60 animate-in fade-in duration-200">
+      <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm mb-3 border-b border-gray-100 pb-2">
+        <SquareDashed size={16} />
+        <span>Select</span>
+      </div>
+
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Shape</div>
+      <div className="flex gap-1 bg-gray-100/70 rounded-full p-0.5 mb-3">
+        {SELECTION_SHAPES.map(option => {
+          const Icon = SHAPE_ICONS[option.value];
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange({ shape: option.value })}
+              className={`flex-1 py-1 text-[10px] font-semibold rounded-full transition-colors flex items-center justify-center gap-1 ${
+                settings.shape === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              <Icon size={12} /> {option.label}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-[11px] text-gray-500 leading-snug">
+        On paint layers, draw around pixels to lift them, then drag, scale or rotate. Click outside or press Enter to put them down. On vector layers, click a shape or drag a box around several; Shift-click adds or removes one.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React from 'react';
+import { ArrowUpRight, Circle, Cloud, Hexagon, MessageCircle, Shapes, Slash, Square, Star } from 'lucide-react';
+import { ShapeKind, ShapeStyle } from '../types';
+import { hasCorners, isFillable, MAX_CORNER_RADIUS, MAX_SIDES, MIN_SIDES, SHAPE_KINDS } from '../services/shapes';
+
+interface ShapeOptionsPanelProps {
+  settings: ShapeStyle;
+  onChange: (changes: Partial<ShapeStyle>) => void;
+}
+
+const KIND_ICONS: Record<ShapeKind, typeof Square> = {
+  line: Slash,
+  arrow: ArrowUpRight,
+  rectangle: Square,
+  ellipse: Circle,
+  polygon: Hexagon,
+  star: Star,
+  speech: MessageCircle,
+  thought: Cloud
+};
+
+const FILL_COLORS = ['#FFFFFF', '#000000', '#FF3B30', '#FF9500', '#FFCC00', '#34C759', '#007AFF', '#AF52DE'];
+
+const SliderRow = ({ label, value, display, min, max, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="mb-3">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+    />
+  </div>
+);
+
+export const ShapeOptionsPanel: React.FC<ShapeOptionsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-60 animate-in fade-in duration-200">
+      <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm mb-3 border-b border-gray-100 pb-2">
+        <Shapes size={16} />
+        <span>Shapes</span>
+      </div>
+
+      <div className="grid grid-cols-4 gap-1 bg-gray-100/70 rounded-xl p-0.5 mb-3">
+        {SHAPE_KINDS.map(option => {
+          const Icon = KIND_ICONS[option.value];
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange({ kind: option.value })}
+              className={`py-1.5 rounded-lg transition-colors flex items-center justify-center ${
+                settings.kind === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+              title={option.label}
+            >
+              <Icon size={14} />
+            </button>
+          );
+        })}
+      </div>
+
+      {isFillable(settings.kind) && (
+        <>
+          <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Fill</div>
+          <div className="flex flex-wrap gap-1.5 mb-3">
+            <button
+              type="button"
+              onClick={() => onChange({ fill: null })}
+              className={`w-5 h-5 rounded-full border border-black/10 bg-white relative overflow-hidden transition-transform hover:scale-110 ${
+                settings.fill === null ? 'ring-2 ring-apple-blue' : ''
+              }`}
+              title="No Fill"
+            >
+              <span className="absolute left-1/2 top-0 w-px h-full bg-red-500 rotate-45" />
+            </button>
+            {FILL_COLORS.map(c => (
+              <button
+                key={c}
+                type="button"
+                onClick={() => onChange({ fill: c })}
+                className={`w-5 h-5 rounded-full border border-black/10 transition-transform hover:scale-110 ${
+                  settings.fill === c ? 'ring-2 ring-apple-blue' : ''
+                }`}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      {hasCorners(settings.kind) && (
+        <SliderRow
+          label="Corner Radius"
+          value={settings.cornerRadius}
+          display={settings.cornerRadius === 0 ? 'Sharp' : `${settings.cornerRadius}px`}
+          min={0}
+          max={MAX_CORNER_RADIUS}
+          onChange={(cornerRadius) => onChange({ cornerRadius })}
+        />
+      )}
+
+      {(settings.kind === 'polygon' || settings.kind === 'star') && (
+        <SliderRow
+          label={settings.kind === 'star' ? 'Points' : 'Sides'}
+          value={settings.sides}
+          display={`${settings.sides}`}
+          min={MIN_SIDES}
+          max={MAX_SIDES}
+          onChange={(sides) => onChange({ sides })}
+        />
+      )}
+
+      <p className="text-[11px] text-gray-500 leading-snug">
+        Drag on a vector layer. Hold Shift to keep it even, Alt to draw from the middle. The outline uses the current color and line width. Drag a bubble's yellow dot with the select tool to point its tail.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { ZoomIn, ZoomOut, RotateCcw, RotateCw, Maximize } from 'lucide-react';
+import { ViewTransform, DEFAULT_VIEW, toCssTransform, transformAroundPoint } from '../services/viewTransform';
+
+interface StageViewportProps {
+  view: ViewTransform;
+  onViewChange: (view: ViewTransform) => void;
+  onGestureStart?: () => void; // Lets drawing surfaces cancel a stroke a pinch started with
+  stageWidth: number;
+  stageHeight: number;
+  disabled?: boolean;
+  children: React.ReactNode;
+}
+
+interface TouchGesture {
+  startView: ViewTransform;
+  startDistance: number;
+  startAngle: number;
+  startMid: { x: number; y: number };
+}
+
+const ZOOM_STEP = 1.25;
+const ROTATE_STEP = 15;
+
+export const StageViewport: React.FC<StageViewportProps> = ({
+  view,
+  onViewChange,
+  onGestureStart,
+  stageWidth,
+  stageHeight,
+  disabled = false,
+  children
+}) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+
+  // Refs mirror props so native listeners always see the latest view
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  const panStart = useRef<{ pointerId: number; x: number; y: number; view: ViewTransform } | null>(null);
+  const touches = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<TouchGesture | null>(null);
+
+  // Position relative to the viewport center, the origin used by the view transform
+  const toViewportPoint = (clientX: number, clientY: number) => {
+    const rect = viewportRef.current!.getBoundingClientRect();
+    return { x: clientX - (rect.left + rect.width / 2), y: clientY - (rect.top + rect.height / 2) };
+  };
+
+  // --- Wheel zoom around the cursor (also covers trackpad pinch, which arrives as ctrl+wheel) ---
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || disabled) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const current = viewRef.current;
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.002));
+      onViewChange(transformAroundPoint(current, toViewportPoint(e.clientX, e.clientY), current.zoom * factor));
+    };
+
+    // Non-passive so the page doesn't scroll or zoom underneath
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [disabled, onViewChange]);
+
+  // --- Spacebar held = temporary hand tool ---
+  useEffect(() => {
+    if (disabled) return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' && !isTyping(e.target)) {
+        e.preventDefault();
+        setSpaceHeld(true);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setSpaceHeld(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      setSpaceHeld(false);
+    };
+  }, [disabled]);
+
+  const startTouchGesture = () => {
+    const [a, b] = [...touches.current.values()];
+    gesture.current = {
+      startView: viewRef.current,
+      startDistance: Math.max(1, Math.hypot(b.x - a.x, b.y - a.y)),
+      startAngle: Math.atan2(b.y - a.y, b.x - a.x),
+      startMid: toViewportPoint((a.x + b.x) / 2, (a.y + b.y) / 2)
+    };
+    onGestureStart?.();
+  };
+
+  const updateTouchGesture = () => {
+    const g = gesture.current;
+    if (!g) return;
+    const [a, b] = [...touches.current.values()];
+    const distance = Math.max(1, Math.hypot(b.x - a.x, b.y - a.y));
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+    const mid = toViewportPoint((a.x + b.x) / 2, (a.y + b.y) / 2);
+
+    // Pinch zoom + twist rotate around the starting midpoint, then follow the fingers (two-finger pan)
+    const transformed = transformAroundPoint(
+      g.startView,
+      g.startMid,
+      g.startView.zoom * (distance / g.startDistance),
+      g.startView.rotation + (angle - g.startAngle) * 180 / Math.PI
+    );
+    onViewChange({
+      ...transformed,
+      panX: transformed.panX + (mid.x - g.startMid.x),
+      panY: transformed.panY + (mid.y - g.startMid.y)
+    });
+  };
+
+  // Capture-phase handlers run before the drawing canvases see the event
+  const handlePointerDownCapture = (e: React.PointerEvent) => {
+    if (disabled) return;
+
+    if (e.pointerType === 'touch') {
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.current.size === 2) {
+        startTouchGesture();
+      }
+      if (touches.current.size >= 2) {
+        e.stopPropagation();
+        return;
+      }
+    }
+
+    // Space + drag or middle mouse button pans
+    if (spaceHeld || e.button === 1) {
+      e.stopPropagation();
+      e.preventDefault();
+      viewportRef.current?.setPointerCapture(e.pointerId);
+      panStart.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY, view: viewRef.current };
+      setIsPanning(true);
+    }
+  };
+
+  const handlePointerMoveCapture = (e: React.PointerEvent) => {
+    if (touches.current.has(e.pointerId)) {
+      touches.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (gesture.current && touches.current.size >= 2) {
+        e.stopPropagation();
+        updateTouchGesture();
+        return;
+      }
+    }
+
+    const pan = panStart.current;
+    if (pan && pan.pointerId === e.pointerId) {
+      e.stopPropagation();
+      onViewChange({
+        ...pan.view,
+        panX: pan.view.panX + (e.clientX - pan.x),
+        panY: pan.view.panY + (e.clientY - pan.y)
+      });
+    }
+  };
+
+  const handlePointerUpCapture = (e: React.PointerEvent) => {
+    touches.current.delete(e.pointerId);
+    if (gesture.current) {
+      // Swallow the rest of the gesture so lifting fingers doesn't draw
+      e.stopPropagation();
+      if (touches.current.size < 2) gesture.current = null;
+    }
+
+    if (panStart.current?.pointerId === e.pointerId) {
+      e.stopPropagation();
+      viewportRef.current?.releasePointerCapture(e.pointerId);
+      panStart.current = null;
+      setIsPanning(false);
+    }
+  };
+
+  const zoomBy = (factor: number) => onViewChange(transformAroundPoint(view, { x: 0, y: 0 }, view.zoom * factor));
+  const rotateBy = (degrees: number) => {
+    // Rotate around the viewport center so the visible part of the drawing stays put
+    onViewChange(transformAroundPoint(view, { x: 0, y: 0 }, view.zoom, view.rotation + degrees));
+  };
+
+  const isDefaultView = view.zoom === 1 && view.panX === 0 && view.panY === 0 && view.rotation === 0;
+
+  return (
+    <div
+      ref={viewportRef}
+      className="w-full h-full flex items-center justify-center relative overflow-hidden"
+      style={{ cursor: isPanning ? 'grabbing' : spaceHeld ? 'grab' : undefined, touchAction: 'none' }}
+      onPointerDownCapture={handlePointerDownCapture}
+      onPointerMoveCapture={handlePointerMoveCapture}
+      onPointerUpCapture={handlePointerUpCapture}
+      onPointerCancelCapture={handlePointerUpCapture}
+    >
+      {/* Stage */}
+      <div
+        className="relative flex-shrink-0"
+        style={{
+          width: stageWidth,
+          height: stageHeight,
+          transform: toCssTransform(view),
+          transformOrigin: 'center center',
+          // While the hand tool is active the drawing surfaces shouldn't react to the pointer
+          pointerEvents: spaceHeld || isPanning ? 'none' : undefined
+        }}
+      >
+        {children}
+      </div>
+
+      {/* View Controls */}
+      {!disabled && (
+        <div className="absolute bottom-3 right-3 z-20 flex items-center gap-1 bg-white/90 backdrop-blur-xl rounded-full shadow-paper border border-white/60 px-1.5 py-1">
+          <button onClick={() => zoomBy(1 / ZOOM_STEP)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100" title="Zoom Out">
+            <ZoomOut size={16} />
+          </button>
+          <span className="text-[10px] font-semibold text-gray-500 w-9 text-center tabular-nums">
+            {Math.round(view.zoom * 100)}%
+          </span>
+          <button onClick={() => zoomBy(ZOOM_STEP)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100" title="Zoom In">
+            <ZoomIn size={16} />
+          </button>
+          <div className="w-px h-4 bg-gray-200 mx-0.5" />
+          <button onClick={() => rotateBy(-ROTATE_STEP)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100" title="Rotate Left">
+            <RotateCcw size={16} />
+          </button>
+          <button onClick={() => rotateBy(ROTATE_STEP)} className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100" title="Rotate Right">
+            <RotateCw size={16} />
+          </button>
+          <button
+            onClick={() => onViewChange(DEFAULT_VIEW)}
+            disabled={isDefaultView}
+            className={`p-1.5 rounded-full transition-colors ${isDefaultView ? 'text-gray-300' : 'text-apple-blue hover:bg-apple-blue/10'}`}
+            title="Reset View"
+          >
+            <Maximize size={16} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import React from 'react';
+import { AlignCenter, AlignLeft, AlignRight, Type } from 'lucide-react';
+import { TextAlign, TextStyle } from '../types';
+import { MAX_FONT_SIZE, MAX_OUTLINE_WIDTH, MIN_FONT_SIZE, TEXT_ALIGNS, TEXT_FONTS } from '../services/text';
+
+interface TextOptionsPanelProps {
+  settings: TextStyle;
+  onChange: (changes: Partial<TextStyle>) => void;
+}
+
+const ALIGN_ICONS: Record<TextAlign, typeof Type> = {
+  left: AlignLeft,
+  center: AlignCenter,
+  right: AlignRight
+};
+
+const OUTLINE_COLORS = ['#FFFFFF', '#000000', '#FF3B30', '#FFCC00', '#007AFF'];
+
+const SliderRow = ({ label, value, display, min, max, onChange }: {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="mb-3">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      value={value}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
+    />
+  </div>
+);
+
+export const TextOptionsPanel: React.FC<TextOptionsPanelProps> = ({ settings, onChange }) => {
+  return (
+    <div className="glass-panel rounded-2xl p-4 shadow-glass w-60 animate-in fade-in duration-200">
+      <div className="flex items-center gap-2 text-gray-800 font-semibold text-sm mb-3 border-b border-gray-100 pb-2">
+        <Type size={16} />
+        <span>Text</span>
+      </div>
+
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Font</div>
+      <div className="flex flex-col gap-0.5 mb-3">
+        {TEXT_FONTS.map(font => (
+          <button
+            key={font.value}
+            type="button"
+            onClick={() => onChange({ fontFamily: font.value })}
+            className={`text-left px-2 py-1 text-sm rounded-lg transition-colors ${
+              settings.fontFamily === font.value ? 'bg-apple-blue/10 text-apple-blue' : 'text-gray-700 hover:bg-gray-100'
+            }`}
+            style={{ fontFamily: font.value }}
+          >
+            {font.label}
+          </button>
+        ))}
+      </div>
+
+      <SliderRow
+        label="Size"
+        value={settings.fontSize}
+        display={`${settings.fontSize}px`}
+        min={MIN_FONT_SIZE}
+        max={MAX_FONT_SIZE}
+        onChange={(fontSize) => onChange({ fontSize })}
+      />
+
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Align</div>
+      <div className="flex gap-1 bg-gray-100/70 rounded-full p-0.5 mb-3">
+        {TEXT_ALIGNS.map(option => {
+          const Icon = ALIGN_ICONS[option.value];
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onChange({ align: option.value })}
+              className={`flex-1 py-1 rounded-full transition-colors flex items-center justify-center ${
+                settings.align === option.value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+              title={option.label}
+            >
+              <Icon size={12} />
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="text-[10px] font-semibold uppercase tracking-wider text-gray-400 mb-1">Outline</div>
+      <div className="flex flex-wrap gap-1.5 mb-3">
+        <button
+          type="button"
+          onClick={() => onChange({ outline: null })}
+          className={`w-5 h-5 rounded-full border border-black/10 bg-white relative overflow-hidden transition-transform hover:scale-110 ${
+            settings.outline === null ? 'ring-2 ring-apple-blue' : ''
+          }`}
+          title="No Outline"
+        >
+          <span className="absolute left-1/2 top-0 w-px h-full bg-red-500 rotate-45" />
+        </button>
+        {OUTLINE_COLORS.map(c => (
+          <button
+            key={c}
+            type="button"
+            onClick={() => onChange({ outline: c })}
+            className={`w-5 h-5 rounded-full border border-black/10 transition-transform hover:scale-110 ${
+              settings.outline === c ? 'ring-2 ring-apple-blue' : ''
+            }`}
+            style={{ backgroundColor: c }}
+          />
+        ))}
+      </div>
+
+      {settings.outline && (
+        <SliderRow
+          label="Outline Width"
+          value={settings.outlineWidth}
+          display={`${settings.outlineWidth}px`}
+          min={1}
+          max={MAX_OUTLINE_WIDTH}
+          onChange={(outlineWidth) => onChange({ outlineWidth })}
+        />
+      )}
+
+      <p className="text-[11px] text-gray-500 leading-snug">
+        Click on a vector layer to start typing, or click a text to change it. The letters use the current color. With the select tool, double-click a text to edit it.
+      </p>
+    </div>
+  );
+};
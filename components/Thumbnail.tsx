@@ -0,0 +1,30 @@
+
+import React, { useEffect, useState } from 'react';
+import { ImageHandle } from '../types';
+import { getThumbnailUrl } from '../services/frameStore';
+
+interface ThumbnailProps {
+  image: ImageHandle;
+  alt: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Small version of a stored image, made once per image so lists never decode full frames
+export const Thumbnail: React.FC<ThumbnailProps> = ({ image, alt, className, style }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getThumbnailUrl(image)
+      .then(url => { if (!cancelled) setSrc(url); })
+      .catch(e => console.error("Failed to make thumbnail", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  // Keep showing the previous thumbnail until the new one is ready
+  if (!src) return <div className={className} style={style} />;
+  return <img src={src} alt={alt} draggable={false} className={className} style={style} />;
+};
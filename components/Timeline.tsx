@@ -1,7 +1,11 @@
 
-import React, { useRef } from 'react';
-import { Play, Pause, Plus, Copy, Trash2, Layers, Settings2, Music, X, Projector } from 'lucide-react';
-import { Frame } from '../types';
+import React, { useRef, useState } from 'react';
+import { Play, Pause, Plus, Copy, Trash2, Layers, Settings2, Music, X, Projector, Download, ClipboardCopy, ClipboardPaste, ChevronLeft, ChevronRight, ArrowLeftRight, SlidersHorizontal, Key } from 'lucide-react';
+import { Frame, OnionSkinSettings } from '../types';
+import { getFrameDuration, getTotalExposures } from '../services/frameTiming';
+import { createRandom } from '../services/random';
+import { OnionSkinPanel } from './OnionSkinPanel';
+import { Thumbnail } from './Thumbnail';
 
 interface TimelineProps {
   frames: Frame[];
@@ -9,38 +13,133 @@ interface TimelineProps {
   isPlaying: boolean;
   fps: number;
   onionSkin: boolean;
-  onSelectFrame: (index: number) => void;
+  onionSkinSettings: OnionSkinSettings;
+  selectedFrameIds: string[];
+  clipboardCount: number; // Frames waiting to be pasted, possibly copied from another project
+  onSelectFrame: (index: number, modifiers: { range: boolean; toggle: boolean }) => void;
   onAddFrame: () => void;
-  onDuplicateFrame: () => void;
-  onDeleteFrame: (index: number) => void;
+  onDuplicateFrames: () => void;
+  onDeleteFrames: (ids: string[]) => void;
+  onReverseFrames: () => void;
+  onNudgeFrames: (direction: -1 | 1) => void;
+  onMoveFrames: (ids: string[], targetIndex: number) => void;
+  onCopyFrames: () => void;
+  onPasteFrames: () => void;
+  onChangeFrameDuration: (index: number, duration: number) => void;
   onTogglePlay: () => void;
   onChangeFps: (fps: number) => void;
   onToggleOnionSkin: () => void;
+  onChangeOnionSkinSettings: (settings: Partial<OnionSkinSettings>) => void;
+  onToggleKeyframe: (index: number) => void;
   audioUrl: string | null;
   onUploadAudio: (file: File) => void;
   onRemoveAudio: () => void;
   onEnterCinema: () => void;
+  onExport: () => void;
 }
 
+// Thumbnail width for a frame shown once, plus this much per extra exposure
+const THUMB_WIDTH = 96;
+const EXPOSURE_WIDTH = 32;
+
+// Bar heights for the decorative waveform, fixed so it doesn't jump around on every render
+const waveformRandom = createRandom(40);
+const WAVEFORM_BARS = Array.from({ length: 40 }, () => 20 + waveformRandom() * 60);
+
 export const Timeline: React.FC<TimelineProps> = ({
   frames,
   currentFrameIndex,
   isPlaying,
   fps,
   onionSkin,
+  onionSkinSettings,
+  selectedFrameIds,
+  clipboardCount,
   onSelectFrame,
   onAddFrame,
-  onDuplicateFrame,
-  onDeleteFrame,
+  onDuplicateFrames,
+  onDeleteFrames,
+  onReverseFrames,
+  onNudgeFrames,
+  onMoveFrames,
+  onCopyFrames,
+  onPasteFrames,
+  onChangeFrameDuration,
   onTogglePlay,
   onChangeFps,
   onToggleOnionSkin,
+  onChangeOnionSkinSettings,
+  onToggleKeyframe,
   audioUrl,
   onUploadAudio,
   onRemoveAudio,
-  onEnterCinema
+  onEnterCinema,
+  onExport
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [holdDrag, setHoldDrag] = useState<{ index: number; pointerId: number; startX: number; startDuration: number } | null>(null);
+  const holdDragRef = useRef(false);
+  const [draggedIds, setDraggedIds] = useState<string[] | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [showOnionSettings, setShowOnionSettings] = useState(false);
+
+  const selected = new Set(selectedFrameIds);
+  const hasMultipleSelected = selectedFrameIds.length > 1;
+
+  // Dragging a thumbnail's right edge changes how many exposures the frame is held for
+  const handleHoldPointerDown = (e: React.PointerEvent, index: number) => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    holdDragRef.current = true;
+    setHoldDrag({ index, pointerId: e.pointerId, startX: e.clientX, startDuration: getFrameDuration(frames[index]) });
+  };
+
+  const handleHoldPointerMove = (e: React.PointerEvent) => {
+    if (!holdDrag || holdDrag.pointerId !== e.pointerId) return;
+    const steps = Math.round((e.clientX - holdDrag.startX) / EXPOSURE_WIDTH);
+    onChangeFrameDuration(holdDrag.index, holdDrag.startDuration + steps);
+  };
+
+  const handleHoldPointerUp = (e: React.PointerEvent) => {
+    if (!holdDrag || holdDrag.pointerId !== e.pointerId) return;
+    (e.currentTarget as HTMLElement).releasePointerCapture(e.pointerId);
+    holdDragRef.current = false;
+    setHoldDrag(null);
+  };
+
+  // --- Drag to reorder: dragging a selected frame moves the whole selection ---
+  const handleDragStart = (e: React.DragEvent, frame: Frame) => {
+    if (holdDragRef.current || isPlaying) {
+      e.preventDefault();
+      return;
+    }
+    const ids = selected.has(frame.id) ? selectedFrameIds : [frame.id];
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', ids.join(',')); // Firefox won't start a drag without data
+    setDraggedIds(ids);
+  };
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!draggedIds) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    // Drop before or after the hovered frame depending on which half the cursor is over
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    setDropIndex(e.clientX < rect.left + rect.width / 2 ? index : index + 1);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedIds && dropIndex !== null) {
+      onMoveFrames(draggedIds, dropIndex);
+    }
+    handleDragEnd();
+  };
+
+  const handleDragEnd = () => {
+    setDraggedIds(null);
+    setDropIndex(null);
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -75,6 +174,14 @@ export const Timeline: React.FC<TimelineProps> = ({
           >
             <Projector size={18} />
           </button>
+
+          <button
+            onClick={onExport}
+            className="w-10 h-10 rounded-full flex items-center justify-center transition-all duration-200 bg-gray-100 text-gray-600 hover:bg-apple-blue hover:text-white hover:scale-105"
+            title="Export"
+          >
+            <Download size={18} />
+          </button>
         </div>
 
         {/* FPS Slider */}
@@ -89,27 +196,88 @@ export const Timeline: React.FC<TimelineProps> = ({
               className="w-20 h-1 bg-gray-300 rounded-lg appearance-none cursor-pointer accent-apple-blue"
             />
             <span className="text-[10px] font-semibold text-gray-500 w-8">{fps} FPS</span>
+            <span className="text-[10px] font-medium text-gray-400 whitespace-nowrap">
+              {(getTotalExposures(frames) / fps).toFixed(1)}s
+            </span>
         </div>
 
         {/* Onion Skin */}
-        <button
-            onClick={onToggleOnionSkin}
-            className={`p-2 rounded-full transition-all duration-200 ${
-                onionSkin ? 'bg-apple-blue/10 text-apple-blue' : 'text-gray-400 hover:text-gray-600'
-            }`}
-            title="Onion Skin"
-        >
-            <Layers size={18} />
-        </button>
+        <div className="relative flex items-center">
+          <button
+              onClick={onToggleOnionSkin}
+              className={`p-2 rounded-full transition-all duration-200 ${
+                  onionSkin ? 'bg-apple-blue/10 text-apple-blue' : 'text-gray-400 hover:text-gray-600'
+              }`}
+              title="Onion Skin"
+          >
+              <Layers size={18} />
+          </button>
+          <button
+              onClick={() => setShowOnionSettings(!showOnionSettings)}
+              className={`p-1.5 rounded-full transition-colors ${showOnionSettings ? 'text-apple-blue' : 'text-gray-400 hover:text-gray-600'}`}
+              title="Onion Skin Settings"
+          >
+              <SlidersHorizontal size={14} />
+          </button>
+
+          {showOnionSettings && (
+            <div className="absolute bottom-full left-0 mb-3 z-40">
+              <OnionSkinPanel
+                settings={onionSkinSettings}
+                onChange={onChangeOnionSkinSettings}
+                onClose={() => setShowOnionSettings(false)}
+              />
+            </div>
+          )}
+        </div>
 
         <div className="flex-grow" />
 
-        {/* Add / Duplicate */}
+        {/* Selection Actions */}
+        {hasMultipleSelected && (
+          <div className="flex items-center gap-0.5 bg-apple-blue/10 rounded-full pl-3 pr-1 py-0.5">
+            <span className="text-[10px] font-semibold text-apple-blue mr-1 whitespace-nowrap">{selectedFrameIds.length} selected</span>
+            <button onClick={() => onNudgeFrames(-1)} className="p-1.5 text-apple-blue hover:bg-apple-blue/10 rounded-full transition-colors" title="Move Left">
+              <ChevronLeft size={16} />
+            </button>
+            <button onClick={() => onNudgeFrames(1)} className="p-1.5 text-apple-blue hover:bg-apple-blue/10 rounded-full transition-colors" title="Move Right">
+              <ChevronRight size={16} />
+            </button>
+            <button onClick={onReverseFrames} className="p-1.5 text-apple-blue hover:bg-apple-blue/10 rounded-full transition-colors" title="Reverse Order">
+              <ArrowLeftRight size={16} />
+            </button>
+            <button
+              onClick={() => onDeleteFrames(selectedFrameIds)}
+              disabled={selectedFrameIds.length >= frames.length}
+              className="p-1.5 text-red-500 hover:bg-red-50 rounded-full transition-colors disabled:opacity-30"
+              title="Delete Selected Frames"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        )}
+
+        {/* Copy / Paste / Duplicate / Add */}
         <div className="flex items-center gap-1">
            <button
-            onClick={onDuplicateFrame}
+            onClick={onCopyFrames}
             className="p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
-            title="Duplicate Frame"
+            title={hasMultipleSelected ? "Copy Frames" : "Copy Frame"}
+          >
+            <ClipboardCopy size={18} />
+          </button>
+           <button
+            onClick={onPasteFrames}
+            disabled={clipboardCount === 0}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+            title={clipboardCount > 0 ? `Paste ${clipboardCount} Frame${clipboardCount > 1 ? 's' : ''}` : "Paste Frames"}
+          >
+            <ClipboardPaste size={18} />
+          </button>
+           <button
+            onClick={onDuplicateFrames}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-full transition-colors"
+            title={hasMultipleSelected ? "Duplicate Frames" : "Duplicate Frame"}
           >
             <Copy size={18} />
           </button>
@@ -123,42 +291,109 @@ export const Timeline: React.FC<TimelineProps> = ({
       </div>
 
       {/* Frames Strip */}
-      <div className="flex gap-2 overflow-x-auto px-2 pb-1 no-scrollbar h-20 items-center">
-        {frames.map((frame, index) => (
-          <div
-            key={frame.id}
-            className={`
-                relative flex-shrink-0 cursor-pointer group transition-all duration-300 ease-out
-                ${index === currentFrameIndex ? 'scale-100' : 'scale-95 opacity-60 hover:opacity-100'}
-            `}
-            onClick={() => onSelectFrame(index)}
-          >
-            <div className={`
-                w-24 h-16 bg-white rounded-lg overflow-hidden shadow-sm border-2 transition-colors
-                ${index === currentFrameIndex ? 'border-apple-blue ring-2 ring-apple-blue/20' : 'border-transparent'}
-            `}>
-                <img src={frame.dataUrl} alt={`Frame ${index + 1}`} className="w-full h-full object-contain" />
-            </div>
+      <div
+        className="flex gap-2 overflow-x-auto px-2 pb-1 no-scrollbar h-20 items-center"
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropIndex(null);
+        }}
+      >
+        {frames.map((frame, index) => {
+          const duration = getFrameDuration(frame);
+          const isCurrent = index === currentFrameIndex;
+          const isSelected = selected.has(frame.id);
+          const isDragged = draggedIds?.includes(frame.id);
+          return (
+            <div
+              key={frame.id}
+              draggable={!isPlaying}
+              onDragStart={(e) => handleDragStart(e, frame)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={handleDrop}
+              onDragEnd={handleDragEnd}
+              className={`
+                  relative flex-shrink-0 cursor-pointer group ease-out
+                  ${holdDrag || draggedIds ? '' : 'transition-all duration-300'}
+                  ${isCurrent || isSelected ? 'scale-100' : 'scale-95 opacity-60 hover:opacity-100'}
+                  ${isDragged ? 'opacity-40' : ''}
+              `}
+              style={{ width: THUMB_WIDTH + (duration - 1) * EXPOSURE_WIDTH }}
+              onClick={(e) => onSelectFrame(index, { range: e.shiftKey, toggle: e.metaKey || e.ctrlKey })}
+            >
+              {/* Drop Indicator */}
+              {dropIndex === index && (
+                <div className="absolute -left-[5px] top-0 bottom-0 w-0.5 rounded-full bg-apple-blue z-20" />
+              )}
+              {dropIndex === frames.length && index === frames.length - 1 && (
+                <div className="absolute -right-[5px] top-0 bottom-0 w-0.5 rounded-full bg-apple-blue z-20" />
+              )}
+
+              <div className={`
+                  w-full h-16 bg-white rounded-lg overflow-hidden shadow-sm border-2 transition-colors relative
+                  ${isCurrent ? 'border-apple-blue ring-2 ring-apple-blue/20' : isSelected ? 'border-apple-blue/50' : 'border-transparent'}
+              `}>
+                  <Thumbnail image={frame.composite} alt={`Frame ${index + 1}`} className="h-full object-contain" style={{ width: THUMB_WIDTH - 4 }} />
+
+                  {/* Hold extension: one tick per extra exposure */}
+                  {duration > 1 && (
+                    <div className="absolute top-0 bottom-0 right-0 flex bg-gray-50" style={{ left: THUMB_WIDTH - 4 }}>
+                      {Array.from({ length: duration - 1 }, (_, i) => (
+                        <div key={i} className="flex-1 border-l border-dashed border-gray-200" />
+                      ))}
+                    </div>
+                  )}
+              </div>
+
+              {/* Hold Handle */}
+              <div
+                onPointerDown={(e) => handleHoldPointerDown(e, index)}
+                onPointerMove={handleHoldPointerMove}
+                onPointerUp={handleHoldPointerUp}
+                onPointerCancel={handleHoldPointerUp}
+                onClick={(e) => e.stopPropagation()}
+                className={`absolute top-1 bottom-1 -right-1 w-2 rounded-full cursor-ew-resize touch-none transition-opacity z-10
+                  ${holdDrag?.index === index ? 'bg-apple-blue opacity-100' : 'bg-gray-300 opacity-0 group-hover:opacity-100'}`}
+                title="Drag to hold this frame longer"
+              />
+
+              {duration > 1 && (
+                <span className="absolute bottom-1 right-2 text-[9px] font-bold px-1.5 rounded-full bg-apple-indigo/10 text-apple-indigo">
+                  ×{duration}
+                </span>
+              )}
             
-            {/* Hover Actions */}
-            <div className="absolute -top-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                <button 
-                    onClick={(e) => { e.stopPropagation(); onDeleteFrame(index); }}
-                    className="bg-white text-red-500 border border-gray-200 rounded-full p-1 shadow-sm hover:scale-110"
-                    disabled={frames.length <= 1}
-                >
-                    <Trash2 size={10} />
-                </button>
-            </div>
+              {/* Keyframe Toggle */}
+              <button
+                  onClick={(e) => { e.stopPropagation(); onToggleKeyframe(index); }}
+                  className={`absolute -top-2 -left-2 rounded-full p-1 shadow-sm border transition-opacity z-10 ${
+                    frame.keyframe
+                      ? 'bg-apple-orange text-white border-apple-orange opacity-100'
+                      : 'bg-white text-gray-400 border-gray-200 opacity-0 group-hover:opacity-100'
+                  }`}
+                  title={frame.keyframe ? "Unmark Keyframe" : "Mark as Keyframe"}
+              >
+                  <Key size={10} />
+              </button>
+
+              {/* Hover Actions */}
+              <div className="absolute -top-2 -right-2 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+                  <button 
+                      onClick={(e) => { e.stopPropagation(); onDeleteFrames([frame.id]); }}
+                      className="bg-white text-red-500 border border-gray-200 rounded-full p-1 shadow-sm hover:scale-110"
+                      disabled={frames.length <= 1}
+                  >
+                      <Trash2 size={10} />
+                  </button>
+              </div>
             
-            <span className={`
-                absolute bottom-1 left-1 text-[9px] font-bold px-1.5 rounded-full
-                ${index === currentFrameIndex ? 'bg-apple-blue text-white' : 'bg-gray-200 text-gray-500'}
-            `}>
-                {index + 1}
-            </span>
-          </div>
-        ))}
+              <span className={`
+                  absolute bottom-1 left-1 text-[9px] font-bold px-1.5 rounded-full
+                  ${isCurrent ? 'bg-apple-blue text-white' : isSelected ? 'bg-apple-blue/20 text-apple-blue' : 'bg-gray-200 text-gray-500'}
+              `}>
+                  {index + 1}
+              </span>
+            </div>
+          );
+        })}
         
         {/* Quick Add Placeholder */}
         <div 
@@ -183,11 +418,11 @@ export const Timeline: React.FC<TimelineProps> = ({
             <div className="relative w-full h-8 bg-gradient-to-r from-apple-indigo/10 to-apple-purple/10 rounded-md flex items-center px-3 gap-2 group overflow-hidden border border-apple-indigo/10">
                 {/* Fake Waveform Background */}
                 <div className="absolute inset-0 flex items-end justify-around opacity-20 px-1 pointer-events-none">
-                    {[...Array(40)].map((_, i) => (
+                    {WAVEFORM_BARS.map((height, i) => (
                         <div 
                             key={i} 
                             className="w-1 bg-apple-indigo rounded-t-full transition-all duration-500"
-                            style={{ height: `${20 + Math.random() * 60}%` }} 
+                            style={{ height: `${height}%` }} 
                         />
                     ))}
                 </div>
@@ -1,8 +1,17 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Pen, Pencil, Eraser, Trash2, Highlighter, Brush, PaintBucket, Undo2, Redo2, Grid3X3, Layers, Pipette, MousePointer2 } from 'lucide-react';
-import { ToolType, DrawingSettings } from '../types';
+import { Pen, Pencil, Eraser, Trash2, Highlighter, Brush, PaintBucket, Undo2, Redo2, Grid3X3, Layers, Pipette, MousePointer2, SlidersHorizontal, Library, Paintbrush, Shapes, Type } from 'lucide-react';
+import { ToolType, DrawingSettings, BrushPreset } from '../types';
+import { getBrushDynamics } from '../services/brushEngine';
+import { BUILT_IN_BRUSHES, getBrushPreset, getToolBrush, preloadStamp } from '../services/brushPresets';
 import { ColorPicker } from './ColorPicker';
+import { FillOptionsPanel } from './FillOptionsPanel';
+import { PickerOptionsPanel } from './PickerOptionsPanel';
+import { SelectionOptionsPanel } from './SelectionOptionsPanel';
+import { ShapeOptionsPanel } from './ShapeOptionsPanel';
+import { TextOptionsPanel } from './TextOptionsPanel';
+import { BrushSettingsPanel } from './BrushSettingsPanel';
+import { BrushLibraryPanel } from './BrushLibraryPanel';
 
 interface ToolbarProps {
   settings: DrawingSettings;
@@ -16,8 +25,13 @@ interface ToolbarProps {
   showLayers: boolean;
   canUndo: boolean;
   canRedo: boolean;
+  undoLabel?: string; // Name of the change undo would revert, for the tooltip
+  redoLabel?: string;
   orientation?: 'vertical' | 'horizontal';
   compact?: boolean;
+  customBrushes: BrushPreset[];
+  onSaveBrush: (brush: BrushPreset) => void;
+  onDeleteBrush: (id: string) => void;
 }
 
 const PRESET_COLORS = [
@@ -26,6 +40,16 @@ const PRESET_COLORS = [
 
 const SIZES = [2, 5, 10, 20, 40];
 
+const BRUSH_ICONS: Record<string, any> = {
+  pencil: Pencil,
+  pen: Pen,
+  marker: Highlighter,
+  crayon: Brush
+};
+
+const isPaintTool = (tool: ToolType) =>
+  tool === ToolType.PENCIL || tool === ToolType.BRUSH || tool === ToolType.MARKER || tool === ToolType.CRAYON;
+
 export const Toolbar: React.FC<ToolbarProps> = ({ 
     settings, 
     onUpdateSettings, 
@@ -38,11 +62,29 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     showLayers,
     canUndo,
     canRedo,
+    undoLabel,
+    redoLabel,
     orientation = 'horizontal',
-    compact = false
+    compact = false,
+    customBrushes,
+    onSaveBrush,
+    onDeleteBrush
 }) => {
   const isVertical = orientation === 'vertical';
   const [showColorPicker, setShowColorPicker] = useState(false);
+  const [flyout, setFlyout] = useState<'brush-settings' | 'library' | null>(null);
+  const activeBrush = getBrushPreset(settings.brushId, customBrushes) || getToolBrush(ToolType.PENCIL);
+  const isPainting = isPaintTool(settings.tool);
+  // Pressure and stabilizer settings belong to the tool a brush behaves as; the eraser has its own
+  const brushToolLabel = settings.tool === ToolType.ERASER ? 'Eraser' : isPainting ? activeBrush.name : undefined;
+  const dynamics = getBrushDynamics(settings);
+  const sizeLabel = settings.tool === ToolType.ERASER ? 'Eraser Size' : settings.tool === ToolType.SHAPE ? 'Line Width' : 'Brush Size';
+
+  const selectBrush = (brush: BrushPreset) => {
+    preloadStamp(brush.stamp).catch(e => console.error("Failed to load brush stamp", e));
+    onUpdateSettings({ brushId: brush.id, tool: brush.tool });
+  };
+
   const colorButtonRef = useRef<HTMLButtonElement>(null);
   const pickerRef = useRef<HTMLDivElement>(null);
 
@@ -82,6 +124,26 @@ export const Toolbar: React.FC<ToolbarProps> = ({
     </button>
   );
 
+  const BrushButton = ({ brush, icon: Icon }: { brush: BrushPreset, icon: any }) => {
+    const active = isPainting && activeBrush.id === brush.id;
+    return (
+      <button
+        type="button"
+        onClick={() => selectBrush(brush)}
+        className={`p-3 rounded-xl transition-all duration-200 group relative flex-shrink-0 border ${
+          active
+              ? 'bg-gray-900 text-white shadow-md border-gray-900 scale-105 z-10'
+              : 'bg-transparent text-gray-500 hover:bg-gray-100 border-transparent'
+        }`}
+        title={brush.name}
+        aria-label={brush.name}
+        aria-pressed={active}
+      >
+        <Icon size={24} strokeWidth={active ? 2.5 : 2} />
+      </button>
+    );
+  };
+
   return (
     <div className="relative">
         <div className={`
@@ -99,7 +161,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 onClick={onUndo} 
                 disabled={!canUndo}
                 className={`p-3 rounded-full transition-colors ${!canUndo ? 'text-gray-300' : 'text-gray-700 hover:bg-gray-100 active:bg-gray-200'}`}
-                title="Undo"
+                title={undoLabel ? `Undo ${undoLabel}` : "Undo"}
             >
                 <Undo2 size={20} />
             </button>
@@ -108,7 +170,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 onClick={onRedo} 
                 disabled={!canRedo}
                 className={`p-3 rounded-full transition-colors ${!canRedo ? 'text-gray-300' : 'text-gray-700 hover:bg-gray-100 active:bg-gray-200'}`}
-                title="Redo"
+                title={redoLabel ? `Redo ${redoLabel}` : "Redo"}
             >
                 <Redo2 size={20} />
             </button>
@@ -133,10 +195,22 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         {/* Tools */}
         <div className={`flex ${isVertical ? 'flex-col' : 'flex-row'} gap-2`}>
             <ToolButton type={ToolType.SELECT} icon={MousePointer2} label="Select" />
-            <ToolButton type={ToolType.PENCIL} icon={Pencil} label="Pencil" />
-            <ToolButton type={ToolType.BRUSH} icon={Pen} label="Pen" />
-            <ToolButton type={ToolType.MARKER} icon={Highlighter} label="Marker" />
-            <ToolButton type={ToolType.CRAYON} icon={Brush} label="Crayon" />
+            {BUILT_IN_BRUSHES.map(brush => (
+                <React.Fragment key={brush.id}>
+                    <BrushButton brush={brush} icon={BRUSH_ICONS[brush.id] || Paintbrush} />
+                </React.Fragment>
+            ))}
+            {!activeBrush.builtIn && <BrushButton brush={activeBrush} icon={Paintbrush} />}
+            <button
+                type="button"
+                onClick={() => setFlyout(flyout === 'library' ? null : 'library')}
+                className={`p-3 rounded-xl transition-colors flex-shrink-0 ${flyout === 'library' ? 'bg-apple-blue/10 text-apple-blue' : 'text-gray-400 hover:bg-gray-100'}`}
+                title="Brushes"
+            >
+                <Library size={22} />
+            </button>
+            <ToolButton type={ToolType.SHAPE} icon={Shapes} label="Shapes" />
+            <ToolButton type={ToolType.TEXT} icon={Type} label="Text" />
             <ToolButton type={ToolType.FILL} icon={PaintBucket} label="Fill" />
             <ToolButton type={ToolType.ERASER} icon={Eraser} label="Eraser" />
             <ToolButton type={ToolType.PICKER} icon={Pipette} label="Color Picker" />
@@ -155,8 +229,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                     w-10 h-10 rounded-full border-2 border-white shadow-md transition-transform duration-200
                     ${showColorPicker ? 'scale-110 ring-2 ring-apple-blue' : 'hover:scale-110'}
                 `}
-                style={{ backgroundColor: settings.color }}
-                title="Current Color"
+                style={{ backgroundColor: settings.color, opacity: Math.max(settings.opacity, 0.2) }}
+                title={settings.opacity < 1 ? `Current Color (${Math.round(settings.opacity * 100)}% opacity)` : "Current Color"}
             />
             
             {/* Quick Colors (Mini) */}
@@ -164,7 +238,7 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 {PRESET_COLORS.map(c => (
                     <button
                         key={c}
-                        onClick={() => onUpdateSettings({ color: c, tool: settings.tool === ToolType.ERASER || settings.tool === ToolType.PICKER ? ToolType.PENCIL : settings.tool })}
+                        onClick={() => onUpdateSettings({ color: c, tool: settings.tool === ToolType.ERASER || settings.tool === ToolType.PICKER ? activeBrush.tool : settings.tool })}
                         className="w-4 h-4 rounded-full border border-black/10 hover:scale-125 transition-transform"
                         style={{ backgroundColor: c }}
                     />
@@ -178,13 +252,13 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         {/* Brush Sizes */}
         <div className={`flex ${isVertical ? 'flex-col' : 'flex-row'} items-center gap-2 justify-center py-2`}>
             {/* Size Label */}
-            {settings.tool !== ToolType.FILL && settings.tool !== ToolType.PICKER && settings.tool !== ToolType.SELECT && (
+            {settings.tool !== ToolType.FILL && settings.tool !== ToolType.PICKER && settings.tool !== ToolType.SELECT && settings.tool !== ToolType.TEXT && (
                 <div className={`text-[10px] font-semibold uppercase tracking-wider mb-1 px-2 py-1 rounded-md transition-colors ${
                     settings.tool === ToolType.ERASER
                         ? 'text-red-600 bg-red-50'
                         : 'text-gray-500 bg-gray-50'
                 }`}>
-                    {settings.tool === ToolType.ERASER ? 'Eraser' : 'Brush'} Size
+                    {sizeLabel}
                 </div>
             )}
 
@@ -198,8 +272,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                         ? 'bg-red-50 hover:bg-red-100'
                         : 'hover:bg-gray-100'
                 }`}
-                title={`${settings.tool === ToolType.ERASER ? 'Eraser' : 'Brush'} Size ${size}`}
-                disabled={settings.tool === ToolType.FILL || settings.tool === ToolType.PICKER || settings.tool === ToolType.SELECT}
+                title={`${sizeLabel} ${size}`}
+                disabled={settings.tool === ToolType.FILL || settings.tool === ToolType.PICKER || settings.tool === ToolType.SELECT || settings.tool === ToolType.TEXT}
             >
                 <div
                     className={`rounded-full transition-all duration-200 ${
@@ -215,6 +289,17 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 />
             </button>
             ))}
+
+            {brushToolLabel && (
+                <button
+                    type="button"
+                    onClick={() => setFlyout(flyout === 'brush-settings' ? null : 'brush-settings')}
+                    className={`p-3 rounded-full transition-colors ${flyout === 'brush-settings' ? 'bg-apple-blue/10 text-apple-blue' : 'text-gray-400 hover:bg-gray-100'}`}
+                    title={`${brushToolLabel} Settings`}
+                >
+                    <SlidersHorizontal size={20} />
+                </button>
+            )}
         </div>
 
         {/* Separator */}
@@ -233,6 +318,103 @@ export const Toolbar: React.FC<ToolbarProps> = ({
         </div>
         </div>
 
+        {/* Fill options flyout while the bucket is active */}
+        {settings.tool === ToolType.FILL && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <FillOptionsPanel
+                    settings={settings.fill}
+                    onChange={(changes) => onUpdateSettings({ fill: { ...settings.fill, ...changes } })}
+                />
+            </div>
+        )}
+
+        {flyout === 'library' && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <BrushLibraryPanel
+                    activeBrush={activeBrush}
+                    customBrushes={customBrushes}
+                    onSelect={selectBrush}
+                    onSave={onSaveBrush}
+                    onDelete={onDeleteBrush}
+                />
+            </div>
+        )}
+
+        {brushToolLabel && flyout === 'brush-settings' && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <BrushSettingsPanel
+                    tool={settings.tool}
+                    toolLabel={brushToolLabel}
+                    dynamics={dynamics}
+                    isCustomized={!!settings.dynamics[settings.tool]}
+                    onChange={(changes) => onUpdateSettings({
+                        dynamics: { ...settings.dynamics, [settings.tool]: { ...dynamics, ...changes } }
+                    })}
+                    onReset={() => {
+                        const { [settings.tool]: _removed, ...rest } = settings.dynamics;
+                        onUpdateSettings({ dynamics: rest });
+                    }}
+                />
+            </div>
+        )}
+
+        {settings.tool === ToolType.SELECT && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <SelectionOptionsPanel
+                    settings={settings.selection}
+                    onChange={(changes) => onUpdateSettings({ selection: { ...settings.selection, ...changes } })}
+                />
+            </div>
+        )}
+
+        {settings.tool === ToolType.SHAPE && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <ShapeOptionsPanel
+                    settings={settings.shape}
+                    onChange={(changes) => onUpdateSettings({ shape: { ...settings.shape, ...changes } })}
+                />
+            </div>
+        )}
+
+        {settings.tool === ToolType.TEXT && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <TextOptionsPanel
+                    settings={settings.text}
+                    onChange={(changes) => onUpdateSettings({ text: { ...settings.text, ...changes } })}
+                />
+            </div>
+        )}
+
+        {settings.tool === ToolType.PICKER && !showColorPicker && (
+            <div
+                className="absolute left-full top-0 ml-4 z-40"
+                style={isVertical ? {} : { left: '0', top: '100%', marginTop: '1rem', marginLeft: '0' }}
+            >
+                <PickerOptionsPanel
+                    settings={settings.picker}
+                    onChange={(changes) => onUpdateSettings({ picker: { ...settings.picker, ...changes } })}
+                />
+            </div>
+        )}
+
         {/* Floating Color Picker Popover */}
         {showColorPicker && (
             <div 
@@ -246,6 +428,8 @@ export const Toolbar: React.FC<ToolbarProps> = ({
                 <ColorPicker 
                     color={settings.color} 
                     onChange={(c) => onUpdateSettings({ color: c })}
+                    opacity={settings.opacity}
+                    onOpacityChange={(opacity) => onUpdateSettings({ opacity })}
                     onActivateEyedropper={() => {
                         onUpdateSettings({ tool: ToolType.PICKER });
                         setShowColorPicker(false);
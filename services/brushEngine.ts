@@ -0,0 +1,226 @@
+import { BrushDynamics, CurvePoint, DrawingSettings, ToolType } from '../types';
+
+// Turns raw pointer input into stroke samples: a pulled-string stabilizer, Catmull-Rom smoothing
+// and evenly spaced samples carrying pressure and distance along the stroke, plus the
+// per-tool curves and tapers that decide each sample's size and opacity.
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  pressure: number; // 0-1
+}
+
+export interface StrokeSample extends StrokePoint {
+  distance: number; // Along the stroke from its start, in canvas pixels
+}
+
+export const MAX_STABILIZER_RADIUS = 40; // Pen lag at 100% stabilizer, in canvas pixels
+export const MAX_TAPER = 200;
+const MIN_TAPER_SCALE = 0.1; // Tips never fully vanish, so short strokes stay visible
+
+const FLAT: CurvePoint[] = [{ x: 0, y: 1 }, { x: 1, y: 1 }];
+
+const dynamics = (sizeCurve: CurvePoint[], opacityCurve: CurvePoint[] = FLAT, taper = 0): BrushDynamics => ({
+  stabilizer: 0,
+  smoothing: true,
+  taperStart: taper,
+  taperEnd: taper,
+  sizeCurve,
+  opacityCurve
+});
+
+// Mouse and touch report no real pressure and are treated as 0.5, so each size curve
+// passes through the tool's old fixed mouse size there
+const DEFAULT_DYNAMICS: Partial<Record<ToolType, BrushDynamics>> = {
+  [ToolType.PENCIL]: dynamics([{ x: 0, y: 0.6 }, { x: 0.5, y: 0.8 }, { x: 1, y: 1 }], [{ x: 0, y: 0.75 }, { x: 1, y: 0.8 }]),
+  [ToolType.BRUSH]: dynamics([{ x: 0, y: 0.5 }, { x: 0.5, y: 1 }, { x: 1, y: 1.5 }], FLAT, 12),
+  [ToolType.MARKER]: dynamics([{ x: 0, y: 0.85 }, { x: 0.5, y: 1 }, { x: 1, y: 1 }]),
+  [ToolType.CRAYON]: dynamics([{ x: 0, y: 0.6 }, { x: 0.5, y: 0.8 }, { x: 1, y: 1 }]),
+  [ToolType.ERASER]: dynamics(FLAT)
+};
+
+export const getDefaultDynamics = (tool: ToolType): BrushDynamics => DEFAULT_DYNAMICS[tool] || dynamics(FLAT);
+
+export const getBrushDynamics = (settings: DrawingSettings, tool = settings.tool): BrushDynamics =>
+  settings.dynamics[tool] || getDefaultDynamics(tool);
+
+/** Piecewise linear lookup; inputs outside the curve take the end values */
+export const evaluateCurve = (curve: CurvePoint[], x: number) => {
+  if (curve.length === 0) return 1;
+  if (x <= curve[0].x) return curve[0].y;
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (x <= b.x) {
+      return b.x === a.x ? b.y : a.y + (b.y - a.y) * (x - a.x) / (b.x - a.x);
+    }
+  }
+  return curve[curve.length - 1].y;
+};
+
+/** Pen pressure, or 0.5 for input that can't report it */
+export const getPointerPressure = (e: { pressure: number; pointerType: string }) =>
+  e.pointerType === 'pen' && e.pressure > 0 ? e.pressure : 0.5;
+
+/** 0-1 scale for thinning the ends. Pass `length` once the stroke is finished to taper its end too. */
+export const getTaper = (distance: number, length: number | null, brush: BrushDynamics) => {
+  let t = 1;
+  if (brush.taperStart > 0) t = Math.min(t, distance / brush.taperStart);
+  if (length !== null && brush.taperEnd > 0) t = Math.min(t, (length - distance) / brush.taperEnd);
+  t = Math.max(0, Math.min(1, t));
+  // Ease out so the tip rounds off rather than coming to a long point
+  return MIN_TAPER_SCALE + (1 - MIN_TAPER_SCALE) * Math.sin(t * Math.PI / 2);
+};
+
+export const getSampleSize = (baseSize: number, sample: StrokeSample, brush: BrushDynamics, length: number | null) =>
+  baseSize * evaluateCurve(brush.sizeCurve, sample.pressure) * getTaper(sample.distance, length, brush);
+
+export const getSampleOpacity = (sample: StrokeSample, brush: BrushDynamics) =>
+  Math.max(0, Math.min(1, evaluateCurve(brush.opacityCurve, sample.pressure)));
+
+/**
+ * Alpha for one piece of a stroke so that the overlapping pieces add up to roughly `opacity`.
+ * A point is covered by about size/step pieces, each letting (1 - alpha) through.
+ */
+export const getStepAlpha = (opacity: number, step: number, size: number) =>
+  opacity >= 1 ? 1 : 1 - Math.pow(1 - opacity, Math.min(1, step / Math.max(size, 1)));
+
+const catmullRom = (p0: number, p1: number, p2: number, p3: number, t: number) =>
+  0.5 * (2 * p1 + (p2 - p0) * t + (2 * p0 - 5 * p1 + 4 * p2 - p3) * t * t + (3 * p1 - p0 - 3 * p2 + p3) * t * t * t);
+
+/**
+ * Collects pointer positions for one stroke. `add` and `finish` return only the samples that
+ * are new since the last call, so they can be drawn as the stroke goes.
+ */
+export const createStrokeBuilder = (brush: BrushDynamics, spacing = 1) => {
+  const lazyRadius = (brush.stabilizer / 100) * MAX_STABILIZER_RADIUS;
+  const controls: StrokePoint[] = []; // Stabilized positions the stroke passes through
+  const samples: StrokeSample[] = [];
+  let pen: StrokePoint | null = null;
+  let pointer: StrokePoint | null = null;
+  let emitted = 0; // Control segments already turned into samples
+
+  const addSample = (point: StrokePoint) => {
+    const last = samples[samples.length - 1];
+    const distance = last ? last.distance + Math.hypot(point.x - last.x, point.y - last.y) : 0;
+    samples.push({ ...point, distance });
+  };
+
+  const emitSegment = (i: number) => {
+    const p0 = controls[Math.max(0, i - 1)];
+    const p1 = controls[i];
+    const p2 = controls[i + 1];
+    const p3 = controls[Math.min(controls.length - 1, i + 2)];
+    const steps = Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) / spacing));
+    for (let s = 1; s <= steps; s++) {
+      const t = s / steps;
+      const pressure = p1.pressure + (p2.pressure - p1.pressure) * t;
+      if (brush.smoothing) {
+        addSample({ x: catmullRom(p0.x, p1.x, p2.x, p3.x, t), y: catmullRom(p0.y, p1.y, p2.y, p3.y, t), pressure });
+      } else {
+        addSample({ x: p1.x + (p2.x - p1.x) * t, y: p1.y + (p2.y - p1.y) * t, pressure });
+      }
+    }
+  };
+
+  // A smoothed segment needs the control point after it, so it's drawn one point behind
+  const emitReady = (final: boolean) => {
+    const start = samples.length;
+    const ready = final || !brush.smoothing ? controls.length - 1 : controls.length - 2;
+    while (emitted < ready) emitSegment(emitted++);
+    return samples.slice(start);
+  };
+
+  return {
+    add: (point: StrokePoint): StrokeSample[] => {
+      pointer = point;
+      if (!pen) {
+        pen = point;
+        controls.push(point);
+        addSample(point);
+        return samples.slice();
+      }
+
+      // Pulled string: the pen only moves once the pointer is further away than the string
+      const d = Math.hypot(point.x - pen.x, point.y - pen.y);
+      if (d <= lazyRadius) return [];
+      const pull = (d - lazyRadius) / d;
+      pen = { x: pen.x + (point.x - pen.x) * pull, y: pen.y + (point.y - pen.y) * pull, pressure: point.pressure };
+
+      const last = controls[controls.length - 1];
+      if (Math.hypot(pen.x - last.x, pen.y - last.y) < spacing) return [];
+      controls.push(pen);
+      return emitReady(false);
+    },
+
+    /** Ends the stroke where the pointer was lifted and returns the remaining samples */
+    finish: (): StrokeSample[] => {
+      const last = controls[controls.length - 1];
+      if (pointer && last && Math.hypot(pointer.x - last.x, pointer.y - last.y) >= spacing) {
+        controls.push(pointer);
+      }
+      return emitReady(true);
+    },
+
+    getSamples: () => samples,
+    getLength: () => samples[samples.length - 1]?.distance || 0
+  };
+};
+
+export type StrokeBuilder = ReturnType<typeof createStrokeBuilder>;
+
+/** Samples for points stored without distances, e.g. a saved vector stroke */
+export const toStrokeSamples = (points: { x: number; y: number; pressure?: number }[]): StrokeSample[] => {
+  let distance = 0;
+  return points.map((p, i) => {
+    if (i > 0) distance += Math.hypot(p.x - points[i - 1].x, p.y - points[i - 1].y);
+    return { x: p.x, y: p.y, pressure: p.pressure ?? 0.5, distance };
+  });
+};
+
+/**
+ * Adds the outline of a variable-width stroke with round ends to `path` as one closed shape,
+ * so a see-through stroke can be filled in one go without darker overlaps.
+ */
+export const traceStrokeOutline = (path: CanvasPath, points: StrokePoint[], widths: number[]) => {
+  const n = points.length;
+  if (n === 0) return;
+  if (n === 1) {
+    path.moveTo(points[0].x + widths[0] / 2, points[0].y);
+    path.arc(points[0].x, points[0].y, widths[0] / 2, 0, Math.PI * 2);
+    return;
+  }
+
+  const CAP_STEPS = 8;
+  const left: { x: number; y: number }[] = [];
+  const right: { x: number; y: number }[] = [];
+  const angles: number[] = []; // Direction of the left side at each point
+  let angle = 0;
+
+  for (let i = 0; i < n; i++) {
+    const a = points[Math.max(0, i - 1)];
+    const b = points[Math.min(n - 1, i + 1)];
+    // Keep the previous direction where the stroke doubles back on the same spot
+    if (a.x !== b.x || a.y !== b.y) angle = Math.atan2(b.y - a.y, b.x - a.x) + Math.PI / 2;
+    const r = widths[i] / 2;
+    angles.push(angle);
+    left.push({ x: points[i].x + Math.cos(angle) * r, y: points[i].y + Math.sin(angle) * r });
+    right.push({ x: points[i].x - Math.cos(angle) * r, y: points[i].y - Math.sin(angle) * r });
+  }
+
+  path.moveTo(left[0].x, left[0].y);
+  for (let i = 1; i < n; i++) path.lineTo(left[i].x, left[i].y);
+  // Round end: from the left side, around the tip, to the right side
+  const end = points[n - 1];
+  for (let k = 1; k < CAP_STEPS; k++) {
+    const theta = angles[n - 1] - Math.PI * k / CAP_STEPS;
+    path.lineTo(end.x + Math.cos(theta) * widths[n - 1] / 2, end.y + Math.sin(theta) * widths[n - 1] / 2);
+  }
+  for (let i = n - 1; i >= 0; i--) path.lineTo(right[i].x, right[i].y);
+  const start = points[0];
+  for (let k = 1; k < CAP_STEPS; k++) {
+    const theta = angles[0] + Math.PI - Math.PI * k / CAP_STEPS;
+    path.lineTo(start.x + Math.cos(theta) * widths[0] / 2, start.y + Math.sin(theta) * widths[0] / 2);
+  }
+  path.closePath();
+};
@@ -0,0 +1,274 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BrushDynamics, BrushPreset, ToolType } from '../types';
+import { getSampleOpacity, getSampleSize, getStepAlpha, StrokeSample } from './brushEngine';
+import { createRandom, hashSeed, Random } from './random';
+
+// Brushes are made of stamps: a small alpha shape pressed along the stroke with some spacing,
+// size jitter, scatter and rotation. The built-in drawing tools are presets like any other.
+
+export const BUILT_IN_STAMPS = [
+  { value: 'round', label: 'Round' },
+  { value: 'soft', label: 'Soft' },
+  { value: 'grain', label: 'Grain' },
+  { value: 'chalk', label: 'Chalk' },
+  { value: 'flat', label: 'Flat' }
+];
+
+const preset = (id: string, name: string, tool: ToolType, stamp: string, changes: Partial<BrushPreset> = {}): BrushPreset => ({
+  id,
+  name,
+  builtIn: true,
+  tool,
+  stamp,
+  spacing: 0.05,
+  jitter: 0,
+  scatter: 0,
+  angle: 0,
+  followDirection: false,
+  opacity: 1,
+  blendMode: 'normal',
+  ...changes
+});
+
+export const BUILT_IN_BRUSHES: BrushPreset[] = [
+  preset('pencil', 'Pencil', ToolType.PENCIL, 'grain', { spacing: 0.1, jitter: 0.2, scatter: 0.1, opacity: 0.9 }),
+  preset('pen', 'Pen', ToolType.BRUSH, 'round'),
+  preset('marker', 'Marker', ToolType.MARKER, 'round', { opacity: 0.5 }),
+  preset('crayon', 'Crayon', ToolType.CRAYON, 'chalk', { spacing: 0.15, jitter: 0.1, scatter: 0.3, followDirection: true })
+];
+
+// The eraser always rubs out with a plain round stamp
+export const ERASER_BRUSH = preset('eraser', 'Eraser', ToolType.ERASER, 'round');
+
+export const DEFAULT_BRUSH_ID = 'pencil';
+
+export const getBrushPreset = (id: string, custom: BrushPreset[]) =>
+  BUILT_IN_BRUSHES.find(b => b.id === id) || custom.find(b => b.id === id);
+
+/** Built-in brush for a tool, for tools picked without choosing a preset */
+export const getToolBrush = (tool: ToolType) =>
+  tool === ToolType.ERASER ? ERASER_BRUSH : BUILT_IN_BRUSHES.find(b => b.tool === tool) || BUILT_IN_BRUSHES[0];
+
+export const duplicateBrush = (brush: BrushPreset, custom: BrushPreset[]): BrushPreset => {
+  const names = new Set([...BUILT_IN_BRUSHES, ...custom].map(b => b.name));
+  let name = `${brush.name} Copy`;
+  for (let i = 2; names.has(name); i++) name = `${brush.name} Copy ${i}`;
+  return { ...brush, id: uuidv4(), name, builtIn: false };
+};
+
+// --- Stamps ---
+
+const STAMP_SIZE = 64;
+const stampMasks = new Map<string, HTMLCanvasElement>();
+const pendingStamps = new Map<string, Promise<void>>();
+
+const createStampCanvas = (width = STAMP_SIZE, height = STAMP_SIZE) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const drawBuiltInStamp = (name: string) => {
+  const canvas = createStampCanvas(STAMP_SIZE, name === 'flat' ? STAMP_SIZE / 4 : STAMP_SIZE);
+  const ctx = canvas.getContext('2d')!;
+  const c = STAMP_SIZE / 2;
+
+  if (name === 'flat') {
+    ctx.beginPath();
+    ctx.ellipse(c, canvas.height / 2, c - 1, canvas.height / 2 - 1, 0, 0, Math.PI * 2);
+    ctx.fill();
+    return canvas;
+  }
+
+  if (name === 'soft') {
+    const gradient = ctx.createRadialGradient(c, c, 0, c, c, c);
+    gradient.addColorStop(0, 'rgba(0,0,0,1)');
+    gradient.addColorStop(1, 'rgba(0,0,0,0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, STAMP_SIZE, STAMP_SIZE);
+    return canvas;
+  }
+
+  ctx.beginPath();
+  ctx.arc(c, c, c - 1, 0, Math.PI * 2);
+  ctx.fill();
+
+  if (name === 'grain' || name === 'chalk') {
+    // Knock random specks out of the disc. Chalk gets bigger holes and a ragged edge.
+    // Seeded by name so every session (and every replay) gets the same grain.
+    const random = createRandom(hashSeed(name));
+    const image = ctx.getImageData(0, 0, STAMP_SIZE, STAMP_SIZE);
+    const keep = name === 'grain' ? 0.55 : 0.4;
+    for (let y = 0; y < STAMP_SIZE; y++) {
+      for (let x = 0; x < STAMP_SIZE; x++) {
+        const i = (y * STAMP_SIZE + x) * 4 + 3;
+        const edge = Math.hypot(x - c, y - c) / c;
+        const chance = name === 'chalk' ? keep * (1.2 - edge) : keep;
+        if (random() > chance) image.data[i] = Math.round(image.data[i] * random() * 0.3);
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+  return canvas;
+};
+
+const loadCustomStamp = (dataUrl: string) => new Promise<void>((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => {
+    const canvas = createStampCanvas(img.width, img.height);
+    canvas.getContext('2d')!.drawImage(img, 0, 0);
+    stampMasks.set(dataUrl, canvas);
+    resolve();
+  };
+  img.onerror = reject;
+  img.src = dataUrl;
+});
+
+/** Makes sure a custom stamp image is decoded before it's needed mid-stroke */
+export const preloadStamp = (stamp: string): Promise<void> => {
+  if (stampMasks.has(stamp) || !stamp.startsWith('data:')) return Promise.resolve();
+  if (!pendingStamps.has(stamp)) {
+    pendingStamps.set(stamp, loadCustomStamp(stamp).finally(() => pendingStamps.delete(stamp)));
+  }
+  return pendingStamps.get(stamp)!;
+};
+
+/** Alpha shape of a stamp. Custom stamps that aren't loaded yet fall back to round. */
+export const getStampMask = (stamp: string): HTMLCanvasElement => {
+  const cached = stampMasks.get(stamp);
+  if (cached) return cached;
+  if (stamp.startsWith('data:')) {
+    preloadStamp(stamp).catch(e => console.error("Failed to load brush stamp", e));
+    return getStampMask('round');
+  }
+  const mask = drawBuiltInStamp(stamp);
+  stampMasks.set(stamp, mask);
+  return mask;
+};
+
+// Stamps filled with the brush color, reused while the color stays the same
+const tintedStamps = new Map<string, HTMLCanvasElement>();
+const MAX_TINTED_STAMPS = 32;
+
+const getTintedStamp = (stamp: string, color: string): HTMLCanvasElement => {
+  const mask = getStampMask(stamp);
+  if (!stampMasks.has(stamp)) return getTintedStamp('round', color); // Still loading
+  const key = `${stamp}|${color}`;
+  let tinted = tintedStamps.get(key);
+  if (!tinted) {
+    if (tintedStamps.size >= MAX_TINTED_STAMPS) tintedStamps.clear();
+    tinted = createStampCanvas(mask.width, mask.height);
+    const ctx = tinted.getContext('2d')!;
+    ctx.drawImage(mask, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, tinted.width, tinted.height);
+    tintedStamps.set(key, tinted);
+  }
+  return tinted;
+};
+
+/**
+ * Turns an uploaded picture into a stamp: transparent pictures keep their alpha,
+ * opaque ones use darkness as the shape (black ink on white paper).
+ */
+export const createStampFromImage = (file: Blob): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, 128 / Math.max(img.width, img.height));
+    const canvas = createStampCanvas(Math.max(1, Math.round(img.width * scale)), Math.max(1, Math.round(img.height * scale)));
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = image.data;
+    let hasTransparency = false;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] < 250) { hasTransparency = true; break; }
+    }
+    for (let i = 0; i < data.length; i += 4) {
+      const alpha = hasTransparency ? data[i + 3] : 255 - (data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114);
+      data[i] = data[i + 1] = data[i + 2] = 0;
+      data[i + 3] = alpha;
+    }
+    ctx.putImageData(image, 0, 0);
+    resolve(canvas.toDataURL());
+  };
+  img.onerror = (e) => {
+    URL.revokeObjectURL(url);
+    reject(e);
+  };
+  img.src = url;
+});
+
+// --- Painting ---
+
+export interface StampState {
+  lastSample: StrokeSample | null;
+  lastStamp: number | null; // Distance of the last stamp along the stroke
+  random: Random; // Jitter and scatter; the same seed gives the same stroke
+}
+
+export const createStampState = (seed: number): StampState => ({ lastSample: null, lastStamp: null, random: createRandom(seed) });
+
+export interface StampOptions {
+  brush: BrushPreset;
+  dynamics: BrushDynamics;
+  color: string;
+  size: number; // Base brush size in pixels
+  length: number | null; // Stroke length once finished, for the end taper
+}
+
+/** Presses stamps along `samples`. Pass the same state for each batch of one stroke. */
+export const paintStamps = (ctx: CanvasRenderingContext2D, samples: StrokeSample[], options: StampOptions, state: StampState) => {
+  const { brush, dynamics, color, size: baseSize, length } = options;
+  const stamp = getTintedStamp(brush.stamp, color);
+  const aspect = stamp.height / stamp.width;
+  const base = ctx.getTransform();
+
+  samples.forEach(sample => {
+    const prev = state.lastSample;
+    state.lastSample = sample;
+
+    const size = getSampleSize(baseSize, sample, dynamics, length);
+    const spacing = Math.max(1, brush.spacing * size);
+    if (state.lastStamp !== null && sample.distance - state.lastStamp < spacing) return;
+    state.lastStamp = sample.distance;
+
+    const stampSize = size * (1 - brush.jitter * state.random());
+    let angle = brush.angle * Math.PI / 180;
+    if (brush.followDirection && prev) angle += Math.atan2(sample.y - prev.y, sample.x - prev.x);
+    const spread = brush.scatter * size;
+
+    ctx.globalAlpha = getStepAlpha(getSampleOpacity(sample, dynamics), spacing, size);
+    ctx.setTransform(base);
+    ctx.translate(sample.x + (state.random() - 0.5) * 2 * spread, sample.y + (state.random() - 0.5) * 2 * spread);
+    ctx.rotate(angle);
+    ctx.drawImage(stamp, -stampSize / 2, -stampSize * aspect / 2, stampSize, stampSize * aspect);
+  });
+
+  ctx.setTransform(base);
+  ctx.globalAlpha = 1.0;
+};
+
+/** A whole stroke stamped onto its own canvas, cropped to the stroke. `x`/`y` place it on the stage. */
+export const renderStampedStroke = (samples: StrokeSample[], options: StampOptions, seed: number) => {
+  const maxScale = Math.max(1, ...options.dynamics.sizeCurve.map(p => p.y));
+  // Scatter and size jitter can push stamps past the stroke's own width
+  const margin = Math.ceil(options.size * maxScale * (0.5 + options.brush.scatter) + 2);
+  const xs = samples.map(s => s.x);
+  const ys = samples.map(s => s.y);
+  const x = Math.floor(Math.min(...xs)) - margin;
+  const y = Math.floor(Math.min(...ys)) - margin;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(Math.max(...xs)) + margin - x);
+  canvas.height = Math.max(1, Math.ceil(Math.max(...ys)) + margin - y);
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.translate(-x, -y);
+    paintStamps(ctx, samples, options, createStampState(seed));
+  }
+  return { canvas, x, y };
+};
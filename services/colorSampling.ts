@@ -0,0 +1,74 @@
+import { PickerSettings } from '../types';
+
+// Eyedropper sampling. Works on an un-flattened render of the visible layers so the picked
+// color and its opacity can be separated; the paper is mixed in afterwards when needed.
+
+export const DEFAULT_PICKER_SETTINGS: PickerSettings = {
+  radius: 0,
+  sampleOpacity: false
+};
+
+export const PICKER_RADII = [
+  { value: 0, label: '1 px' },
+  { value: 1, label: '3×3' },
+  { value: 2, label: '5×5' },
+  { value: 5, label: '11×11' }
+];
+
+export interface SampledColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // 0-1
+}
+
+/** Average of the pixels within `radius` of (x, y). Color is weighted by alpha so clear pixels don't darken it. */
+export const sampleColor = (image: ImageData, x: number, y: number, radius: number): SampledColor => {
+  const { width, height, data } = image;
+  let r = 0, g = 0, b = 0, alpha = 0, count = 0;
+
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx * dx + dy * dy > radius * radius) continue; // Round brush-like area
+      const px = x + dx;
+      const py = y + dy;
+      if (px < 0 || py < 0 || px >= width || py >= height) continue;
+      const p = (py * width + px) * 4;
+      const a = data[p + 3];
+      r += data[p] * a;
+      g += data[p + 1] * a;
+      b += data[p + 2] * a;
+      alpha += a;
+      count++;
+    }
+  }
+
+  if (alpha === 0) return { r: 0, g: 0, b: 0, a: 0 };
+  return {
+    r: Math.round(r / alpha),
+    g: Math.round(g / alpha),
+    b: Math.round(b / alpha),
+    a: alpha / count / 255
+  };
+};
+
+export const toHexColor = ({ r, g, b }: { r: number; g: number; b: number }) =>
+  '#' + [r, g, b].map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/** The sample as it looks on the paper */
+export const flattenOnPaper = (sample: SampledColor, paper: string): SampledColor => {
+  const pr = parseInt(paper.slice(1, 3), 16);
+  const pg = parseInt(paper.slice(3, 5), 16);
+  const pb = parseInt(paper.slice(5, 7), 16);
+  const mix = (c: number, p: number) => Math.round(c * sample.a + p * (1 - sample.a));
+  return { r: mix(sample.r, pr), g: mix(sample.g, pg), b: mix(sample.b, pb), a: 1 };
+};
+
+/** What the eyedropper hands back: opacity is only included when it's being sampled */
+export const resolvePickedColor = (sample: SampledColor, paper: string, settings: PickerSettings) => {
+  if (settings.sampleOpacity && sample.a > 0) {
+    return { color: toHexColor(sample), opacity: Math.round(sample.a * 100) / 100 };
+  }
+  // Nothing there (or not sampling opacity): take the color as it appears on the paper
+  return { color: toHexColor(flattenOnPaper(sample, paper)), opacity: undefined };
+};
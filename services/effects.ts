@@ -0,0 +1,386 @@
+import { BrushPreset, EffectRun, FrameLayer } from '../types';
+import { renderLayers } from './compositing';
+import { createRandom, Random } from './random';
+
+// Procedural animations made from a drawing. Every effect works on transparent pixels (the
+// frame's layers without the paper) and returns a run of new frames of the same size.
+// Parameters are relative to the picture size, so a small preview looks like the real thing.
+
+export interface EffectParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  default: number;
+  unit?: string; // Shown after the value
+}
+
+export interface EffectInput {
+  frames: ImageData[]; // The drawing, plus the next frame for effects that use it
+  params: Record<string, number>;
+  frameCount: number;
+  random: Random;
+}
+
+export interface Effect {
+  id: string;
+  name: string;
+  description: string;
+  params: EffectParam[];
+  defaultFrameCount: number;
+  usesNextFrame?: boolean; // Ends on the following frame when there is one
+  // Returns a function drawing frame i. Frames are asked for in order, so effects can simulate step by step.
+  createRenderer: (input: EffectInput) => (index: number) => ImageData;
+}
+
+export const MIN_EFFECT_FRAMES = 4;
+export const MAX_EFFECT_FRAMES = 48;
+
+// --- Helpers ---
+
+const createSurface = (width: number, height: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  return { canvas, ctx: canvas.getContext('2d', { willReadFrequently: true })! };
+};
+
+const toSurface = (image: ImageData) => {
+  const surface = createSurface(image.width, image.height);
+  surface.ctx.putImageData(image, 0, 0);
+  return surface.canvas;
+};
+
+// 0 at the first frame's start, 1 on the last frame
+const progress = (index: number, frameCount: number) => (index + 1) / frameCount;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+/** Alpha-weighted middle of the drawing, or the canvas centre when it's empty */
+const findCentre = (image: ImageData) => {
+  const { width, height, data } = image;
+  let sx = 0, sy = 0, total = 0;
+  for (let y = 0; y < height; y += 2) {
+    for (let x = 0; x < width; x += 2) {
+      const a = data[(y * width + x) * 4 + 3];
+      sx += x * a;
+      sy += y * a;
+      total += a;
+    }
+  }
+  return total > 0 ? { x: sx / total, y: sy / total } : { x: width / 2, y: height / 2 };
+};
+
+interface Placement {
+  x?: number; // Offset in pixels
+  y?: number;
+  scaleX?: number;
+  scaleY?: number;
+  rotation?: number; // Radians
+  alpha?: number;
+  originX?: number; // Point the scale and rotation happen around
+  originY?: number;
+}
+
+/** The whole picture moved, scaled and turned as one */
+const placeFrame = (source: OffscreenCanvas, placement: Placement) => {
+  const { width, height } = source;
+  const { x = 0, y = 0, scaleX = 1, scaleY = 1, rotation = 0, alpha = 1, originX = width / 2, originY = height / 2 } = placement;
+  const { ctx } = createSurface(width, height);
+  ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
+  ctx.translate(originX + x, originY + y);
+  ctx.rotate(rotation);
+  ctx.scale(scaleX, scaleY);
+  ctx.drawImage(source, -originX, -originY);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+// --- Effects ---
+
+const melt: Effect = {
+  id: 'melt',
+  name: 'Melt',
+  description: 'Drips down the page',
+  defaultFrameCount: 20,
+  params: [
+    { key: 'gravity', label: 'Gravity', min: 20, max: 200, default: 100, unit: '%' },
+    { key: 'drips', label: 'Drips', min: 0, max: 20, default: 4, unit: '%' }
+  ],
+  createRenderer: ({ frames: [source], params, random }) => {
+    const { width, height } = source;
+    const unit = height / 600; // Speeds were tuned on a 600px tall canvas
+    const gravity = params.gravity / 100;
+    const yOffsets = new Float32Array(width);
+    const velocities = new Float32Array(width);
+
+    // Some columns start as fast drips, the rest melt slowly
+    for (let x = 0; x < width; x++) {
+      velocities[x] = random() < params.drips / 100 ? (random() * 8 + 4) * unit : random() * 2 * unit;
+    }
+
+    return () => {
+      const frame = new ImageData(width, height);
+      for (let x = 0; x < width; x++) {
+        velocities[x] += (0.8 + random() * 0.5) * unit * gravity;
+
+        // Viscosity: follow the neighbours so it melts in globs rather than noise
+        if (x > 1 && x < width - 2) {
+          const avgVel = (velocities[x - 1] + velocities[x] + velocities[x + 1]) / 3;
+          velocities[x] = velocities[x] * 0.7 + avgVel * 0.3;
+          const avgOffset = (yOffsets[x - 1] + yOffsets[x] + yOffsets[x + 1]) / 3;
+          yOffsets[x] = yOffsets[x] * 0.9 + avgOffset * 0.1;
+        }
+
+        yOffsets[x] += velocities[x];
+        const offset = Math.floor(yOffsets[x]);
+        for (let y = 0; y + offset < height; y++) {
+          const from = (y * width + x) * 4;
+          const to = ((y + offset) * width + x) * 4;
+          frame.data[to] = source.data[from];
+          frame.data[to + 1] = source.data[from + 1];
+          frame.data[to + 2] = source.data[from + 2];
+          frame.data[to + 3] = source.data[from + 3];
+        }
+      }
+      return frame;
+    };
+  }
+};
+
+const explode: Effect = {
+  id: 'explode',
+  name: 'Explode',
+  description: 'Bursts into flying pieces',
+  defaultFrameCount: 16,
+  params: [
+    { key: 'force', label: 'Force', min: 10, max: 200, default: 100, unit: '%' },
+    { key: 'pieceSize', label: 'Piece Size', min: 1, max: 8, default: 2, unit: '%' },
+    { key: 'gravity', label: 'Gravity', min: 0, max: 200, default: 60, unit: '%' }
+  ],
+  createRenderer: ({ frames: [source], params, frameCount, random }) => {
+    const { width, height, data } = source;
+    const image = toSurface(source);
+    const unit = Math.min(width, height) / 600;
+    const size = Math.max(2, Math.round(Math.min(width, height) * params.pieceSize / 100));
+    const centre = findCentre(source);
+
+    const pieces: { sx: number; sy: number; x: number; y: number; vx: number; vy: number; angle: number; spin: number }[] = [];
+    for (let sy = 0; sy < height; sy += size) {
+      for (let sx = 0; sx < width; sx += size) {
+        // Skip empty squares, checking a few pixels rather than all of them
+        let filled = false;
+        for (let y = sy; y < Math.min(height, sy + size) && !filled; y += 2) {
+          for (let x = sx; x < Math.min(width, sx + size) && !filled; x += 2) {
+            if (data[(y * width + x) * 4 + 3] > 0) filled = true;
+          }
+        }
+        if (!filled) continue;
+
+        const dx = sx + size / 2 - centre.x;
+        const dy = sy + size / 2 - centre.y;
+        const distance = Math.max(1, Math.hypot(dx, dy));
+        const speed = (6 + random() * 10) * unit * params.force / 100;
+        pieces.push({
+          sx, sy, x: sx, y: sy,
+          vx: dx / distance * speed + (random() - 0.5) * 4 * unit,
+          vy: dy / distance * speed - random() * 6 * unit,
+          angle: 0,
+          spin: (random() - 0.5) * 0.6
+        });
+      }
+    }
+
+    return (index) => {
+      const { ctx } = createSurface(width, height);
+      ctx.globalAlpha = 1 - Math.pow(progress(index, frameCount), 3);
+      pieces.forEach(p => {
+        p.x += p.vx;
+        p.y += p.vy;
+        p.vy += 1.2 * unit * params.gravity / 100;
+        p.angle += p.spin;
+        ctx.setTransform(1, 0, 0, 1, p.x + size / 2, p.y + size / 2);
+        ctx.rotate(p.angle);
+        ctx.drawImage(image, p.sx, p.sy, size, size, -size / 2, -size / 2, size, size);
+      });
+      return ctx.getImageData(0, 0, width, height);
+    };
+  }
+};
+
+const wave: Effect = {
+  id: 'wave',
+  name: 'Wave',
+  description: 'Wobbles like a flag, loops smoothly',
+  defaultFrameCount: 12,
+  params: [
+    { key: 'amplitude', label: 'Wobble', min: 1, max: 10, default: 3, unit: '%' },
+    { key: 'waves', label: 'Waves', min: 1, max: 8, default: 2 },
+    { key: 'loops', label: 'Loops', min: 1, max: 4, default: 1 }
+  ],
+  createRenderer: ({ frames: [source], params, frameCount }) => {
+    const { width, height } = source;
+    const image = toSurface(source);
+    const amplitude = width * params.amplitude / 100;
+
+    return (index) => {
+      // Phase runs 0 to `loops` turns, so the last frame leads straight back into the first
+      const phase = index / frameCount * params.loops * Math.PI * 2;
+      const { ctx } = createSurface(width, height);
+      for (let y = 0; y < height; y++) {
+        const dx = amplitude * Math.sin(y / height * params.waves * Math.PI * 2 + phase);
+        ctx.drawImage(image, 0, y, width, 1, dx, y, width, 1);
+      }
+      return ctx.getImageData(0, 0, width, height);
+    };
+  }
+};
+
+const dissolve: Effect = {
+  id: 'dissolve',
+  name: 'Dissolve',
+  description: 'Crumbles away, into the next frame if there is one',
+  defaultFrameCount: 12,
+  usesNextFrame: true,
+  params: [
+    { key: 'grain', label: 'Grain', min: 0, max: 5, default: 1, unit: '%' }
+  ],
+  createRenderer: ({ frames: [source, next], params, frameCount, random }) => {
+    const { width, height } = source;
+    const grain = Math.max(1, Math.round(Math.min(width, height) * params.grain / 100));
+    const cols = Math.ceil(width / grain);
+    const rows = Math.ceil(height / grain);
+    // The moment each grain disappears
+    const thresholds = new Float32Array(cols * rows);
+    for (let i = 0; i < thresholds.length; i++) thresholds[i] = random();
+
+    return (index) => {
+      const t = progress(index, frameCount);
+      const frame = new ImageData(width, height);
+      for (let y = 0; y < height; y++) {
+        const row = Math.floor(y / grain) * cols;
+        for (let x = 0; x < width; x++) {
+          const from = thresholds[row + Math.floor(x / grain)] >= t ? source : next;
+          if (!from) continue;
+          const p = (y * width + x) * 4;
+          frame.data[p] = from.data[p];
+          frame.data[p + 1] = from.data[p + 1];
+          frame.data[p + 2] = from.data[p + 2];
+          frame.data[p + 3] = from.data[p + 3];
+        }
+      }
+      return frame;
+    };
+  }
+};
+
+const spinIn: Effect = {
+  id: 'spin-in',
+  name: 'Spin In',
+  description: 'Twirls in from nothing',
+  defaultFrameCount: 12,
+  params: [
+    { key: 'turns', label: 'Turns', min: -3, max: 3, default: 1 }
+  ],
+  createRenderer: ({ frames: [source], params, frameCount }) => {
+    const image = toSurface(source);
+    const centre = findCentre(source);
+    return (index) => {
+      const t = progress(index, frameCount);
+      const eased = easeOutCubic(t);
+      return placeFrame(image, {
+        scaleX: eased,
+        scaleY: eased,
+        rotation: (1 - eased) * params.turns * Math.PI * 2,
+        alpha: t * 2,
+        originX: centre.x,
+        originY: centre.y
+      });
+    };
+  }
+};
+
+const bounce: Effect = {
+  id: 'bounce',
+  name: 'Bounce',
+  description: 'Drops in and bounces to a stop',
+  defaultFrameCount: 20,
+  params: [
+    { key: 'height', label: 'Drop Height', min: 10, max: 100, default: 50, unit: '%' },
+    { key: 'bounces', label: 'Bounces', min: 1, max: 4, default: 2 },
+    { key: 'squash', label: 'Squash', min: 0, max: 50, default: 20, unit: '%' }
+  ],
+  createRenderer: ({ frames: [source], params, frameCount }) => {
+    const image = toSurface(source);
+    const { width, height } = source;
+    const drop = height * params.height / 100;
+    return (index) => {
+      const t = progress(index, frameCount);
+      // |cos| gives a hop between each ground contact; the last contact lands on the last frame
+      const hop = Math.abs(Math.cos(Math.PI * (params.bounces + 0.5) * t));
+      const lift = hop * (1 - t) * (1 - t);
+      // Squash only while touching down, easing off as it settles
+      const squash = params.squash / 100 * Math.max(0, 1 - lift * 10) * (1 - t);
+      return placeFrame(image, {
+        y: -drop * lift,
+        scaleX: 1 + squash / 2,
+        scaleY: 1 - squash,
+        originX: width / 2,
+        originY: height
+      });
+    };
+  }
+};
+
+const shake: Effect = {
+  id: 'shake',
+  name: 'Shake',
+  description: 'Rattles in place',
+  defaultFrameCount: 10,
+  params: [
+    { key: 'intensity', label: 'Intensity', min: 1, max: 10, default: 2, unit: '%' },
+    { key: 'fade', label: 'Settle', min: 0, max: 100, default: 50, unit: '%' }
+  ],
+  createRenderer: ({ frames: [source], params, frameCount, random }) => {
+    const image = toSurface(source);
+    const reach = Math.min(source.width, source.height) * params.intensity / 100;
+    return (index) => {
+      const strength = 1 - params.fade / 100 * index / Math.max(1, frameCount - 1);
+      return placeFrame(image, {
+        x: (random() - 0.5) * 2 * reach * strength,
+        y: (random() - 0.5) * 2 * reach * strength,
+        rotation: (random() - 0.5) * params.intensity * 0.02 * strength
+      });
+    };
+  }
+};
+
+export const EFFECTS: Effect[] = [melt, explode, wave, dissolve, spinIn, bounce, shake];
+
+export const getEffect = (id: string) => EFFECTS.find(e => e.id === id);
+
+export const getDefaultParams = (effect: Effect): Record<string, number> =>
+  Object.fromEntries(effect.params.map(p => [p.key, p.default]));
+
+/** Renders all frames of a run. The same run and inputs always give identical pixels. */
+export const runEffect = (run: EffectRun, inputs: ImageData[], onProgress?: (progress: number) => void): ImageData[] => {
+  const effect = getEffect(run.effect);
+  if (!effect || inputs.length === 0) return [];
+  const frameCount = run.frameCount ?? effect.defaultFrameCount;
+  const render = effect.createRenderer({
+    frames: inputs,
+    params: { ...getDefaultParams(effect), ...run.params },
+    frameCount,
+    random: createRandom(run.seed)
+  });
+  return Array.from({ length: frameCount }, (_, i) => {
+    const frame = render(i);
+    onProgress?.((i + 1) / frameCount);
+    return frame;
+  });
+};
+
+/** A frame's visible layers without the paper, optionally scaled down for previews */
+export const renderEffectInput = async (layers: FrameLayer[], width: number, height: number, brushes: BrushPreset[], scale = 1): Promise<ImageData> => {
+  const full = await renderLayers(layers, width, height, brushes);
+  const { ctx } = createSurface(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  ctx.drawImage(full, 0, 0, ctx.canvas.width, ctx.canvas.height);
+  return ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+};
@@ -0,0 +1,216 @@
+import { FillSettings } from '../types';
+
+// Paint bucket region finding. Works on raw RGBA buffers so the same code can sample the
+// active layer or a merged image of all layers while painting onto the active layer.
+
+export const DEFAULT_FILL_SETTINGS: FillSettings = {
+  tolerance: 15,
+  expand: 1,
+  gapClosing: 0,
+  sampleMerged: false
+};
+
+export const MAX_FILL_EXPAND = 5;
+export const MAX_GAP_CLOSING = 10;
+
+/** Chamfer (3-4) distance of every pixel to the nearest set pixel in `mask`, in 1/3 px units */
+const distanceTransform = (mask: Uint8Array, width: number, height: number) => {
+  const INF = 1 << 30;
+  const dist = new Int32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = mask[i] ? 0 : INF;
+
+  // Forward pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x > 0) d = Math.min(d, dist[i - 1] + 3);
+      if (y > 0) {
+        d = Math.min(d, dist[i - width] + 3);
+        if (x > 0) d = Math.min(d, dist[i - width - 1] + 4);
+        if (x < width - 1) d = Math.min(d, dist[i - width + 1] + 4);
+      }
+      dist[i] = d;
+    }
+  }
+  // Backward pass
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      let d = dist[i];
+      if (d === 0) continue;
+      if (x < width - 1) d = Math.min(d, dist[i + 1] + 3);
+      if (y < height - 1) {
+        d = Math.min(d, dist[i + width] + 3);
+        if (x < width - 1) d = Math.min(d, dist[i + width + 1] + 4);
+        if (x > 0) d = Math.min(d, dist[i + width - 1] + 4);
+      }
+      dist[i] = d;
+    }
+  }
+  return dist;
+};
+
+const dilate = (mask: Uint8Array, width: number, height: number, radius: number) => {
+  const dist = distanceTransform(mask, width, height);
+  const limit = radius * 3;
+  const result = new Uint8Array(mask.length);
+  for (let i = 0; i < result.length; i++) result[i] = dist[i] <= limit ? 1 : 0;
+  return result;
+};
+
+const erode = (mask: Uint8Array, width: number, height: number, radius: number) => {
+  const inverted = new Uint8Array(mask.length);
+  for (let i = 0; i < mask.length; i++) inverted[i] = mask[i] ? 0 : 1;
+  const grown = dilate(inverted, width, height, radius);
+  for (let i = 0; i < grown.length; i++) grown[i] = grown[i] ? 0 : 1;
+  return grown;
+};
+
+/** 4-connected region of `allowed` pixels reachable from the seed */
+const floodRegion = (allowed: Uint8Array, width: number, seed: number) => {
+  const region = new Uint8Array(allowed.length);
+  if (!allowed[seed]) return region;
+
+  const stack = new Int32Array(allowed.length);
+  let top = 0;
+  stack[top++] = seed;
+  region[seed] = 1;
+
+  const visit = (n: number) => {
+    if (allowed[n] && !region[n]) {
+      region[n] = 1;
+      stack[top++] = n;
+    }
+  };
+
+  while (top > 0) {
+    const i = stack[--top];
+    const x = i % width;
+    if (x > 0) visit(i - 1);
+    if (x < width - 1) visit(i + 1);
+    if (i >= width) visit(i - width);
+    if (i < allowed.length - width) visit(i + width);
+  }
+  return region;
+};
+
+/** Grows `region` by up to `steps` pixels, but only through `allowed` pixels */
+const growWithin = (region: Uint8Array, allowed: Uint8Array, width: number, steps: number) => {
+  const result = region.slice();
+  let frontier: number[] = [];
+  for (let i = 0; i < result.length; i++) if (result[i]) frontier.push(i);
+
+  for (let step = 0; step < steps && frontier.length > 0; step++) {
+    const next: number[] = [];
+    const visit = (n: number) => {
+      if (allowed[n] && !result[n]) {
+        result[n] = 1;
+        next.push(n);
+      }
+    };
+    for (const i of frontier) {
+      const x = i % width;
+      if (x > 0) visit(i - 1);
+      if (x < width - 1) visit(i + 1);
+      if (i >= width) visit(i - width);
+      if (i < result.length - width) visit(i + width);
+    }
+    frontier = next;
+  }
+  return result;
+};
+
+/**
+ * Pixels to paint when filling at (x, y). `sample` decides the region (the active layer or
+ * all layers merged). In the result, 1 marks pixels to fill and 2 pixels to fill behind.
+ * `onProgress` is called after each pass over the pixels.
+ */
+export const computeFillMask = (
+  sample: ImageData,
+  startX: number,
+  startY: number,
+  settings: FillSettings,
+  onProgress?: (progress: number) => void
+): Uint8Array | null => {
+  const { width, height, data } = sample;
+  if (startX < 0 || startY < 0 || startX >= width || startY >= height) return null;
+
+  const seed = startY * width + startX;
+  const start = seed * 4;
+  const [sr, sg, sb, sa] = [data[start], data[start + 1], data[start + 2], data[start + 3]];
+  // Tolerance is a percentage of the largest per-channel difference
+  const threshold = Math.round(settings.tolerance * 2.55);
+
+  const matches = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < matches.length; i++, p += 4) {
+    // Fully transparent pixels count as the same color whatever their RGB
+    const bothClear = sa === 0 && data[p + 3] === 0;
+    matches[i] = bothClear || (
+      Math.abs(data[p] - sr) <= threshold &&
+      Math.abs(data[p + 1] - sg) <= threshold &&
+      Math.abs(data[p + 2] - sb) <= threshold &&
+      Math.abs(data[p + 3] - sa) <= threshold
+    ) ? 1 : 0;
+  }
+  onProgress?.(0.25);
+
+  let region: Uint8Array | null = null;
+
+  if (settings.gapClosing > 0) {
+    // Thicken the lines so small breaks are sealed, fill, then grow the result back out
+    // to the real lines. Growing is limited to the gap radius, so it can't leak through.
+    const lines = new Uint8Array(matches.length);
+    for (let i = 0; i < matches.length; i++) lines[i] = matches[i] ? 0 : 1;
+    const sealed = dilate(lines, width, height, settings.gapClosing);
+    if (!sealed[seed]) {
+      const open = new Uint8Array(matches.length);
+      for (let i = 0; i < open.length; i++) open[i] = sealed[i] ? 0 : 1;
+      region = growWithin(floodRegion(open, width, seed), matches, width, settings.gapClosing + 1);
+    }
+    // Clicked inside a spot narrower than the gap size: fall back to a plain fill
+  }
+  onProgress?.(0.5);
+
+  if (!region) region = floodRegion(matches, width, seed);
+  onProgress?.(0.75);
+
+  if (settings.expand > 0) {
+    // Mark the grown ring separately: it's painted underneath, so it tucks the fill under
+    // antialiased line edges without eating into the lines themselves
+    const grown = dilate(region, width, height, settings.expand);
+    for (let i = 0; i < grown.length; i++) {
+      if (grown[i] && !region[i]) grown[i] = 2;
+    }
+    region = grown;
+  } else if (settings.expand < 0) {
+    region = erode(region, width, height, -settings.expand);
+  }
+  onProgress?.(1);
+
+  return region;
+};
+
+/** Paints `color` at `opacity` into the masked pixels of `target` */
+export const applyFillMask = (target: ImageData, mask: Uint8Array, color: string, opacity = 1) => {
+  const fill = [
+    parseInt(color.slice(1, 3), 16),
+    parseInt(color.slice(3, 5), 16),
+    parseInt(color.slice(5, 7), 16)
+  ];
+  const data = target.data;
+  for (let i = 0, p = 0; i < mask.length; i++, p += 4) {
+    if (!mask[i]) continue;
+    const existing = data[p + 3] / 255;
+    // 1: fill over the existing pixel, 2: existing pixel over the fill
+    const [topA, bottomA] = mask[i] === 2 ? [existing, opacity] : [opacity, existing];
+    const outA = topA + bottomA * (1 - topA);
+    if (outA === 0) continue;
+    for (let c = 0; c < 3; c++) {
+      const [top, bottom] = mask[i] === 2 ? [data[p + c], fill[c]] : [fill[c], data[p + c]];
+      data[p + c] = Math.round((top * topA + bottom * bottomA * (1 - topA)) / outA);
+    }
+    data[p + 3] = Math.round(outA * 255);
+  }
+};
@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Frame } from '../types';
+
+// Pure timeline edits on a list of frames. Selections are given as frame ids so they
+// survive reordering; every function returns a new array and leaves the input untouched.
+
+/** Copies frames with fresh ids, e.g. for duplicating or pasting them elsewhere */
+export const cloneFrames = (frames: Frame[]): Frame[] =>
+  frames.map(frame => ({
+    ...frame,
+    id: uuidv4(),
+    // Layer ids stay the same: they identify the layer across all frames of the project
+    layers: frame.layers.map(layer => (
+      layer.objects ? { ...layer, objects: layer.objects.map(obj => ({ ...obj, id: uuidv4() })) } : layer
+    ))
+  }));
+
+/** Frames of the selection, in timeline order */
+export const getSelectedFrames = (frames: Frame[], ids: string[]) => {
+  const selected = new Set(ids);
+  return frames.filter(f => selected.has(f.id));
+};
+
+/** Removes the selected frames, always keeping at least one frame */
+export const deleteFrames = (frames: Frame[], ids: string[]): Frame[] => {
+  const selected = new Set(ids);
+  const remaining = frames.filter(f => !selected.has(f.id));
+  return remaining.length > 0 ? remaining : frames;
+};
+
+/** Inserts frames before position `index` */
+export const insertFrames = (frames: Frame[], index: number, inserted: Frame[]): Frame[] => {
+  const result = [...frames];
+  result.splice(Math.max(0, Math.min(index, frames.length)), 0, ...inserted);
+  return result;
+};
+
+/** Duplicates the selection as one block right after its last frame */
+export const duplicateFrames = (frames: Frame[], ids: string[]) => {
+  const selected = getSelectedFrames(frames, ids);
+  if (selected.length === 0) return { frames, inserted: [] as Frame[] };
+
+  const copies = cloneFrames(selected);
+  const lastIndex = frames.indexOf(selected[selected.length - 1]);
+  return { frames: insertFrames(frames, lastIndex + 1, copies), inserted: copies };
+};
+
+/** Reverses the order of the selected frames within the positions they occupy */
+export const reverseFrames = (frames: Frame[], ids: string[]): Frame[] => {
+  const selected = new Set(ids);
+  const reversed = frames.filter(f => selected.has(f.id)).reverse();
+  let next = 0;
+  return frames.map(f => (selected.has(f.id) ? reversed[next++] : f));
+};
+
+/**
+ * Moves the selection as one block so it lands before the frame currently at `targetIndex`
+ * (`frames.length` = end). Used for drag and drop.
+ */
+export const moveFrames = (frames: Frame[], ids: string[], targetIndex: number): Frame[] => {
+  const selected = new Set(ids);
+  const moving = frames.filter(f => selected.has(f.id));
+  if (moving.length === 0) return frames;
+
+  // Target position counted among the frames that stay
+  const insertAt = frames.slice(0, targetIndex).filter(f => !selected.has(f.id)).length;
+  const remaining = frames.filter(f => !selected.has(f.id));
+  return insertFrames(remaining, insertAt, moving);
+};
+
+/** Shifts the selection one step left (-1) or right (+1) */
+export const nudgeFrames = (frames: Frame[], ids: string[], direction: -1 | 1): Frame[] => {
+  const selected = new Set(ids);
+  const indices = frames.map((f, i) => (selected.has(f.id) ? i : -1)).filter(i => i !== -1);
+  if (indices.length === 0) return frames;
+
+  if (direction === -1) {
+    if (indices[0] === 0) return frames;
+    return moveFrames(frames, ids, indices[0] - 1);
+  }
+  const last = indices[indices.length - 1];
+  if (last === frames.length - 1) return frames;
+  return moveFrames(frames, ids, last + 2);
+};
+
+/** Frame ids between two indices (inclusive), for shift-click range selection */
+export const getFrameRange = (frames: Frame[], fromIndex: number, toIndex: number) => {
+  const start = Math.min(fromIndex, toIndex);
+  const end = Math.max(fromIndex, toIndex);
+  return frames.slice(start, end + 1).map(f => f.id);
+};
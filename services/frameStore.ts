@@ -0,0 +1,226 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ImageHandle } from '../types';
+
+// Pixels of frame composites and layers. Frames only carry handles; the image behind a handle
+// is kept as a decoded ImageBitmap (ready to draw) and/or an encoded PNG Blob (compact, what gets
+// saved). Bitmaps are cached up to a memory budget and decoded again from the PNG when needed.
+// PNGs are only encoded when a project is saved or exported. Images never change, so neither
+// form ever goes stale.
+
+interface StoredImage {
+  bitmap: ImageBitmap | null;
+  blob: Blob | null;
+  decoding: Promise<ImageBitmap> | null;
+  encoding: Promise<Blob> | null;
+  thumbnail: Promise<{ blob: Blob; url: string }> | null;
+}
+
+// ~100 full HD bitmaps. Images that were never encoded can't be dropped, so they don't count.
+const MAX_DECODED_BYTES = 384 * 1024 * 1024;
+export const THUMBNAIL_WIDTH = 160;
+
+const images = new WeakMap<ImageHandle, StoredImage>();
+// Decoded images that also have a PNG, least recently used first
+const decoded = new Map<StoredImage, number>();
+let decodedBytes = 0;
+
+// Free what a handle held once nothing references it any more
+const cleanup = new FinalizationRegistry<StoredImage>(image => {
+  forgetDecoded(image);
+  image.bitmap?.close();
+  image.thumbnail?.then(({ url }) => URL.revokeObjectURL(url)).catch(() => {});
+});
+
+const bitmapBytes = (bitmap: ImageBitmap) => bitmap.width * bitmap.height * 4;
+
+const forgetDecoded = (image: StoredImage) => {
+  const bytes = decoded.get(image);
+  if (bytes === undefined) return;
+  decoded.delete(image);
+  decodedBytes -= bytes;
+};
+
+// Marks a bitmap as recently used and drops the oldest ones over budget
+const touch = (image: StoredImage) => {
+  if (!image.bitmap || !image.blob) return;
+  forgetDecoded(image);
+  const bytes = bitmapBytes(image.bitmap);
+  decoded.set(image, bytes);
+  decodedBytes += bytes;
+
+  for (const [oldest] of decoded) {
+    if (decodedBytes <= MAX_DECODED_BYTES || oldest === image) break;
+    forgetDecoded(oldest);
+    oldest.bitmap?.close();
+    oldest.bitmap = null;
+  }
+};
+
+const register = (image: StoredImage): ImageHandle => {
+  const handle: ImageHandle = { id: uuidv4() };
+  images.set(handle, image);
+  cleanup.register(handle, image);
+  return handle;
+};
+
+const lookup = (handle: ImageHandle) => {
+  const image = images.get(handle);
+  if (!image) throw new Error("Unknown image");
+  return image;
+};
+
+const snapshot = (source: HTMLCanvasElement | OffscreenCanvas) => {
+  const copy = new OffscreenCanvas(source.width, source.height);
+  copy.getContext('2d')!.drawImage(source, 0, 0);
+  return copy.transferToImageBitmap();
+};
+
+/** Stores a copy of what's on the canvas right now. A bitmap is taken over as is (don't close it). */
+export const createImage = (source: HTMLCanvasElement | OffscreenCanvas | ImageBitmap): ImageHandle =>
+  register({
+    bitmap: source instanceof ImageBitmap ? source : snapshot(source),
+    blob: null,
+    decoding: null,
+    encoding: null,
+    thumbnail: null
+  });
+
+/** Image from an encoded file, decoded the first time it's drawn */
+export const createImageFromBlob = (blob: Blob): ImageHandle =>
+  register({ bitmap: null, blob, decoding: null, encoding: null, thumbnail: null });
+
+const blankImages = new Map<string, ImageHandle>();
+
+/** Shared empty (or solid `fill`) image of a size, e.g. for new layers and white composites */
+export const getBlankImage = (width: number, height: number, fill?: string): ImageHandle => {
+  const key = `${width}x${height}:${fill || ''}`;
+  let handle = blankImages.get(key);
+  if (!handle) {
+    const canvas = new OffscreenCanvas(width, height);
+    if (fill) {
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = fill;
+      ctx.fillRect(0, 0, width, height);
+    }
+    handle = createImage(canvas.transferToImageBitmap());
+    blankImages.set(key, handle);
+  }
+  return handle;
+};
+
+/** The decoded image if it's in memory, so it can be drawn without waiting */
+export const peekBitmap = (handle: ImageHandle): ImageBitmap | null => {
+  const image = lookup(handle);
+  if (image.bitmap) touch(image);
+  return image.bitmap;
+};
+
+/** The image ready to draw. Don't close it; the store does that. */
+export const getBitmap = (handle: ImageHandle): Promise<ImageBitmap> => {
+  const image = lookup(handle);
+  if (image.bitmap) {
+    touch(image);
+    return Promise.resolve(image.bitmap);
+  }
+  if (!image.decoding) {
+    image.decoding = createImageBitmap(image.blob!)
+      .then(bitmap => {
+        image.bitmap = bitmap;
+        touch(image);
+        return bitmap;
+      })
+      .finally(() => {
+        image.decoding = null;
+      });
+  }
+  return image.decoding;
+};
+
+/** A separate bitmap the caller owns and closes, for holding on to many images at once (e.g. recording) */
+export const decodeImage = (handle: ImageHandle, options?: ImageBitmapOptions): Promise<ImageBitmap> => {
+  const image = lookup(handle);
+  return createImageBitmap(image.bitmap || image.blob!, options);
+};
+
+/** The image as a PNG, encoded on first use */
+export const getBlob = (handle: ImageHandle): Promise<Blob> => {
+  const image = lookup(handle);
+  if (image.blob) return Promise.resolve(image.blob);
+  if (!image.encoding) {
+    const bitmap = image.bitmap!;
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+    image.encoding = canvas.convertToBlob({ type: 'image/png' })
+      .then(blob => {
+        image.blob = blob;
+        // Now it can be decoded again, so the bitmap may be dropped to save memory
+        touch(image);
+        return blob;
+      })
+      .finally(() => {
+        image.encoding = null;
+      });
+  }
+  return image.encoding;
+};
+
+/** Rough memory an image holds, in bytes: the PNG once there is one, otherwise the pixels */
+export const getImageSize = (handle: ImageHandle) => {
+  const image = images.get(handle);
+  if (!image) return 0;
+  if (image.blob) return image.blob.size;
+  return image.bitmap ? bitmapBytes(image.bitmap) : 0;
+};
+
+const getThumbnailEntry = (handle: ImageHandle) => {
+  const image = lookup(handle);
+  if (!image.thumbnail) {
+    // Scale straight from the PNG when the full image isn't decoded, without caching it
+    const source = image.bitmap || image.blob!;
+    const width = image.bitmap ? Math.min(THUMBNAIL_WIDTH, image.bitmap.width) : THUMBNAIL_WIDTH;
+    image.thumbnail = createImageBitmap(source, { resizeWidth: width, resizeQuality: 'medium' })
+      .then(small => {
+        const canvas = new OffscreenCanvas(small.width, small.height);
+        canvas.getContext('2d')!.drawImage(small, 0, 0);
+        small.close();
+        return canvas.convertToBlob({ type: 'image/png' });
+      })
+      .then(blob => ({ blob, url: URL.createObjectURL(blob) }));
+    image.thumbnail.catch(() => {
+      image.thumbnail = null;
+    });
+  }
+  return image.thumbnail;
+};
+
+/** Object URL of a small version of the image, for the timeline, layer list and home screen */
+export const getThumbnailUrl = async (handle: ImageHandle) => (await getThumbnailEntry(handle)).url;
+
+/** The small version as a PNG, which is all a project list needs to store */
+export const getThumbnailBlob = async (handle: ImageHandle) => (await getThumbnailEntry(handle)).blob;
+
+// --- Data URL conversion, for older saves and services that take base64 ---
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, base64 = ''] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?)(;|$)/)?.[1] || 'image/png';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const createImageFromDataUrl = (dataUrl: string) => createImageFromBlob(dataUrlToBlob(dataUrl));
+
+export const imageToDataUrl = async (handle: ImageHandle) => blobToDataUrl(await getBlob(handle));
@@ -0,0 +1,28 @@
+import { Frame } from '../types';
+
+// Frame timing helpers. A frame's `duration` counts exposures: how many ticks of the
+// project fps it stays on screen (1 = "on ones", 2 = "on twos", ...).
+
+export const MAX_FRAME_DURATION = 24;
+
+export const getFrameDuration = (frame: Frame) =>
+  Math.min(MAX_FRAME_DURATION, Math.max(1, Math.round(frame.duration ?? 1)));
+
+export const getFrameDelayMs = (frame: Frame, fps: number) => getFrameDuration(frame) * 1000 / fps;
+
+export const getTotalExposures = (frames: Frame[]) =>
+  frames.reduce((sum, frame) => sum + getFrameDuration(frame), 0);
+
+/** Exposure offset of each frame from the start of the animation */
+export const getFrameStartExposures = (frames: Frame[]) => {
+  let start = 0;
+  return frames.map(frame => {
+    const current = start;
+    start += getFrameDuration(frame);
+    return current;
+  });
+};
+
+/** Frame indices in display order, one entry per exposure (for exporters that need a constant frame rate) */
+export const expandExposures = (frames: Frame[]) =>
+  frames.flatMap((frame, index) => Array<number>(getFrameDuration(frame)).fill(index));
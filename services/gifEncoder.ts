@@ -0,0 +1,354 @@
+// Minimal GIF89a encoder: median-cut palette quantization, optional dithering,
+// LZW compression and NETSCAPE looping. Runs on raw RGBA pixels so it has no DOM dependency.
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+
+export interface GifEncodeOptions {
+  width: number;
+  height: number;
+  loop: number; // 0 = loop forever, n = play n times
+  dither: DitherMode;
+  maxColors: number; // 2..256
+  paletteMode: 'global' | 'per-frame';
+}
+
+export interface GifFrameInput {
+  pixels: Uint8ClampedArray; // RGBA, width * height * 4
+  delayCs: number; // Frame delay in 1/100 s
+}
+
+type Palette = number[][]; // [[r, g, b], ...]
+
+// --- Palette Quantization (median cut) ---
+
+const MAX_SAMPLES = 60000;
+
+const samplePixels = (sources: Uint8ClampedArray[]): number[][] => {
+  const total = sources.reduce((sum, p) => sum + p.length / 4, 0);
+  const step = Math.max(1, Math.floor(total / MAX_SAMPLES));
+  const samples: number[][] = [];
+  sources.forEach(pixels => {
+    for (let i = 0; i < pixels.length; i += 4 * step) {
+      samples.push([pixels[i], pixels[i + 1], pixels[i + 2]]);
+    }
+  });
+  return samples;
+};
+
+const buildPalette = (sources: Uint8ClampedArray[], maxColors: number): Palette => {
+  const samples = samplePixels(sources);
+  if (samples.length === 0) return [[0, 0, 0], [255, 255, 255]];
+
+  let boxes: number[][][] = [samples];
+
+  while (boxes.length < maxColors) {
+    // Split the box with the widest channel range
+    let bestBox = -1;
+    let bestChannel = 0;
+    let bestRange = 0;
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255, max = 0;
+        for (const px of box) {
+          if (px[c] < min) min = px[c];
+          if (px[c] > max) max = px[c];
+        }
+        if (max - min > bestRange) {
+          bestRange = max - min;
+          bestBox = index;
+          bestChannel = c;
+        }
+      }
+    });
+    if (bestBox === -1) break;
+
+    const box = boxes[bestBox].sort((a, b) => a[bestChannel] - b[bestChannel]);
+    const mid = box.length >> 1;
+    boxes.splice(bestBox, 1, box.slice(0, mid), box.slice(mid));
+  }
+
+  return boxes.map(box => {
+    const sum = [0, 0, 0];
+    box.forEach(px => { sum[0] += px[0]; sum[1] += px[1]; sum[2] += px[2]; });
+    return sum.map(v => Math.round(v / box.length));
+  });
+};
+
+// Nearest palette entry lookup, cached on 5 bits per channel
+const createColorMapper = (palette: Palette) => {
+  const cache = new Int16Array(32768).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    const cached = cache[key];
+    if (cached !== -1) return cached;
+
+    let best = 0;
+    let bestDist = Infinity;
+    for (let i = 0; i < palette.length; i++) {
+      const dr = palette[i][0] - r;
+      const dg = palette[i][1] - g;
+      const db = palette[i][2] - b;
+      const dist = dr * dr * 2 + dg * dg * 4 + db * db * 3;
+      if (dist < bestDist) {
+        bestDist = dist;
+        best = i;
+      }
+    }
+    cache[key] = best;
+    return best;
+  };
+};
+
+const BAYER_4X4 = [
+  0, 8, 2, 10,
+  12, 4, 14, 6,
+  3, 11, 1, 9,
+  15, 7, 13, 5
+];
+
+const clampByte = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+const indexPixels = (pixels: Uint8ClampedArray, width: number, height: number, palette: Palette, dither: DitherMode): Uint8Array => {
+  const mapColor = createColorMapper(palette);
+  const indices = new Uint8Array(width * height);
+
+  if (dither === 'floyd-steinberg') {
+    const work = new Float32Array(width * height * 3);
+    for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+      work[j] = pixels[i];
+      work[j + 1] = pixels[i + 1];
+      work[j + 2] = pixels[i + 2];
+    }
+
+    const spread = (x: number, y: number, er: number, eg: number, eb: number, factor: number) => {
+      if (x < 0 || x >= width || y >= height) return;
+      const j = (y * width + x) * 3;
+      work[j] += er * factor;
+      work[j + 1] += eg * factor;
+      work[j + 2] += eb * factor;
+    };
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const j = (y * width + x) * 3;
+        const r = clampByte(work[j]), g = clampByte(work[j + 1]), b = clampByte(work[j + 2]);
+        const index = mapColor(r, g, b);
+        indices[y * width + x] = index;
+
+        const er = r - palette[index][0];
+        const eg = g - palette[index][1];
+        const eb = b - palette[index][2];
+        spread(x + 1, y, er, eg, eb, 7 / 16);
+        spread(x - 1, y + 1, er, eg, eb, 3 / 16);
+        spread(x, y + 1, er, eg, eb, 5 / 16);
+        spread(x + 1, y + 1, er, eg, eb, 1 / 16);
+      }
+    }
+    return indices;
+  }
+
+  // Ordered dither strength scales with how coarse the palette is
+  const strength = dither === 'ordered' ? 256 / Math.cbrt(palette.length) : 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const offset = strength ? (BAYER_4X4[(y & 3) * 4 + (x & 3)] / 16 - 0.5) * strength : 0;
+      indices[y * width + x] = mapColor(
+        clampByte(pixels[i] + offset),
+        clampByte(pixels[i + 1] + offset),
+        clampByte(pixels[i + 2] + offset)
+      );
+    }
+  }
+  return indices;
+};
+
+// --- Byte Output ---
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private buffer = new Uint8Array(4096);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) this.flush();
+    this.buffer[this.length++] = value & 0xff;
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  private flush() {
+    this.chunks.push(this.buffer.slice(0, this.length));
+    this.length = 0;
+  }
+
+  toUint8Array(): Uint8Array {
+    this.flush();
+    const total = this.chunks.reduce((sum, c) => sum + c.length, 0);
+    const out = new Uint8Array(total);
+    let offset = 0;
+    this.chunks.forEach(c => {
+      out.set(c, offset);
+      offset += c.length;
+    });
+    return out;
+  }
+}
+
+// --- LZW Compression ---
+
+const writeLzw = (out: ByteWriter, indices: Uint8Array, minCodeSize: number) => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const block: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const emitByte = (value: number) => {
+    block.push(value);
+    if (block.length === 255) {
+      out.byte(255);
+      out.bytes(block);
+      block.length = 0;
+    }
+  };
+
+  let codeSize = minCodeSize + 1;
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      emitByte(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = prefix * 256 + k;
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = k;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) emitByte(bitBuffer & 0xff);
+
+  if (block.length > 0) {
+    out.byte(block.length);
+    out.bytes(block);
+  }
+  out.byte(0); // Block terminator
+};
+
+// --- File Assembly ---
+
+const paletteBits = (colorCount: number) => Math.max(1, Math.ceil(Math.log2(colorCount)));
+
+const writeColorTable = (out: ByteWriter, palette: Palette, bits: number) => {
+  const size = 1 << bits;
+  for (let i = 0; i < size; i++) {
+    const color = palette[i] || [0, 0, 0];
+    out.byte(color[0]);
+    out.byte(color[1]);
+    out.byte(color[2]);
+  }
+};
+
+export const encodeGif = (
+  frames: GifFrameInput[],
+  options: GifEncodeOptions,
+  onProgress?: (progress: number) => void
+): Uint8Array => {
+  const { width, height, loop, dither, paletteMode } = options;
+  const maxColors = Math.min(256, Math.max(2, Math.round(options.maxColors)));
+  const out = new ByteWriter();
+
+  const globalPalette = paletteMode === 'global'
+    ? buildPalette(frames.map(f => f.pixels), maxColors)
+    : null;
+  const globalBits = globalPalette ? paletteBits(globalPalette.length) : 0;
+
+  // Header + Logical Screen Descriptor
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(globalPalette ? 0x80 | ((globalBits - 1) << 4) | (globalBits - 1) : 0);
+  out.byte(0); // Background color index
+  out.byte(0); // Pixel aspect ratio
+  if (globalPalette) writeColorTable(out, globalPalette, globalBits);
+
+  // NETSCAPE2.0 looping extension (omitted when playing once)
+  if (loop !== 1) {
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.string('NETSCAPE2.0');
+    out.bytes([0x03, 0x01]);
+    out.word(loop === 0 ? 0 : loop - 1);
+    out.byte(0);
+  }
+
+  frames.forEach((frame, index) => {
+    const palette = globalPalette || buildPalette([frame.pixels], maxColors);
+    const bits = globalPalette ? globalBits : paletteBits(palette.length);
+
+    // Graphic Control Extension
+    out.bytes([0x21, 0xf9, 0x04]);
+    out.byte(0x04); // Disposal: leave in place
+    out.word(Math.max(2, Math.round(frame.delayCs)));
+    out.byte(0); // Transparent color index (unused)
+    out.byte(0);
+
+    // Image Descriptor
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(globalPalette ? 0 : 0x80 | (bits - 1));
+    if (!globalPalette) writeColorTable(out, palette, bits);
+
+    const indices = indexPixels(frame.pixels, width, height, palette, dither);
+    writeLzw(out, indices, Math.max(2, bits));
+
+    onProgress?.((index + 1) / frames.length);
+  });
+
+  out.byte(0x3b); // Trailer
+  return out.toUint8Array();
+};
@@ -0,0 +1,69 @@
+import { Frame } from '../types';
+import { DitherMode, GifFrameInput } from './gifEncoder';
+import { runJob } from './jobs';
+import { getFrameDuration } from './frameTiming';
+import { getBitmap } from './frameStore';
+
+export interface GifExportOptions {
+  fps: number;
+  loop: number; // 0 = forever
+  dither: DitherMode;
+  maxColors: number;
+  scale: number; // 1 = full size
+}
+
+// Yield to the browser between heavy steps so the progress UI can repaint
+const nextTick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+export const exportGif = async (
+  frames: Frame[],
+  options: GifExportOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error("Nothing to export");
+
+  const first = await getBitmap(frames[0].composite);
+  const width = Math.max(1, Math.round(first.width * options.scale));
+  const height = Math.max(1, Math.round(first.height * options.scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas not supported");
+
+  // Decoding is roughly the first half of the work, encoding the second.
+  // Held frames are written once with a longer delay instead of being repeated.
+  const gifFrames: GifFrameInput[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    signal?.throwIfAborted();
+    const img = await getBitmap(frames[i].composite);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    const delayCs = getFrameDuration(frames[i]) * 100 / options.fps;
+    gifFrames.push({ pixels: ctx.getImageData(0, 0, width, height).data, delayCs });
+    onProgress?.(((i + 1) / frames.length) * 0.5);
+    await nextTick();
+  }
+
+  // Encoding runs in the job worker; the pixels are handed over rather than copied
+  const bytes = await runJob('gif', {
+    frames: gifFrames,
+    options: {
+      width,
+      height,
+      loop: options.loop,
+      dither: options.dither,
+      maxColors: options.maxColors,
+      paletteMode: 'global'
+    }
+  }, {
+    onProgress: p => onProgress?.(0.5 + p * 0.5),
+    signal,
+    transfer: gifFrames.map(f => f.pixels.buffer)
+  });
+
+  return new Blob([bytes], { type: 'image/gif' });
+};
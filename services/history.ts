@@ -0,0 +1,112 @@
+import { Frame } from '../types';
+import { getImageSize } from './frameStore';
+
+// Project-wide undo/redo. Every change to the frame list is recorded as a command holding the
+// frames before and after it. Frames are immutable, so snapshots share every frame the
+// command didn't touch and only the replaced ones cost memory.
+
+export interface HistorySnapshot {
+  frames: Frame[];
+  currentFrameIndex: number;
+  activeLayerIndex: number;
+}
+
+export interface HistoryEntry {
+  label: string; // Shown as "Undo <label>"
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+  size: number; // Approximate memory only this entry keeps alive, in bytes of image data
+  coalesceKey?: string;
+  startedAt: number; // When the first change in the entry was made
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const MAX_ENTRIES = 200;
+// Images are the bulk of a project; keeps history to a few hundred MB at most
+const MEMORY_BUDGET = 200 * 1024 * 1024;
+// Changes with the same key this soon after the first one (e.g. dragging an object) become one step
+const COALESCE_WINDOW_MS = 1000;
+
+const frameSize = (frame: Frame, replacement?: Frame) => {
+  let size = replacement?.composite === frame.composite ? 0 : getImageSize(frame.composite);
+  frame.layers.forEach(layer => {
+    const kept = replacement?.layers.find(l => l.id === layer.id);
+    if (kept?.image !== layer.image) size += getImageSize(layer.image);
+  });
+  return size;
+};
+
+/** Image data held by `before` that isn't shared with `after` */
+const estimateSize = (before: Frame[], after: Frame[]) => {
+  const afterSet = new Set(after);
+  const afterById = new Map(after.map(f => [f.id, f]));
+  return before.reduce((sum, frame) => (
+    afterSet.has(frame) ? sum : sum + frameSize(frame, afterById.get(frame.id))
+  ), 0);
+};
+
+const trimToBudget = (past: HistoryEntry[]) => {
+  let total = past.reduce((sum, entry) => sum + entry.size, 0);
+  let start = 0;
+  while (past.length - start > 1 && (past.length - start > MAX_ENTRIES || total > MEMORY_BUDGET)) {
+    total -= past[start].size;
+    start++;
+  }
+  return start > 0 ? past.slice(start) : past;
+};
+
+/** Records a change. Clears the redo stack. */
+export const pushHistory = (
+  state: HistoryState,
+  label: string,
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+  coalesceKey?: string
+): HistoryState => {
+  const now = Date.now();
+  const last = state.past[state.past.length - 1];
+
+  if (coalesceKey && last && last.coalesceKey === coalesceKey && now - last.startedAt < COALESCE_WINDOW_MS) {
+    const merged: HistoryEntry = {
+      ...last,
+      after,
+      size: estimateSize(last.before.frames, after.frames)
+    };
+    return { past: [...state.past.slice(0, -1), merged], future: [] };
+  }
+
+  const entry: HistoryEntry = {
+    label,
+    before,
+    after,
+    size: estimateSize(before.frames, after.frames),
+    coalesceKey,
+    startedAt: now
+  };
+  return { past: trimToBudget([...state.past, entry]), future: [] };
+};
+
+/** Steps back; returns the state to restore, or null when there's nothing to undo */
+export const undoHistory = (state: HistoryState) => {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return null;
+  return {
+    state: { past: state.past.slice(0, -1), future: [entry, ...state.future] },
+    snapshot: entry.before
+  };
+};
+
+export const redoHistory = (state: HistoryState) => {
+  const [entry, ...future] = state.future;
+  if (!entry) return null;
+  return {
+    state: { past: [...state.past, entry], future },
+    snapshot: entry.after
+  };
+};
@@ -0,0 +1,37 @@
+import { EffectRun, FillSettings } from '../types';
+import { runEffect } from './effects';
+import { computeFillMask } from './floodFill';
+import { encodeGif, GifEncodeOptions, GifFrameInput } from './gifEncoder';
+
+// The heavy work that runs off the main thread. Handlers only touch pixels and OffscreenCanvas,
+// so the same code runs inside the job worker or, where workers aren't available, inline.
+
+type ProgressCallback = (progress: number) => void; // 0-1
+
+export const JOB_HANDLERS = {
+  /** Effect frames as bitmaps, ready to draw without decoding on the main thread */
+  effect: async ({ run, inputs }: { run: EffectRun; inputs: ImageData[] }, onProgress: ProgressCallback): Promise<ImageBitmap[]> =>
+    runEffect(run, inputs, onProgress).map(image => {
+      const canvas = new OffscreenCanvas(image.width, image.height);
+      canvas.getContext('2d')!.putImageData(image, 0, 0);
+      return canvas.transferToImageBitmap();
+    }),
+
+  fill: async ({ sample, x, y, settings }: { sample: ImageData; x: number; y: number; settings: FillSettings }, onProgress: ProgressCallback): Promise<Uint8Array | null> =>
+    computeFillMask(sample, x, y, settings, onProgress),
+
+  gif: async ({ frames, options }: { frames: GifFrameInput[]; options: GifEncodeOptions }, onProgress: ProgressCallback): Promise<Uint8Array> =>
+    encodeGif(frames, options, onProgress)
+};
+
+export type JobType = keyof typeof JOB_HANDLERS;
+export type JobPayload<T extends JobType> = Parameters<(typeof JOB_HANDLERS)[T]>[0];
+export type JobResult<T extends JobType> = Awaited<ReturnType<(typeof JOB_HANDLERS)[T]>>;
+
+export const runJobHandler = <T extends JobType>(type: T, payload: JobPayload<T>, onProgress: ProgressCallback): Promise<JobResult<T>> =>
+  (JOB_HANDLERS[type] as (payload: JobPayload<T>, onProgress: ProgressCallback) => Promise<JobResult<T>>)(payload, onProgress);
+
+export type JobMessage =
+  | { kind: 'progress'; progress: number }
+  | { kind: 'done'; result: unknown }
+  | { kind: 'error'; message: string };
@@ -0,0 +1,28 @@
+import { JobMessage, JobPayload, JobType, runJobHandler } from './jobHandlers';
+
+// Worker entry: runs one job and reports back. The runner terminates the worker afterwards
+// (or midway, to cancel), so there's no job queue here.
+
+interface WorkerScope {
+  onmessage: ((e: MessageEvent<{ type: JobType; payload: JobPayload<JobType> }>) => void) | null;
+  postMessage: (message: JobMessage, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+// Hand buffers and bitmaps back without copying them
+const getTransferables = (value: unknown): Transferable[] => {
+  if (value instanceof ArrayBuffer || value instanceof ImageBitmap) return [value];
+  if (ArrayBuffer.isView(value)) return [value.buffer as ArrayBuffer];
+  if (Array.isArray(value)) return value.flatMap(getTransferables);
+  return [];
+};
+
+scope.onmessage = async (e) => {
+  try {
+    const result = await runJobHandler(e.data.type, e.data.payload, progress => scope.postMessage({ kind: 'progress', progress }));
+    scope.postMessage({ kind: 'done', result }, getTransferables(result));
+  } catch (err) {
+    scope.postMessage({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,60 @@
+import { JobMessage, JobPayload, JobResult, JobType, runJobHandler } from './jobHandlers';
+
+// Runs heavy jobs (effects, big flood fills, GIF encoding) in a Web Worker so the UI keeps
+// responding. Each job gets its own worker, which makes cancelling as simple as terminating it.
+
+export interface JobOptions {
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal; // Aborting rejects the job with an AbortError
+  transfer?: Transferable[]; // Payload buffers to hand over instead of copying. They're unusable here afterwards.
+}
+
+const abortError = () => new DOMException("Job cancelled", 'AbortError');
+
+/** True for the error a cancelled job rejects with, which usually needs no message */
+export const isCancelled = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const runInline = async <T extends JobType>(type: T, payload: JobPayload<T>, options: JobOptions): Promise<JobResult<T>> => {
+  const result = await runJobHandler(type, payload, p => options.onProgress?.(p));
+  if (options.signal?.aborted) throw abortError();
+  return result;
+};
+
+export const runJob = <T extends JobType>(type: T, payload: JobPayload<T>, options: JobOptions = {}): Promise<JobResult<T>> => {
+  const { onProgress, signal, transfer = [] } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (typeof Worker === 'undefined') return runInline(type, payload, options);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./jobWorker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', handleAbort);
+
+    worker.onmessage = (e: MessageEvent<JobMessage>) => {
+      const message = e.data;
+      if (message.kind === 'progress') {
+        onProgress?.(message.progress);
+      } else if (message.kind === 'done') {
+        finish();
+        resolve(message.result as JobResult<T>);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (e) => {
+      finish();
+      reject(new Error(e.message || "Job worker failed"));
+    };
+
+    worker.postMessage({ type, payload }, transfer);
+  });
+};
@@ -0,0 +1,185 @@
+import { v4 as uuidv4 } from 'uuid';
+import { BlendMode, DrawObject, Frame, FrameLayer, ImageHandle, LayerKind } from '../types';
+
+// Layer structure is shared by all frames of a project: adding, removing, reordering or
+// changing a layer's properties applies to that layer (matched by id) in every frame.
+// Only the pixels (`image`) and vector objects differ per frame.
+
+export const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' }
+];
+
+const DEFAULT_LAYER_NAMES = ['Background', 'Middle', 'Foreground'];
+// New projects paint on the first two and keep editable shapes on top
+const DEFAULT_LAYER_KINDS: LayerKind[] = ['raster', 'raster', 'vector'];
+
+export const LAYER_KINDS: { value: LayerKind; label: string }[] = [
+  { value: 'raster', label: 'Paint' },
+  { value: 'vector', label: 'Vector' }
+];
+
+export type LayerProperties = Pick<FrameLayer, 'name' | 'visible' | 'locked' | 'opacity' | 'blendMode'>;
+
+export const createLayer = (name: string, blankImage: ImageHandle, id: string = uuidv4(), kind: LayerKind = 'raster'): FrameLayer => ({
+  id,
+  name,
+  kind,
+  visible: true,
+  locked: false,
+  opacity: 1,
+  blendMode: 'normal',
+  image: blankImage
+});
+
+/** The Background / Middle / Foreground set new projects start with */
+export const createDefaultLayers = (blankImage: ImageHandle): FrameLayer[] =>
+  DEFAULT_LAYER_NAMES.map((name, index) => createLayer(name, blankImage, uuidv4(), DEFAULT_LAYER_KINDS[index]));
+
+/** Same layers (ids and properties) with empty pixels and no objects, for new frames */
+export const createBlankLayersLike = (layers: FrameLayer[], blankImage: ImageHandle): FrameLayer[] =>
+  layers.map(({ objects, ...layer }) => ({ ...layer, image: blankImage }));
+
+/**
+ * A layer record as saved, whose image may be something other than a handle (a file path in
+ * bundles). `kind` is missing on layers saved before layer kinds.
+ */
+export type LayerRecord<I> = Omit<FrameLayer, 'image' | 'kind'> & { image: I; kind?: LayerKind };
+
+/** Layers as saved before layer records existed: plain images plus a parallel array of object lists */
+export interface LegacyLayers<I> {
+  layers: I[] | LayerRecord<I>[];
+  objects?: DrawObject[][];
+}
+
+/** A frame as saved, from before layer records or layer kinds existed, or current */
+export type LegacyFrame = Omit<Frame, 'layers'> & LegacyLayers<ImageHandle>;
+
+/** A frame whose layers may not have a kind yet */
+export type KindlessFrame = Omit<Frame, 'layers'> & { layers: LayerRecord<ImageHandle>[] };
+
+const isLayerRecord = (layer: unknown): layer is LayerRecord<unknown> =>
+  typeof layer === 'object' && layer !== null && 'name' in layer && 'visible' in layer;
+
+const hasLayerRecords = <I>(layers: I[] | LayerRecord<I>[]): layers is LayerRecord<I>[] =>
+  layers.length === 0 || isLayerRecord(layers[0]);
+
+/**
+ * Upgrades layers saved before layer records existed. Layer ids are fixed so all frames of
+ * an old project line up. The images are kept as they come (handles, or file paths in bundles).
+ */
+export const upgradeLegacyLayers = <I>({ layers, objects }: LegacyLayers<I>): LayerRecord<I>[] => {
+  if (hasLayerRecords(layers)) return layers;
+  return layers.map((image, index) => {
+    const layerObjects = objects?.[index];
+    // No kind yet: `assignLayerKinds` decides it from all frames of the project
+    return {
+      id: `legacy-layer-${index}`,
+      name: DEFAULT_LAYER_NAMES[index] || `Layer ${index + 1}`,
+      visible: true,
+      locked: false,
+      opacity: 1,
+      blendMode: 'normal',
+      image,
+      ...(layerObjects?.length ? { objects: layerObjects } : {})
+    };
+  });
+};
+
+export const upgradeLegacyFrame = ({ layers, objects, ...frame }: LegacyFrame): KindlessFrame => ({
+  ...frame,
+  layers: upgradeLegacyLayers({ layers, objects })
+});
+
+type KindlessLayer = Pick<LayerRecord<unknown>, 'id' | 'kind' | 'objects'>;
+
+/**
+ * The kind for each layer saved before layer kinds: vector if any frame has objects on it
+ * (those were drawn as objects), raster otherwise. Kinds are shared, so this looks at all frames.
+ */
+export const getLayerKinds = (frames: { layers: KindlessLayer[] }[]) => {
+  const vectorIds = new Set<string>();
+  frames.forEach(frame => frame.layers.forEach(layer => {
+    if (layer.objects?.length) vectorIds.add(layer.id);
+  }));
+  return (layer: KindlessLayer): LayerKind => layer.kind || (vectorIds.has(layer.id) ? 'vector' : 'raster');
+};
+
+const hasLayerKinds = (frame: KindlessFrame): frame is Frame => frame.layers.every(layer => layer.kind);
+
+/** Gives layers saved before layer kinds one. Returns the same list when they all have one. */
+export const assignLayerKinds = (frames: KindlessFrame[]): Frame[] => {
+  if (frames.every(hasLayerKinds)) return frames;
+  const kindOf = getLayerKinds(frames);
+  return frames.map(frame => ({
+    ...frame,
+    layers: frame.layers.map(layer => ({ ...layer, kind: kindOf(layer) }))
+  }));
+};
+
+/**
+ * Fits a frame from another project onto this project's layers. Layers are matched by id,
+ * then by position; layers the target doesn't have are dropped.
+ */
+export const conformFrameLayers = (frame: Frame, template: FrameLayer[], blankImage: ImageHandle): Frame => {
+  const byId = new Map(frame.layers.map(l => [l.id, l]));
+  const sharesLayers = template.some(l => byId.has(l.id));
+
+  const layers = template.map(({ objects, ...target }, index) => {
+    const source = sharesLayers ? byId.get(target.id) : frame.layers[index];
+    return {
+      ...target,
+      image: source?.image ?? blankImage,
+      ...(source?.objects ? { objects: source.objects } : {})
+    };
+  });
+  return { ...frame, layers };
+};
+
+const mapLayers = (frames: Frame[], update: (layers: FrameLayer[]) => FrameLayer[]) =>
+  frames.map(frame => ({ ...frame, layers: update(frame.layers) }));
+
+export const generateLayerName = (layers: FrameLayer[]) => {
+  const names = new Set(layers.map(l => l.name));
+  let n = layers.length + 1;
+  while (names.has(`Layer ${n}`)) n++;
+  return `Layer ${n}`;
+};
+
+/** Inserts a new empty layer at `index` (0 = bottom) in every frame */
+export const addLayer = (frames: Frame[], index: number, name: string, blankImage: ImageHandle, kind: LayerKind): Frame[] => {
+  const id = uuidv4();
+  return mapLayers(frames, layers => {
+    const next = [...layers];
+    next.splice(index, 0, createLayer(name, blankImage, id, kind));
+    return next;
+  });
+};
+
+export const removeLayer = (frames: Frame[], layerId: string): Frame[] =>
+  mapLayers(frames, layers => (layers.length > 1 ? layers.filter(l => l.id !== layerId) : layers));
+
+export const moveLayer = (frames: Frame[], layerId: string, toIndex: number): Frame[] =>
+  mapLayers(frames, layers => {
+    const from = layers.findIndex(l => l.id === layerId);
+    if (from === -1 || toIndex < 0 || toIndex >= layers.length) return layers;
+    const next = [...layers];
+    const [layer] = next.splice(from, 1);
+    next.splice(toIndex, 0, layer);
+    return next;
+  });
+
+export const updateLayer = (frames: Frame[], layerId: string, changes: Partial<LayerProperties>): Frame[] =>
+  mapLayers(frames, layers => layers.map(l => (l.id === layerId ? { ...l, ...changes } : l)));
+
+/** Index of the nearest paint layer under `index` that can take pixels, or -1 */
+export const findRasterLayerBelow = (layers: FrameLayer[], index: number) => {
+  for (let i = index - 1; i >= 0; i--) {
+    if (layers[i].kind === 'raster') return layers[i].locked ? -1 : i;
+  }
+  return -1;
+};
@@ -0,0 +1,128 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DrawObject, Matrix, ToolType } from '../types';
+import { getObjectBoundingBox, getObjectMatrix, getObjectsBoundingBox, IDENTITY, multiply, setObjectMatrix, translation } from './objectTransform';
+
+// Arranging several vector objects of a layer: grouping, stacking order, alignment and spacing.
+// Objects are listed bottom to top; `ids` is the selection. Everything returns new lists.
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+/** Applies `m` on top of the object's own transform */
+export const transformObject = (obj: DrawObject, m: Matrix) => setObjectMatrix(obj, multiply(m, getObjectMatrix(obj)));
+
+/** Copy with new ids, down into groups, e.g. for pasting */
+export const cloneObject = (obj: DrawObject): DrawObject => ({
+  ...obj,
+  id: uuidv4(),
+  ...(obj.children ? { children: obj.children.map(cloneObject) } : {})
+});
+
+/** Puts the selected objects in one group, where the topmost of them was */
+export const groupObjects = (objects: DrawObject[], ids: string[]): { objects: DrawObject[]; group: DrawObject | null } => {
+  const selected = objects.filter(obj => ids.includes(obj.id));
+  if (selected.length < 2) return { objects, group: null };
+
+  const group: DrawObject = {
+    id: uuidv4(),
+    type: 'group',
+    paths: [],
+    color: '',
+    brushSize: 0,
+    tool: ToolType.SELECT,
+    // Children keep their transforms, so the group's box is theirs combined and it starts untransformed
+    bounds: getObjectsBoundingBox(selected),
+    rotation: 0,
+    transform: IDENTITY,
+    children: selected
+  };
+  const top = objects.indexOf(selected[selected.length - 1]);
+  const next = objects.flatMap((obj, index) => (index === top ? [group] : ids.includes(obj.id) ? [] : [obj]));
+  return { objects: next, group };
+};
+
+/** Replaces selected groups with their objects, which take on the group's transform */
+export const ungroupObjects = (objects: DrawObject[], ids: string[]): { objects: DrawObject[]; ids: string[] } => {
+  const released: string[] = [];
+  const next = objects.flatMap(obj => {
+    if (!ids.includes(obj.id) || obj.type !== 'group') return [obj];
+    const children = (obj.children || []).map(child => transformObject(child, getObjectMatrix(obj)));
+    released.push(...children.map(child => child.id));
+    return children;
+  });
+  return { objects: next, ids: released };
+};
+
+/** One step up (`direction` 1) or down (-1), past the nearest object that isn't selected */
+export const moveObjectsInStack = (objects: DrawObject[], ids: string[], direction: 1 | -1): DrawObject[] => {
+  const next = [...objects];
+  const indices = next.map((obj, index) => (ids.includes(obj.id) ? index : -1)).filter(index => index !== -1);
+  // Move the ones nearest the edge first so selected objects don't jump over each other
+  if (direction === 1) indices.reverse();
+  indices.forEach(index => {
+    const target = index + direction;
+    if (target < 0 || target >= next.length || ids.includes(next[target].id)) return;
+    [next[index], next[target]] = [next[target], next[index]];
+  });
+  return next;
+};
+
+export const bringToFront = (objects: DrawObject[], ids: string[]) => [
+  ...objects.filter(obj => !ids.includes(obj.id)),
+  ...objects.filter(obj => ids.includes(obj.id))
+];
+
+export const sendToBack = (objects: DrawObject[], ids: string[]) => [
+  ...objects.filter(obj => ids.includes(obj.id)),
+  ...objects.filter(obj => !ids.includes(obj.id))
+];
+
+/** Lines the selected objects up with the edge or centre of the box around all of them */
+export const alignObjects = (objects: DrawObject[], ids: string[], edge: AlignEdge): DrawObject[] => {
+  const selected = objects.filter(obj => ids.includes(obj.id));
+  if (selected.length < 2) return objects;
+  const all = getObjectsBoundingBox(selected);
+
+  return objects.map(obj => {
+    if (!ids.includes(obj.id)) return obj;
+    const box = getObjectBoundingBox(obj);
+    const dx = edge === 'left' ? all.x - box.x
+      : edge === 'center' ? all.x + all.width / 2 - (box.x + box.width / 2)
+      : edge === 'right' ? all.x + all.width - (box.x + box.width)
+      : 0;
+    const dy = edge === 'top' ? all.y - box.y
+      : edge === 'middle' ? all.y + all.height / 2 - (box.y + box.height / 2)
+      : edge === 'bottom' ? all.y + all.height - (box.y + box.height)
+      : 0;
+    return dx || dy ? transformObject(obj, translation(dx, dy)) : obj;
+  });
+};
+
+/** Spaces the selected objects evenly between the outermost two, which stay where they are */
+export const distributeObjects = (objects: DrawObject[], ids: string[], axis: DistributeAxis): DrawObject[] => {
+  const horizontal = axis === 'horizontal';
+  const boxes = objects
+    .filter(obj => ids.includes(obj.id))
+    .map(obj => ({ id: obj.id, box: getObjectBoundingBox(obj) }))
+    .sort((a, b) => (horizontal ? a.box.x - b.box.x : a.box.y - b.box.y));
+  if (boxes.length < 3) return objects;
+
+  const start = horizontal ? boxes[0].box.x : boxes[0].box.y;
+  const last = boxes[boxes.length - 1].box;
+  const end = horizontal ? last.x + last.width : last.y + last.height;
+  const used = boxes.reduce((sum, { box }) => sum + (horizontal ? box.width : box.height), 0);
+  const gap = (end - start - used) / (boxes.length - 1);
+
+  const offsets = new Map<string, number>();
+  let position = start;
+  boxes.forEach(({ id, box }) => {
+    offsets.set(id, position - (horizontal ? box.x : box.y));
+    position += (horizontal ? box.width : box.height) + gap;
+  });
+
+  return objects.map(obj => {
+    const offset = offsets.get(obj.id);
+    if (!offset) return obj;
+    return transformObject(obj, horizontal ? translation(offset, 0) : translation(0, offset));
+  });
+};
@@ -0,0 +1,118 @@
+import { BrushDynamics, BrushPreset, DrawObject, ToolType } from '../types';
+import { getDefaultDynamics, getSampleSize, toStrokeSamples, traceStrokeOutline } from './brushEngine';
+import { getBrushPreset, renderStampedStroke } from './brushPresets';
+import { toCompositeOperation } from './compositing';
+import { getObjectMatrix } from './objectTransform';
+import { hashSeed } from './random';
+import { drawShape } from './shapes';
+import { drawText } from './text';
+
+// Draws vector objects, both on the stage while editing and into frame composites, so a
+// stroke looks the same in the editor, the timeline, playback and exports.
+
+// A stroke's stamped pixels, kept between redraws so textures don't re-roll when something else changes
+interface StrokeRender {
+  canvas: HTMLCanvasElement;
+  x: number;
+  y: number;
+  brush: BrushPreset;
+  color: string;
+  size: number;
+}
+
+// Keyed by the point list: moving, scaling or rotating an object keeps its points, so the render stays valid
+const strokeRenders = new WeakMap<DrawObject['paths'], StrokeRender>();
+
+const getStrokeRender = (obj: DrawObject, preset: BrushPreset) => {
+  const cached = strokeRenders.get(obj.paths);
+  if (cached && cached.brush === preset && cached.color === obj.color && cached.size === obj.brushSize) return cached;
+
+  const samples = toStrokeSamples(obj.paths);
+  const render = {
+    ...renderStampedStroke(samples, {
+      brush: preset,
+      dynamics: obj.dynamics || getDefaultDynamics(preset.tool),
+      color: obj.color,
+      size: obj.brushSize,
+      length: samples[samples.length - 1].distance
+    }, obj.seed ?? hashSeed(obj.id)),
+    brush: preset,
+    color: obj.color,
+    size: obj.brushSize
+  };
+  strokeRenders.set(obj.paths, render);
+  return render;
+};
+
+// Variable-width stroke filled as one shape. `finished` adds the end taper.
+const fillStroke = (ctx: CanvasRenderingContext2D, paths: DrawObject['paths'], brushSize: number, dynamics: BrushDynamics, finished: boolean) => {
+  const samples = toStrokeSamples(paths);
+  const length = finished ? samples[samples.length - 1].distance : null;
+  ctx.beginPath();
+  traceStrokeOutline(ctx, samples, samples.map(sample => getSampleSize(brushSize, sample, dynamics, length)));
+  ctx.fill();
+};
+
+/** Draws one object with its transform. `brushes` are the custom presets, to find the one it was drawn with. */
+export const drawObject = (ctx: CanvasRenderingContext2D, obj: DrawObject, brushes: BrushPreset[]) => {
+  if (obj.type === 'group') {
+    ctx.save();
+    ctx.transform(...getObjectMatrix(obj));
+    drawObjects(ctx, obj.children || [], brushes);
+    ctx.restore();
+    return;
+  }
+  if (obj.paths.length === 0) return;
+
+  ctx.save();
+  ctx.transform(...getObjectMatrix(obj));
+
+  if (obj.type === 'shape') {
+    drawShape(ctx, obj);
+    ctx.restore();
+    return;
+  }
+  if (obj.type === 'text') {
+    drawText(ctx, obj);
+    ctx.restore();
+    return;
+  }
+
+  ctx.strokeStyle = obj.color;
+  ctx.fillStyle = obj.color;
+  ctx.lineWidth = obj.brushSize;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.globalAlpha = obj.tool === ToolType.MARKER ? 0.5 : 1.0;
+
+  const preset = obj.brushId ? getBrushPreset(obj.brushId, brushes) : undefined;
+  if (preset) {
+    const render = getStrokeRender(obj, preset);
+    ctx.globalAlpha = preset.opacity;
+    ctx.globalCompositeOperation = toCompositeOperation(preset.blendMode);
+    ctx.drawImage(render.canvas, render.x, render.y);
+    ctx.restore();
+    return;
+  }
+
+  // Drawn before brush presets, or with a brush that has since been deleted
+  if (obj.dynamics) {
+    fillStroke(ctx, obj.paths, obj.brushSize, obj.dynamics, true);
+    ctx.restore();
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(obj.paths[0].x, obj.paths[0].y);
+
+  for (let i = 1; i < obj.paths.length; i++) {
+    ctx.lineTo(obj.paths[i].x, obj.paths[i].y);
+  }
+
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const drawObjects = (ctx: CanvasRenderingContext2D, objects: DrawObject[], brushes: BrushPreset[]) => {
+  objects.forEach(obj => drawObject(ctx, obj, brushes));
+};
@@ -0,0 +1,150 @@
+import { DrawObject, Matrix } from '../types';
+import { getSampleSize, toStrokeSamples } from './brushEngine';
+import { hitTestShape } from './shapes';
+import { hitTestText } from './text';
+
+// Geometry of vector objects. An object's points stay as drawn; scaling, rotating and flipping
+// only change its `transform`, so the stroke (and its brush texture) is redrawn exactly, just
+// transformed. Moving is a transform too, which keeps the cached render of a stroke valid.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type Bounds = DrawObject['bounds'];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** `m` applied after `n` */
+export const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+export const invert = (m: Matrix): Matrix => {
+  const det = m[0] * m[3] - m[1] * m[2] || 1e-9;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det
+  ];
+};
+
+export const applyToPoint = (m: Matrix, p: Point): Point => ({
+  x: m[0] * p.x + m[2] * p.y + m[4],
+  y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+export const translation = (dx: number, dy: number): Matrix => [1, 0, 0, 1, dx, dy];
+
+/** Scale (negative to flip) around a point */
+export const scalingAround = (sx: number, sy: number, origin: Point): Matrix =>
+  [sx, 0, 0, sy, origin.x - sx * origin.x, origin.y - sy * origin.y];
+
+/** Rotation in radians around a point */
+export const rotationAround = (angle: number, origin: Point): Matrix => {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [cos, sin, -sin, cos, origin.x - cos * origin.x + sin * origin.y, origin.y - sin * origin.x - cos * origin.y];
+};
+
+/** Angle the object's x axis points at, in radians */
+export const getMatrixRotation = (m: Matrix) => Math.atan2(m[1], m[0]);
+
+/** How much the transform scales lengths on average, e.g. for hit tolerance and line widths */
+export const getMatrixScale = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+
+export const getBoundsCenter = (bounds: Bounds): Point => ({
+  x: bounds.x + bounds.width / 2,
+  y: bounds.y + bounds.height / 2
+});
+
+/** Where the object's points end up on the canvas. Older objects only have a rotation. */
+export const getObjectMatrix = (obj: DrawObject): Matrix => {
+  if (obj.transform) return obj.transform;
+  if (!obj.rotation) return IDENTITY;
+  return rotationAround(obj.rotation, getBoundsCenter(obj.bounds));
+};
+
+export const setObjectMatrix = (obj: DrawObject, transform: Matrix): DrawObject => ({ ...obj, transform, rotation: 0 });
+
+/** Corners of the object's bounds on the canvas: nw, ne, se, sw */
+export const getObjectCorners = (obj: DrawObject): Point[] => {
+  const m = getObjectMatrix(obj);
+  const { x, y, width, height } = obj.bounds;
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height }
+  ].map(p => applyToPoint(m, p));
+};
+
+const getPointsBox = (points: Point[]): Bounds => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/** Axis-aligned box around the transformed object, e.g. to place UI next to it */
+export const getObjectBoundingBox = (obj: DrawObject): Bounds => getPointsBox(getObjectCorners(obj));
+
+/** Axis-aligned box around several transformed objects */
+export const getObjectsBoundingBox = (objects: DrawObject[]): Bounds =>
+  getPointsBox(objects.flatMap(getObjectCorners));
+
+/** Upright box between two corners dragged out in any direction */
+export const getRectBounds = (a: Point, b: Point): Bounds => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(b.x - a.x),
+  height: Math.abs(b.y - a.y)
+});
+
+export const boundsIntersect = (a: Bounds, b: Bounds) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+const distanceToSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Whether a canvas point touches the stroke itself, within `tolerance` canvas pixels.
+ * Uses the stroke's width at each point, so gaps and thin tapered ends don't count.
+ */
+export const hitTestObject = (obj: DrawObject, point: Point, tolerance: number): boolean => {
+  const m = getObjectMatrix(obj);
+  const local = applyToPoint(invert(m), point);
+  const slack = tolerance / getMatrixScale(m);
+  if (obj.type === 'group') return (obj.children || []).some(child => hitTestObject(child, local, slack));
+  if (obj.type === 'shape') return hitTestShape(obj, local, slack);
+  if (obj.type === 'text') return hitTestText(obj, local, slack);
+  if (obj.paths.length === 0) return false;
+
+  const samples = toStrokeSamples(obj.paths);
+  const length = samples[samples.length - 1].distance;
+  const radii = samples.map(sample => (obj.dynamics
+    ? getSampleSize(obj.brushSize, sample, obj.dynamics, length)
+    : obj.brushSize) / 2);
+
+  if (samples.length === 1) return Math.hypot(local.x - samples[0].x, local.y - samples[0].y) <= radii[0] + slack;
+  for (let i = 1; i < samples.length; i++) {
+    const radius = Math.max(radii[i - 1], radii[i]);
+    if (distanceToSegment(local, samples[i - 1], samples[i]) <= radius + slack) return true;
+  }
+  return false;
+};
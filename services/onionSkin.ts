@@ -0,0 +1,103 @@
+import { Frame, ImageHandle, OnionSkinSettings } from '../types';
+import { createImage, getBitmap } from './frameStore';
+
+export const DEFAULT_ONION_SKIN: OnionSkinSettings = {
+  before: 1,
+  after: 0,
+  pastColor: '#FF3B30',
+  futureColor: '#34C759',
+  opacity: 0.35,
+  falloff: 0.6,
+  keyframesOnly: false,
+  loop: false
+};
+
+export const MAX_ONION_SKIN_FRAMES = 5;
+
+export interface OnionSkinFrame {
+  frame: Frame;
+  color: string;
+  opacity: number;
+}
+
+/**
+ * Neighbouring frames to ghost under the current one, farthest first so the
+ * nearest frames end up drawn on top.
+ */
+export const getOnionSkinFrames = (
+  frames: Frame[],
+  currentIndex: number,
+  settings: OnionSkinSettings
+): OnionSkinFrame[] => {
+  const seen = new Set<string>([frames[currentIndex]?.id]);
+
+  const collect = (step: -1 | 1, count: number, color: string) => {
+    const result: OnionSkinFrame[] = [];
+    let index = currentIndex;
+    for (let visited = 0; visited < frames.length - 1 && result.length < count; visited++) {
+      index += step;
+      if (index < 0 || index >= frames.length) {
+        if (!settings.loop) break;
+        index = (index + frames.length) % frames.length;
+      }
+      const frame = frames[index];
+      if (seen.has(frame.id) || (settings.keyframesOnly && !frame.keyframe)) continue;
+      seen.add(frame.id);
+      result.push({ frame, color, opacity: settings.opacity * Math.pow(settings.falloff, result.length) });
+    }
+    return result;
+  };
+
+  const past = collect(-1, settings.before, settings.pastColor);
+  const future = collect(1, settings.after, settings.futureColor);
+  return [...past.reverse(), ...future.reverse()];
+};
+
+// Frames are immutable, so tinted versions can be cached per frame object
+const tintCache = new WeakMap<Frame, Map<string, Promise<ImageHandle>>>();
+
+/**
+ * Recolors a frame's drawing in a single tint. Ink darkness becomes alpha, so white paper
+ * drops out and the ghost can sit over the drawing without hiding it.
+ */
+export const getTintedFrame = (frame: Frame, color: string): Promise<ImageHandle> => {
+  let byColor = tintCache.get(frame);
+  if (!byColor) {
+    byColor = new Map();
+    tintCache.set(frame, byColor);
+  }
+
+  let tinted = byColor.get(color);
+  if (!tinted) {
+    tinted = getBitmap(frame.composite).then(img => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.width;
+      canvas.height = img.height;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return frame.composite;
+
+      // Flatten onto white first so transparent and white-backed frames look the same
+      ctx.fillStyle = '#FFFFFF';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0);
+
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const data = imageData.data;
+      const r = parseInt(color.slice(1, 3), 16);
+      const g = parseInt(color.slice(3, 5), 16);
+      const b = parseInt(color.slice(5, 7), 16);
+      for (let i = 0; i < data.length; i += 4) {
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        data[i] = r;
+        data[i + 1] = g;
+        data[i + 2] = b;
+        data[i + 3] = 255 - luminance;
+      }
+      ctx.putImageData(imageData, 0, 0);
+      return createImage(canvas);
+    });
+    tinted.catch(() => byColor!.delete(color));
+    byColor.set(color, tinted);
+  }
+  return tinted;
+};
@@ -0,0 +1,152 @@
+import { Matrix, SelectionSettings, SelectionShape } from '../types';
+import { applyToPoint, Bounds, IDENTITY, invert, Point } from './objectTransform';
+
+// Selections on raster layers. The selected pixels are lifted off the layer into a floating
+// selection that can be moved, scaled, rotated and flipped (by its matrix) without touching
+// the layer; committing stamps them back down as one edit.
+
+export const DEFAULT_SELECTION_SETTINGS: SelectionSettings = {
+  shape: 'rect'
+};
+
+export const SELECTION_SHAPES: { value: SelectionShape; label: string }[] = [
+  { value: 'rect', label: 'Rectangle' },
+  { value: 'lasso', label: 'Lasso' }
+];
+
+export interface FloatingSelection {
+  pixels: HTMLCanvasElement; // The lifted pixels, the size of `bounds`
+  bounds: Bounds; // Where they were lifted from, in whole canvas pixels
+  outline: Point[]; // Selected shape, in the same space as `bounds`
+  transform: Matrix; // Where they are now
+}
+
+// Lasso points closer than this are dropped, and smaller selections are ignored
+export const MIN_SELECTION_SIZE = 2;
+
+export const getRectOutline = (a: Point, b: Point): Point[] => [
+  { x: a.x, y: a.y },
+  { x: b.x, y: a.y },
+  { x: b.x, y: b.y },
+  { x: a.x, y: b.y }
+];
+
+const traceOutline = (ctx: CanvasRenderingContext2D, outline: Point[]) => {
+  ctx.beginPath();
+  outline.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+};
+
+/** Whole-pixel box around the outline, clipped to the canvas. Null when there's nothing in it. */
+const getOutlineBounds = (outline: Point[], width: number, height: number): Bounds | null => {
+  const xs = outline.map(p => p.x);
+  const ys = outline.map(p => p.y);
+  const x = Math.max(0, Math.floor(Math.min(...xs)));
+  const y = Math.max(0, Math.floor(Math.min(...ys)));
+  const right = Math.min(width, Math.ceil(Math.max(...xs)));
+  const bottom = Math.min(height, Math.ceil(Math.max(...ys)));
+  if (right - x < MIN_SELECTION_SIZE || bottom - y < MIN_SELECTION_SIZE) return null;
+  return { x, y, width: right - x, height: bottom - y };
+};
+
+/**
+ * Copies the pixels inside `outline` off `source` (a layer as shown on the canvas).
+ * The layer itself is left alone; `clearOutline` cuts the hole.
+ */
+export const liftPixels = (source: CanvasImageSource, outline: Point[], width: number, height: number): FloatingSelection | null => {
+  const bounds = getOutlineBounds(outline, width, height);
+  if (!bounds) return null;
+
+  const pixels = document.createElement('canvas');
+  pixels.width = bounds.width;
+  pixels.height = bounds.height;
+  const ctx = pixels.getContext('2d');
+  if (!ctx) return null;
+  ctx.translate(-bounds.x, -bounds.y);
+  traceOutline(ctx, outline);
+  ctx.clip('evenodd');
+  ctx.drawImage(source, 0, 0, width, height);
+  return { pixels, bounds, outline, transform: IDENTITY };
+};
+
+export const clearOutline = (ctx: CanvasRenderingContext2D, outline: Point[]) => {
+  ctx.save();
+  ctx.globalCompositeOperation = 'destination-out';
+  traceOutline(ctx, outline);
+  ctx.fill('evenodd');
+  ctx.restore();
+};
+
+export const drawFloating = (ctx: CanvasRenderingContext2D, selection: FloatingSelection) => {
+  ctx.save();
+  ctx.transform(...selection.transform);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(selection.pixels, selection.bounds.x, selection.bounds.y);
+  ctx.restore();
+};
+
+/** Marching-ants outline, where the selection is now */
+export const drawSelectionOutline = (ctx: CanvasRenderingContext2D, outline: Point[], transform: Matrix = IDENTITY) => {
+  ctx.save();
+  traceOutline(ctx, outline.map(p => applyToPoint(transform, p)));
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash([5, 5]);
+  ctx.strokeStyle = '#FFFFFF';
+  ctx.stroke();
+  ctx.lineDashOffset = 5;
+  ctx.strokeStyle = '#007AFF';
+  ctx.stroke();
+  ctx.restore();
+};
+
+/** Whether a canvas point is inside the selected shape (even-odd, like the lasso is filled) */
+export const isPointInSelection = (selection: FloatingSelection, point: Point) => {
+  const p = applyToPoint(invert(selection.transform), point);
+  const { outline } = selection;
+  let inside = false;
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+/** Axis-aligned box around the selection where it is now, e.g. to place UI next to it */
+export const getSelectionBox = (selection: FloatingSelection): Bounds => {
+  const { x, y, width, height } = selection.bounds;
+  const corners = getRectOutline({ x, y }, { x: x + width, y: y + height }).map(p => applyToPoint(selection.transform, p));
+  const xs = corners.map(p => p.x);
+  const ys = corners.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+};
+
+/** A copy for the clipboard, so later edits to the selection don't change it */
+export const copyFloating = (selection: FloatingSelection): FloatingSelection => {
+  const pixels = document.createElement('canvas');
+  pixels.width = selection.pixels.width;
+  pixels.height = selection.pixels.height;
+  pixels.getContext('2d')?.drawImage(selection.pixels, 0, 0);
+  return { ...selection, pixels };
+};
+
+/** The layer with the selection stamped down. `lifted` cuts the hole it was lifted from first. */
+export const renderCommittedLayer = (
+  base: ImageBitmap,
+  selection: FloatingSelection | null,
+  lifted: Point[] | null,
+  width: number,
+  height: number
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+  ctx.drawImage(base, 0, 0, width, height);
+  if (lifted) clearOutline(ctx, lifted);
+  if (selection) drawFloating(ctx, selection);
+  return canvas;
+};
@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from 'uuid';
+import { EffectRun, Frame, FrameLayer, ImageHandle, Project } from '../types';
+import { createZip, readZip, ZipEntry } from './zip';
+import { LEGACY_PROJECT_SIZE } from './resolution';
+import { createImageFromBlob, getBitmap, getBlob } from './frameStore';
+import { getLayerKinds, LegacyLayers, upgradeLegacyLayers } from './layers';
+
+// Portable project archive (.animate): a zip with a JSON manifest plus one PNG per
+// frame composite and layer, and the background music track if there is one.
+
+export const BUNDLE_EXTENSION = 'animate';
+const BUNDLE_FORMAT = 'animate-project';
+const MANIFEST_FILE = 'manifest.json';
+
+/** Bump when the manifest shape changes and add a step to `MIGRATIONS`. */
+export const BUNDLE_VERSION = 4;
+
+interface BundleLayer extends Omit<FrameLayer, 'image'> {
+  image: string; // Path of the layer PNG inside the archive
+}
+
+interface BundleFrame {
+  id: string;
+  composite: string; // Path of the composite PNG inside the archive
+  layers: BundleLayer[]; // Bottom to top
+  duration?: number; // Exposures, omitted when 1
+  keyframe?: boolean; // Omitted unless marked
+  effect?: EffectRun; // Only on frames an effect generated
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  project: {
+    name: string;
+    fps: number;
+    lastModified: number;
+    width?: number; // Only missing when migrated from v1, then inferred from the frames
+    height?: number;
+  };
+  frames: BundleFrame[];
+  audio?: { file: string; mimeType: string } | null;
+}
+
+// Frames of any version: v1 and v2 have plain layer images, v3 layer records without a kind
+interface LegacyBundleFrame extends Omit<BundleFrame, 'layers'>, LegacyLayers<string> {}
+
+interface LegacyBundleManifest extends Omit<BundleManifest, 'frames'> {
+  frames: LegacyBundleFrame[];
+}
+
+// Each step upgrades a manifest from version N (the key) to N + 1.
+// Older bundles are run through every step up to BUNDLE_VERSION before being read.
+const MIGRATIONS: Record<number, (manifest: LegacyBundleManifest) => LegacyBundleManifest> = {
+  // v2: projects carry a fixed resolution. v1 bundles leave it unset so it's measured on import.
+  1: (manifest) => ({ ...manifest, project: { ...manifest.project, width: undefined, height: undefined } }),
+  // v3: layers are records with name/visibility/lock/opacity/blend mode, and own their objects.
+  // The upgraded layers keep their image paths in `image`, as v3 has them.
+  2: (manifest) => ({
+    ...manifest,
+    frames: manifest.frames.map(({ layers, objects, ...frame }) => ({ ...frame, layers: upgradeLegacyLayers({ layers, objects }) }))
+  }),
+  // v4: layers are raster or vector
+  3: (manifest) => {
+    const frames = manifest.frames.map(frame => ({ ...frame, layers: upgradeLegacyLayers(frame) }));
+    const kindOf = getLayerKinds(frames);
+    return {
+      ...manifest,
+      frames: frames.map(frame => ({ ...frame, layers: frame.layers.map(layer => ({ ...layer, kind: kindOf(layer) })) }))
+    };
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isBundleLayer = (layer: unknown) =>
+  isRecord(layer) && typeof layer.id === 'string' && typeof layer.image === 'string';
+
+const isLegacyBundleFrame = (frame: unknown): frame is LegacyBundleFrame =>
+  isRecord(frame) && typeof frame.id === 'string' && typeof frame.composite === 'string' &&
+  Array.isArray(frame.layers) &&
+  (frame.layers.every(layer => typeof layer === 'string') || frame.layers.every(isBundleLayer));
+
+const isLegacyBundleManifest = (manifest: unknown): manifest is LegacyBundleManifest =>
+  isRecord(manifest) && isRecord(manifest.project) &&
+  typeof manifest.project.name === 'string' && typeof manifest.project.fps === 'number' &&
+  Array.isArray(manifest.frames) && manifest.frames.every(isLegacyBundleFrame);
+
+const hasLayerKinds = (manifest: LegacyBundleManifest): manifest is BundleManifest =>
+  manifest.frames.every(frame => frame.layers.every(layer =>
+    typeof layer !== 'string' && (layer.kind === 'raster' || layer.kind === 'vector')));
+
+const migrateManifest = (raw: unknown): BundleManifest => {
+  if (!isRecord(raw) || raw.format !== BUNDLE_FORMAT) {
+    throw new Error("This file is not an AniMate project");
+  }
+  if (typeof raw.version !== 'number' || raw.version > BUNDLE_VERSION) {
+    throw new Error("This project was made with a newer version of the app");
+  }
+  if (!isLegacyBundleManifest(raw)) {
+    throw new Error("This project file is damaged");
+  }
+
+  let manifest: LegacyBundleManifest = raw;
+  for (let version = raw.version; version < BUNDLE_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from bundle version ${version}`);
+    manifest = { ...migrate(manifest), version: version + 1 };
+  }
+  if (!hasLayerKinds(manifest)) {
+    throw new Error("This project file is damaged");
+  }
+  return manifest;
+};
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac'
+};
+
+const imageToBytes = async (image: ImageHandle) => new Uint8Array(await (await getBlob(image)).arrayBuffer());
+
+export const exportProjectBundle = async (project: Project, audio: Blob | null): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const frames: BundleFrame[] = [];
+
+  for (let i = 0; i < project.frames.length; i++) {
+    const frame = project.frames[i];
+    const dir = `frames/${String(i + 1).padStart(4, '0')}`;
+    const composite = `${dir}/composite.png`;
+    entries.push({ name: composite, data: await imageToBytes(frame.composite) });
+
+    const layers: BundleLayer[] = [];
+    for (let l = 0; l < frame.layers.length; l++) {
+      const { image, ...layer } = frame.layers[l];
+      const path = `${dir}/layer-${l}.png`;
+      entries.push({ name: path, data: await imageToBytes(image) });
+      layers.push({ ...layer, image: path });
+    }
+
+    frames.push({
+      id: frame.id,
+      composite,
+      layers,
+      ...(frame.duration && frame.duration > 1 ? { duration: frame.duration } : {}),
+      ...(frame.keyframe ? { keyframe: true } : {}),
+      ...(frame.effect ? { effect: frame.effect } : {})
+    });
+  }
+
+  let audioInfo: BundleManifest['audio'] = null;
+  if (audio) {
+    const mimeType = audio.type || 'audio/mpeg';
+    const file = `audio/track.${AUDIO_EXTENSIONS[mimeType] || 'bin'}`;
+    entries.push({ name: file, data: new Uint8Array(await audio.arrayBuffer()) });
+    audioInfo = { file, mimeType };
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    project: {
+      name: project.name,
+      fps: project.fps,
+      lastModified: project.lastModified,
+      width: project.width,
+      height: project.height
+    },
+    frames,
+    audio: audioInfo
+  };
+
+  // Manifest first so tools listing the archive see it at the top
+  entries.unshift({ name: MANIFEST_FILE, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+// v1 bundles don't say how big the project is
+const measureFirstFrame = async (frames: Frame[]) => {
+  if (frames.length === 0) return LEGACY_PROJECT_SIZE;
+  const { width, height } = await getBitmap(frames[0].composite);
+  return { width, height };
+};
+
+/**
+ * Reads a bundle back into a new project. Project and frame ids are regenerated,
+ * so importing the same file twice creates two independent copies.
+ */
+export const importProjectBundle = async (file: Blob): Promise<{ project: Project; audio: Blob | null }> => {
+  const files = await readZip(file);
+  const manifestData = files.get(MANIFEST_FILE);
+  if (!manifestData) throw new Error("This file is not an AniMate project");
+
+  const manifest = migrateManifest(JSON.parse(new TextDecoder().decode(manifestData)));
+
+  const readImage = (path: string) => {
+    const data = files.get(path);
+    if (!data) throw new Error(`Missing ${path} in project file`);
+    return createImageFromBlob(new Blob([data], { type: 'image/png' }));
+  };
+
+  const frames: Frame[] = [];
+  for (const bundleFrame of manifest.frames) {
+    frames.push({
+      id: uuidv4(),
+      composite: readImage(bundleFrame.composite),
+      layers: bundleFrame.layers.map(({ image, ...layer }) => ({
+        ...layer,
+        image: readImage(image)
+      })),
+      ...(bundleFrame.duration ? { duration: bundleFrame.duration } : {}),
+      ...(bundleFrame.keyframe ? { keyframe: true } : {}),
+      ...(bundleFrame.effect ? { effect: bundleFrame.effect } : {})
+    });
+  }
+
+  let audio: Blob | null = null;
+  if (manifest.audio) {
+    const data = files.get(manifest.audio.file);
+    if (data) audio = new Blob([data], { type: manifest.audio.mimeType });
+  }
+
+  const { width, height } = manifest.project.width && manifest.project.height
+    ? { width: manifest.project.width, height: manifest.project.height }
+    : await measureFirstFrame(frames);
+
+  const project: Project = {
+    id: uuidv4(),
+    name: manifest.project.name,
+    lastModified: Date.now(),
+    preview: frames[0]?.composite || null,
+    frames,
+    frameCount: frames.length,
+    fps: manifest.project.fps,
+    width,
+    height
+  };
+
+  return { project, audio };
+};
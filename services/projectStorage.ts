@@ -0,0 +1,337 @@
+import { DrawObject, EffectRun, Frame, Project } from '../types';
+import { measureImage } from './resolution';
+import { assignLayerKinds, KindlessFrame, LayerRecord, upgradeLegacyFrame, upgradeLegacyLayers } from './layers';
+import { createImageFromBlob, createImageFromDataUrl, getBlob, getThumbnailBlob } from './frameStore';
+
+// IndexedDB-backed project repository.
+// Project metadata lives in the `projects` store, every frame (composite + layer images)
+// in the `frames` store so projects can be listed without decoding their drawings.
+// Images are stored as PNG blobs, encoded by the frame store only when they're first saved.
+// The background music track of a project is kept in the `audio` store.
+
+const DB_NAME = 'animate';
+const DB_VERSION = 2;
+const PROJECTS_STORE = 'projects';
+const FRAMES_STORE = 'frames';
+const AUDIO_STORE = 'audio';
+const LEGACY_STORAGE_KEY = 'animate_projects';
+const SAVE_DEBOUNCE_MS = 500;
+
+interface StoredProject {
+  id: string;
+  name: string;
+  lastModified: number;
+  preview?: Blob | null; // Thumbnail of the first frame
+  previewImage?: string; // Data URL on projects saved before images were stored as blobs
+  fps: number;
+  width?: number; // Missing on projects saved before fixed resolutions
+  height?: number;
+  frameIds: string[];
+}
+
+// `kind` is missing on layers saved before layer kinds
+type StoredLayer = LayerRecord<Blob>;
+
+interface StoredFrame {
+  id: string;
+  projectId: string;
+  composite: Blob;
+  layers: StoredLayer[] | Blob[]; // Plain images on frames saved before layer records
+  objects?: DrawObject[][]; // Only on those older frames, one object list per layer
+  duration?: number;
+  keyframe?: boolean;
+  effect?: EffectRun;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let migrationPromise: Promise<void> | null = null;
+
+// Frames already written to the database. Frames are replaced (never mutated) on edit,
+// so an unchanged object reference means the stored copy is still current.
+const persistedFrames = new WeakSet<Frame>();
+const pendingSaves = new Map<string, { project: Project; timer: ReturnType<typeof setTimeout> }>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FRAMES_STORE)) {
+          const frames = db.createObjectStore(FRAMES_STORE, { keyPath: 'id' });
+          frames.createIndex('projectId', 'projectId');
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toStoredProject = async (project: Project): Promise<StoredProject> => ({
+  id: project.id,
+  name: project.name,
+  lastModified: project.lastModified,
+  preview: project.preview ? await getThumbnailBlob(project.preview) : null,
+  fps: project.fps,
+  width: project.width,
+  height: project.height,
+  frameIds: project.frames.map(f => f.id)
+});
+
+const toStoredFrame = async (projectId: string, frame: Frame): Promise<StoredFrame> => ({
+  id: frame.id,
+  projectId,
+  composite: await getBlob(frame.composite),
+  layers: await Promise.all(frame.layers.map(async ({ image, ...layer }) => ({ ...layer, image: await getBlob(image) }))),
+  duration: frame.duration,
+  keyframe: frame.keyframe,
+  effect: frame.effect
+});
+
+const fromStoredFrame = (stored: StoredFrame): KindlessFrame => ({
+  id: stored.id,
+  composite: createImageFromBlob(stored.composite),
+  layers: upgradeLegacyLayers(stored).map(({ image, ...layer }) => ({
+    ...layer,
+    image: createImageFromBlob(image)
+  })),
+  ...(stored.duration ? { duration: stored.duration } : {}),
+  ...(stored.keyframe ? { keyframe: true } : {}),
+  ...(stored.effect ? { effect: stored.effect } : {})
+});
+
+// --- Migration from the old localStorage format ---
+
+// Projects as localStorage kept them, with every image as a data URL
+interface LocalStorageFrame {
+  id: string;
+  dataUrl: string; // Composite
+  layers?: string[]; // Background, Middle, Foreground
+  objects?: DrawObject[][]; // One object list per layer
+}
+
+interface LocalStorageProject {
+  id: string;
+  name: string;
+  lastModified: number;
+  previewImage?: string; // The first frame
+  frames: LocalStorageFrame[];
+  fps: number;
+}
+
+const migrateLegacyStorage = async () => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+
+  let legacyProjects: LocalStorageProject[];
+  try {
+    legacyProjects = JSON.parse(saved);
+    if (!Array.isArray(legacyProjects)) throw new Error("Expected a list of projects");
+  } catch (e) {
+    // Left in place, so the drawings aren't lost if a later version can read them
+    console.error("Legacy project data is corrupt, skipping migration", e);
+    return;
+  }
+
+  for (const { previewImage, frames, ...project } of legacyProjects) {
+    // Those projects took their size from the editor viewport; recover it from the drawing itself
+    const size = await measureImage(previewImage || '');
+    await writeProject({
+      ...project,
+      ...size,
+      preview: previewImage ? createImageFromDataUrl(previewImage) : null,
+      frames: assignLayerKinds(frames.map(({ dataUrl, layers = [], ...frame }) => upgradeLegacyFrame({
+        ...frame,
+        composite: createImageFromDataUrl(dataUrl),
+        layers: layers.map(createImageFromDataUrl)
+      })))
+    });
+  }
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+const ensureMigrated = () => {
+  if (!migrationPromise) {
+    migrationPromise = migrateLegacyStorage().catch(e => {
+      migrationPromise = null;
+      throw e;
+    });
+  }
+  return migrationPromise;
+};
+
+// --- Repository API ---
+
+const writeProject = async (project: Project) => {
+  // Encode before opening the transaction, which would otherwise close while waiting.
+  // One frame at a time so a long timeline doesn't hold every image's canvas at once.
+  const storedProject = await toStoredProject(project);
+  const written = project.frames.filter(frame => !persistedFrames.has(frame));
+  const storedFrames: StoredFrame[] = [];
+  for (const frame of written) {
+    storedFrames.push(await toStoredFrame(project.id, frame));
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, FRAMES_STORE], 'readwrite');
+  const framesStore = tx.objectStore(FRAMES_STORE);
+
+  tx.objectStore(PROJECTS_STORE).put(storedProject);
+  storedFrames.forEach(frame => framesStore.put(frame));
+
+  // Remove frames that were deleted from the project since the last save
+  const keepIds = new Set(project.frames.map(f => f.id));
+  const storedIds = await requestToPromise(framesStore.index('projectId').getAllKeys(project.id));
+  storedIds.forEach(key => {
+    if (!keepIds.has(key as string)) framesStore.delete(key);
+  });
+
+  await transactionDone(tx);
+  written.forEach(frame => persistedFrames.add(frame));
+};
+
+/** Lists all projects with metadata only; `frames` is empty until loaded via `loadProjectFrames`. */
+export const listProjects = async (): Promise<Project[]> => {
+  await ensureMigrated();
+  const db = await openDatabase();
+  const stored = await requestToPromise<StoredProject[]>(
+    db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll()
+  );
+
+  const projects = await Promise.all(stored.map(async (p): Promise<Project> => {
+    // Older projects took their size from the editor viewport; recover it from the drawing itself
+    const size = p.width && p.height
+      ? { width: p.width, height: p.height }
+      : await measureImage(p.previewImage || '');
+    const preview = p.preview
+      ? createImageFromBlob(p.preview)
+      : p.previewImage ? createImageFromDataUrl(p.previewImage) : null;
+    return {
+      id: p.id,
+      name: p.name,
+      lastModified: p.lastModified,
+      preview,
+      fps: p.fps,
+      width: size.width,
+      height: size.height,
+      frames: [],
+      frameCount: p.frameIds.length
+    };
+  }));
+
+  return projects.sort((a, b) => b.lastModified - a.lastModified);
+};
+
+/** Loads the frames of a project in timeline order. */
+export const loadProjectFrames = async (projectId: string): Promise<Frame[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, FRAMES_STORE]);
+  const project = await requestToPromise<StoredProject | undefined>(tx.objectStore(PROJECTS_STORE).get(projectId));
+  if (!project) return [];
+
+  const storedFrames = await requestToPromise<StoredFrame[]>(
+    tx.objectStore(FRAMES_STORE).index('projectId').getAll(projectId)
+  );
+  const byId = new Map(storedFrames.map(f => [f.id, f]));
+
+  const frames = project.frameIds
+    .map(id => byId.get(id))
+    .filter((f): f is StoredFrame => !!f)
+    .map(fromStoredFrame);
+  // Frames that get a layer kind here are new objects, so the next save writes them
+  const loaded = assignLayerKinds(frames);
+  if (loaded === frames) loaded.forEach(frame => persistedFrames.add(frame));
+  return loaded;
+};
+
+/** Persists a project immediately, writing only frames that changed since the last save. */
+export const saveProject = async (project: Project) => {
+  await ensureMigrated();
+  const pending = pendingSaves.get(project.id);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(project.id);
+  }
+  await writeProject(project);
+};
+
+/** Debounced save used for auto-saving while editing. */
+export const scheduleProjectSave = (project: Project) => {
+  const pending = pendingSaves.get(project.id);
+  if (pending) clearTimeout(pending.timer);
+
+  const timer = setTimeout(() => {
+    pendingSaves.delete(project.id);
+    writeProject(project).catch(e => console.error("Auto-save failed", e));
+  }, SAVE_DEBOUNCE_MS);
+  pendingSaves.set(project.id, { project, timer });
+};
+
+/** Writes any scheduled saves right away (e.g. when leaving the editor). */
+export const flushProjectSaves = async () => {
+  const projects = [...pendingSaves.values()].map(p => p.project);
+  await Promise.all(projects.map(saveProject));
+};
+
+export const deleteProject = async (projectId: string) => {
+  const pending = pendingSaves.get(projectId);
+  if (pending) {
+    clearTimeout(pending.timer);
+    pendingSaves.delete(projectId);
+  }
+
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS_STORE, FRAMES_STORE, AUDIO_STORE], 'readwrite');
+  const framesStore = tx.objectStore(FRAMES_STORE);
+  tx.objectStore(PROJECTS_STORE).delete(projectId);
+  tx.objectStore(AUDIO_STORE).delete(projectId);
+  const frameIds = await requestToPromise(framesStore.index('projectId').getAllKeys(projectId));
+  frameIds.forEach(key => framesStore.delete(key));
+  await transactionDone(tx);
+};
+
+/** Stores (or with `null`, removes) the background music of a project. */
+export const saveProjectAudio = async (projectId: string, audio: Blob | null) => {
+  const db = await openDatabase();
+  const tx = db.transaction(AUDIO_STORE, 'readwrite');
+  if (audio) {
+    tx.objectStore(AUDIO_STORE).put(audio, projectId);
+  } else {
+    tx.objectStore(AUDIO_STORE).delete(projectId);
+  }
+  await transactionDone(tx);
+};
+
+export const loadProjectAudio = async (projectId: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const audio = await requestToPromise<Blob | undefined>(
+    db.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).get(projectId)
+  );
+  return audio || null;
+};
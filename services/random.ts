@@ -0,0 +1,29 @@
+// Seeded randomness, so textures and effects come out pixel-identical when replayed with the same seed.
+// Anything that ends up in a drawing should take its randomness from here, not Math.random.
+
+export type Random = () => number; // 0 (inclusive) to 1 (exclusive), like Math.random
+
+/** A fresh seed for a new stroke or effect run. Store it with the result to reproduce it later. */
+export const createSeed = () => Math.floor(Math.random() * 0x100000000);
+
+/** mulberry32: tiny, fast and good enough for brush grain and particle jitter */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+/** Stable seed from a string, e.g. an id for things saved before they had a seed (FNV-1a) */
+export const hashSeed = (text: string) => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
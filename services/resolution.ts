@@ -0,0 +1,54 @@
+// Stage size presets offered when creating a project.
+// A project's resolution is fixed at creation; the editor scales the stage to fit the screen.
+
+export interface ResolutionPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const RESOLUTION_PRESETS: ResolutionPreset[] = [
+  { id: 'wide-1080', label: 'Widescreen HD', width: 1920, height: 1080 },
+  { id: 'wide-720', label: 'Widescreen', width: 1280, height: 720 },
+  { id: 'classic', label: 'Classic TV', width: 1024, height: 768 },
+  { id: 'square', label: 'Square', width: 1080, height: 1080 },
+  { id: 'portrait', label: 'Phone', width: 720, height: 1280 }
+];
+
+export const DEFAULT_PRESET_ID = 'wide-720';
+
+// Size the app used before projects had their own resolution
+export const LEGACY_PROJECT_SIZE = { width: 800, height: 600 };
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/** Human readable aspect ratio, e.g. 1920x1080 -> "16:9" */
+export const formatAspectRatio = (width: number, height: number) => {
+  const divisor = gcd(width, height) || 1;
+  return `${width / divisor}:${height / divisor}`;
+};
+
+/** Largest size with the given aspect ratio that fits inside the available area */
+export const fitToArea = (width: number, height: number, areaWidth: number, areaHeight: number) => {
+  if (width <= 0 || height <= 0 || areaWidth <= 0 || areaHeight <= 0) return { width: 0, height: 0 };
+  const scale = Math.min(areaWidth / width, areaHeight / height);
+  return { width: Math.floor(width * scale), height: Math.floor(height * scale) };
+};
+
+/** Natural size of an image, used to infer the resolution of projects made before presets existed */
+export const measureImage = (src: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve) => {
+    if (!src) {
+      resolve(LEGACY_PROJECT_SIZE);
+      return;
+    }
+    const img = new Image();
+    img.onload = () => resolve({
+      width: img.naturalWidth || LEGACY_PROJECT_SIZE.width,
+      height: img.naturalHeight || LEGACY_PROJECT_SIZE.height
+    });
+    img.onerror = () => resolve(LEGACY_PROJECT_SIZE);
+    img.src = src;
+  });
+};
@@ -0,0 +1,281 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DrawObject, ShapeKind, ShapeStyle, ToolType } from '../types';
+
+// Vector shapes. A shape is a DrawObject of type 'shape': `paths` holds the two points it was
+// dragged out between (the ends of a line or arrow, opposite corners of the others), `color`
+// and `brushSize` its outline, and `shape` the rest. Like strokes, it's moved and resized by
+// its transform, so these only ever work in the shape's own space. Speech and thought bubbles
+// also have a tail, pointing at whoever is talking.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  kind: 'rectangle',
+  fill: null,
+  cornerRadius: 0,
+  sides: 5
+};
+
+export const SHAPE_KINDS: { value: ShapeKind; label: string }[] = [
+  { value: 'line', label: 'Line' },
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'polygon', label: 'Polygon' },
+  { value: 'star', label: 'Star' },
+  { value: 'speech', label: 'Speech Bubble' },
+  { value: 'thought', label: 'Thought Bubble' }
+];
+
+export const MAX_CORNER_RADIUS = 60;
+export const MIN_SIDES = 3;
+export const MAX_SIDES = 12;
+const STAR_INNER_RATIO = 0.5;
+const ANGLE_SNAP = Math.PI / 4;
+const CLOUD_BUMPS = 9;
+const TAIL_SPREAD = 0.3; // Half the width of a speech tail where it meets the bubble, in radians around it
+
+const isOpenShape = (kind: ShapeKind) => kind === 'line' || kind === 'arrow';
+
+/** Whether the shape has an inside that can be filled */
+export const isFillable = (kind: ShapeKind) => !isOpenShape(kind);
+
+/** Whether corner radius does anything for this kind */
+export const hasCorners = (kind: ShapeKind) => kind === 'rectangle' || kind === 'polygon' || kind === 'star';
+
+export const isBubble = (kind: ShapeKind) => kind === 'speech' || kind === 'thought';
+
+const getArrowHeadLength = (width: number) => Math.max(12, width * 3);
+
+/**
+ * The two points a drag from `start` to `end` makes. `constrain` (Shift) keeps boxes square and
+ * lines at 45° steps; `fromCenter` (Alt) grows the shape out from where the drag started.
+ */
+export const getShapeCorners = (kind: ShapeKind, start: Point, end: Point, constrain: boolean, fromCenter: boolean): [Point, Point] => {
+  let dx = end.x - start.x;
+  let dy = end.y - start.y;
+
+  if (constrain && isOpenShape(kind)) {
+    const length = Math.hypot(dx, dy);
+    const angle = Math.round(Math.atan2(dy, dx) / ANGLE_SNAP) * ANGLE_SNAP;
+    dx = Math.cos(angle) * length;
+    dy = Math.sin(angle) * length;
+  } else if (constrain) {
+    const size = Math.max(Math.abs(dx), Math.abs(dy));
+    dx = Math.sign(dx || 1) * size;
+    dy = Math.sign(dy || 1) * size;
+  }
+
+  const far = { x: start.x + dx, y: start.y + dy };
+  return fromCenter ? [{ x: start.x - dx, y: start.y - dy }, far] : [start, far];
+};
+
+const getRegularPoints = (a: Point, b: Point, count: number, innerRatio: number | null) => {
+  const cx = (a.x + b.x) / 2;
+  const cy = (a.y + b.y) / 2;
+  const rx = Math.abs(b.x - a.x) / 2;
+  const ry = Math.abs(b.y - a.y) / 2;
+  const steps = innerRatio === null ? count : count * 2;
+  return Array.from({ length: steps }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * Math.PI * 2) / steps;
+    const r = innerRatio !== null && i % 2 === 1 ? innerRatio : 1;
+    return { x: cx + Math.cos(angle) * rx * r, y: cy + Math.sin(angle) * ry * r };
+  });
+};
+
+// Closed outline through `points` with corners rounded off, as far as the edges allow
+const traceRoundedPolygon = (ctx: CanvasRenderingContext2D, points: Point[], radius: number) => {
+  const n = points.length;
+  if (radius <= 0) {
+    points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    return;
+  }
+  const shortest = Math.min(...points.map((p, i) => Math.hypot(points[(i + 1) % n].x - p.x, points[(i + 1) % n].y - p.y)));
+  const r = Math.min(radius, shortest / 2);
+  const last = points[n - 1];
+  ctx.moveTo((last.x + points[0].x) / 2, (last.y + points[0].y) / 2);
+  points.forEach((p, i) => {
+    const next = points[(i + 1) % n];
+    ctx.arcTo(p.x, p.y, next.x, next.y, r);
+  });
+  ctx.closePath();
+};
+
+const getEllipse = (a: Point, b: Point) => ({
+  cx: (a.x + b.x) / 2,
+  cy: (a.y + b.y) / 2,
+  rx: Math.abs(b.x - a.x) / 2,
+  ry: Math.abs(b.y - a.y) / 2
+});
+
+// Below the bubble, a little left of the middle
+const getDefaultTail = (a: Point, b: Point): Point => ({
+  x: Math.min(a.x, b.x) + Math.abs(b.x - a.x) * 0.25,
+  y: Math.max(a.y, b.y) + Math.abs(b.y - a.y) * 0.4
+});
+
+export const getTail = (obj: DrawObject): Point => obj.tail || getDefaultTail(obj.paths[0], obj.paths[1]);
+
+// Ellipse parameter pointing at the tail tip, or null when the tip is inside the bubble (no tail)
+const getTailAngle = (a: Point, b: Point, tip: Point) => {
+  const { cx, cy, rx, ry } = getEllipse(a, b);
+  if (rx < 1 || ry < 1) return null;
+  const u = (tip.x - cx) / rx;
+  const v = (tip.y - cy) / ry;
+  return u * u + v * v > 1 ? Math.atan2(v, u) : null;
+};
+
+const traceSpeechBubble = (ctx: CanvasRenderingContext2D, a: Point, b: Point, tip: Point) => {
+  const { cx, cy, rx, ry } = getEllipse(a, b);
+  const angle = getTailAngle(a, b, tip);
+  if (angle === null) {
+    ctx.ellipse(cx, cy, rx, ry, 0, 0, Math.PI * 2);
+    return;
+  }
+  // Round the bubble, leaving a gap the tail comes out of
+  ctx.ellipse(cx, cy, rx, ry, 0, angle + TAIL_SPREAD, angle - TAIL_SPREAD + Math.PI * 2);
+  ctx.lineTo(tip.x, tip.y);
+  ctx.closePath();
+};
+
+const traceThoughtBubble = (ctx: CanvasRenderingContext2D, a: Point, b: Point, tip: Point) => {
+  const { cx, cy, rx, ry } = getEllipse(a, b);
+  // Bumps between points a bit inside the ellipse, bulging out to about its edge
+  const at = (angle: number, scale: number) => ({ x: cx + Math.cos(angle) * rx * scale, y: cy + Math.sin(angle) * ry * scale });
+  const step = (Math.PI * 2) / CLOUD_BUMPS;
+  const first = at(0, 0.85);
+  ctx.moveTo(first.x, first.y);
+  for (let i = 0; i < CLOUD_BUMPS; i++) {
+    const control = at((i + 0.5) * step, 1.15);
+    const next = at((i + 1) * step, 0.85);
+    ctx.quadraticCurveTo(control.x, control.y, next.x, next.y);
+  }
+  ctx.closePath();
+
+  // Trail of shrinking puffs out to the tip
+  const angle = getTailAngle(a, b, tip);
+  if (angle === null) return;
+  const edge = at(angle, 1);
+  const size = Math.min(rx, ry) * 0.25;
+  [0.25, 0.6, 0.95].forEach((t, i) => {
+    const x = edge.x + (tip.x - edge.x) * t;
+    const y = edge.y + (tip.y - edge.y) * t;
+    const r = size * (1 - i * 0.3);
+    ctx.moveTo(x + r, y);
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+  });
+};
+
+/** Starts a new path with the shape's outline */
+const traceShape = (ctx: CanvasRenderingContext2D, obj: DrawObject) => {
+  const style = obj.shape;
+  const [a, b] = obj.paths;
+  ctx.beginPath();
+  if (!style || !a || !b) return;
+
+  switch (style.kind) {
+    case 'line':
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      break;
+    case 'arrow': {
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      const angle = Math.atan2(b.y - a.y, b.x - a.x);
+      const head = Math.min(getArrowHeadLength(obj.brushSize), Math.hypot(b.x - a.x, b.y - a.y));
+      [-1, 1].forEach(side => {
+        ctx.moveTo(b.x, b.y);
+        ctx.lineTo(b.x - Math.cos(angle + side * Math.PI / 6) * head, b.y - Math.sin(angle + side * Math.PI / 6) * head);
+      });
+      break;
+    }
+    case 'ellipse':
+      ctx.ellipse((a.x + b.x) / 2, (a.y + b.y) / 2, Math.abs(b.x - a.x) / 2, Math.abs(b.y - a.y) / 2, 0, 0, Math.PI * 2);
+      break;
+    case 'rectangle':
+      traceRoundedPolygon(ctx, [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }], style.cornerRadius);
+      break;
+    case 'polygon':
+      traceRoundedPolygon(ctx, getRegularPoints(a, b, style.sides, null), style.cornerRadius);
+      break;
+    case 'star':
+      traceRoundedPolygon(ctx, getRegularPoints(a, b, style.sides, STAR_INNER_RATIO), style.cornerRadius);
+      break;
+    case 'speech':
+      traceSpeechBubble(ctx, a, b, getTail(obj));
+      break;
+    case 'thought':
+      traceThoughtBubble(ctx, a, b, getTail(obj));
+      break;
+  }
+};
+
+/** Draws the shape in its own space; the caller applies its transform */
+export const drawShape = (ctx: CanvasRenderingContext2D, obj: DrawObject) => {
+  if (!obj.shape) return;
+  traceShape(ctx, obj);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  if (obj.shape.fill && isFillable(obj.shape.kind)) {
+    ctx.fillStyle = obj.shape.fill;
+    ctx.fill();
+  }
+  if (obj.brushSize > 0) {
+    ctx.strokeStyle = obj.color;
+    ctx.lineWidth = obj.brushSize;
+    ctx.stroke();
+  }
+};
+
+let hitContext: CanvasRenderingContext2D | null = null;
+
+/** Whether a point (in the shape's space) touches its outline within `slack`, or its filled inside */
+export const hitTestShape = (obj: DrawObject, point: Point, slack: number) => {
+  if (!obj.shape) return false;
+  hitContext = hitContext || document.createElement('canvas').getContext('2d');
+  const ctx = hitContext;
+  if (!ctx) return false;
+  traceShape(ctx, obj);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = obj.brushSize + slack * 2;
+  return (!!obj.shape.fill && isFillable(obj.shape.kind) && ctx.isPointInPath(point.x, point.y)) ||
+    ctx.isPointInStroke(point.x, point.y);
+};
+
+const getShapeBounds = (kind: ShapeKind, width: number, a: Point, b: Point, tail?: Point) => {
+  // Room for the outline, and an arrow head sticking out sideways
+  const pad = width / 2 + (kind === 'arrow' ? getArrowHeadLength(width) / 2 : 0);
+  const xs = [a.x, b.x, ...(tail ? [tail.x] : [])];
+  const ys = [a.y, b.y, ...(tail ? [tail.y] : [])];
+  const x = Math.min(...xs) - pad;
+  const y = Math.min(...ys) - pad;
+  return { x, y, width: Math.max(...xs) + pad - x, height: Math.max(...ys) + pad - y };
+};
+
+export const createShape = (style: ShapeStyle, color: string, width: number, [a, b]: [Point, Point]): DrawObject => {
+  const tail = isBubble(style.kind) ? getDefaultTail(a, b) : undefined;
+  return {
+    id: uuidv4(),
+    type: 'shape',
+    paths: [a, b],
+    color,
+    brushSize: width,
+    tool: ToolType.SHAPE,
+    bounds: getShapeBounds(style.kind, width, a, b, tail),
+    rotation: 0,
+    shape: { ...style, fill: isFillable(style.kind) ? style.fill : null },
+    ...(tail ? { tail } : {})
+  };
+};
+
+/** The bubble with its tail tip moved to `tail` (in the bubble's own space) */
+export const setBubbleTail = (obj: DrawObject, tail: Point): DrawObject => ({
+  ...obj,
+  tail,
+  bounds: getShapeBounds(obj.shape?.kind || 'speech', obj.brushSize, obj.paths[0], obj.paths[1], tail)
+});
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DrawObject, TextAlign, TextStyle, ToolType } from '../types';
+
+// Text objects, for titles and dialogue. `paths` holds a single anchor: the top of the first
+// line, at its left edge, middle or right edge depending on the alignment. `color` fills the
+// letters. Like other objects, text is moved, scaled and turned by its transform.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export const TEXT_FONTS: { value: string; label: string }[] = [
+  { value: '"Comic Sans MS", "Comic Neue", "Chalkboard SE", cursive', label: 'Comic' },
+  { value: '"Arial Rounded MT Bold", "Nunito", "Helvetica Neue", Arial, sans-serif', label: 'Rounded' },
+  { value: 'Impact, "Arial Black", sans-serif', label: 'Poster' },
+  { value: 'Georgia, "Times New Roman", serif', label: 'Storybook' },
+  { value: '"Courier New", Courier, monospace', label: 'Typewriter' }
+];
+
+export const TEXT_ALIGNS: { value: TextAlign; label: string }[] = [
+  { value: 'left', label: 'Left' },
+  { value: 'center', label: 'Center' },
+  { value: 'right', label: 'Right' }
+];
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: TEXT_FONTS[0].value,
+  fontSize: 48,
+  align: 'center',
+  outline: null,
+  outlineWidth: 4
+};
+
+export const MIN_FONT_SIZE = 12;
+export const MAX_FONT_SIZE = 160;
+export const MAX_OUTLINE_WIDTH = 12;
+const LINE_HEIGHT = 1.2;
+
+const toFont = (style: TextStyle) => `${style.fontSize}px ${style.fontFamily}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getTextBounds = (text: string, style: TextStyle, anchor: Point) => {
+  measureContext = measureContext || document.createElement('canvas').getContext('2d');
+  const ctx = measureContext;
+  const lines = text.split('\n');
+  let width = style.fontSize / 2;
+  if (ctx) {
+    ctx.font = toFont(style);
+    width = Math.max(width, ...lines.map(line => ctx.measureText(line).width));
+  }
+  const left = style.align === 'left' ? anchor.x : style.align === 'center' ? anchor.x - width / 2 : anchor.x - width;
+  const pad = style.outline ? style.outlineWidth : 0;
+  return {
+    x: left - pad,
+    y: anchor.y - pad,
+    width: width + pad * 2,
+    height: lines.length * style.fontSize * LINE_HEIGHT + pad * 2
+  };
+};
+
+export const createText = (text: string, style: TextStyle, color: string, anchor: Point, id: string = uuidv4()): DrawObject => ({
+  id,
+  type: 'text',
+  paths: [anchor],
+  color,
+  brushSize: 0,
+  tool: ToolType.TEXT,
+  bounds: getTextBounds(text, style, anchor),
+  rotation: 0,
+  text,
+  textStyle: style
+});
+
+/** The text object with new words, style or color, and its bounds to match */
+export const updateText = (obj: DrawObject, changes: Partial<Pick<DrawObject, 'text' | 'textStyle' | 'color'>>): DrawObject => {
+  const next = { ...obj, ...changes };
+  return { ...next, bounds: getTextBounds(next.text || '', next.textStyle || DEFAULT_TEXT_STYLE, next.paths[0]) };
+};
+
+/** Draws the text in its own space; the caller applies its transform */
+export const drawText = (ctx: CanvasRenderingContext2D, obj: DrawObject) => {
+  const style = obj.textStyle;
+  if (!style || !obj.text) return;
+  const anchor = obj.paths[0];
+  ctx.font = toFont(style);
+  ctx.textAlign = style.align;
+  ctx.textBaseline = 'top';
+  ctx.lineJoin = 'round';
+
+  obj.text.split('\n').forEach((line, i) => {
+    // Line spacing is shared above and below the letters
+    const y = anchor.y + (i * LINE_HEIGHT + (LINE_HEIGHT - 1) / 2) * style.fontSize;
+    if (style.outline && style.outlineWidth > 0) {
+      // Stroked twice as wide, since the fill covers the inner half
+      ctx.strokeStyle = style.outline;
+      ctx.lineWidth = style.outlineWidth * 2;
+      ctx.strokeText(line, anchor.x, y);
+    }
+    ctx.fillStyle = obj.color;
+    ctx.fillText(line, anchor.x, y);
+  });
+};
+
+/** Whether a point (in the text's space) is on its box, within `slack` */
+export const hitTestText = (obj: DrawObject, point: Point, slack: number) => {
+  const { x, y, width, height } = obj.bounds;
+  return point.x >= x - slack && point.x <= x + width + slack && point.y >= y - slack && point.y <= y + height + slack;
+};
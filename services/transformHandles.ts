@@ -0,0 +1,142 @@
+import { Matrix } from '../types';
+import {
+  applyToPoint, Bounds, getBoundsCenter, getMatrixRotation, invert, multiply, Point, rotationAround, scalingAround
+} from './objectTransform';
+
+// Scale and rotate handles around something placed with a matrix: a vector object, or lifted
+// pixels of a raster selection. Scale handles are named after the side of the untransformed
+// box they belong to; the rotate handle sits above the top edge, wherever that now points.
+
+export const HANDLE_SIZE = 10; // Grab distance around a handle, in canvas pixels
+const ROTATE_HANDLE_OFFSET = 30; // Rotate handle sits this far above the top edge
+const ROTATION_SNAP = Math.PI / 12; // 15° steps while Shift is held
+const MIN_SCALE = 0.05; // Can't be squashed flat
+
+export const SCALE_HANDLES = ['nw', 'n', 'ne', 'e', 'se', 's', 'sw', 'w'];
+
+/** Handle positions on the canvas */
+export const getHandlePositions = (bounds: Bounds, m: Matrix) => {
+  const { x, y, width, height } = bounds;
+  const local: Record<string, Point> = {
+    nw: { x, y },
+    n: { x: x + width / 2, y },
+    ne: { x: x + width, y },
+    e: { x: x + width, y: y + height / 2 },
+    se: { x: x + width, y: y + height },
+    s: { x: x + width / 2, y: y + height },
+    sw: { x, y: y + height },
+    w: { x, y: y + height / 2 }
+  };
+  const positions: Record<string, Point> = {};
+  SCALE_HANDLES.forEach(handle => {
+    positions[handle] = applyToPoint(m, local[handle]);
+  });
+
+  const center = applyToPoint(m, getBoundsCenter(bounds));
+  const top = positions.n;
+  const distance = Math.hypot(top.x - center.x, top.y - center.y);
+  const dir = distance > 0.001 ? { x: (top.x - center.x) / distance, y: (top.y - center.y) / distance } : { x: 0, y: -1 };
+  positions.rotate = { x: top.x + dir.x * ROTATE_HANDLE_OFFSET, y: top.y + dir.y * ROTATE_HANDLE_OFFSET };
+  return positions;
+};
+
+/** The scale or rotate handle at a point: 'nw', 'n', ... 'w' or 'rotate' */
+export const getHandleAt = (point: Point, bounds: Bounds, m: Matrix) => {
+  const positions = getHandlePositions(bounds, m);
+  for (const handle of ['rotate', ...SCALE_HANDLES]) {
+    const pos = positions[handle];
+    if (Math.abs(point.x - pos.x) < HANDLE_SIZE && Math.abs(point.y - pos.y) < HANDLE_SIZE) {
+      return handle;
+    }
+  }
+  return null;
+};
+
+/**
+ * New matrix for dragging `handle` from `start` to `point`. Worked out from the matrix the drag
+ * started with, so rounding doesn't build up over many moves. `proportional` (Shift) keeps
+ * proportions when scaling and snaps the angle when rotating.
+ */
+export const getDraggedMatrix = (handle: string, start: Point, point: Point, bounds: Bounds, m0: Matrix, proportional: boolean) => {
+  const b = bounds;
+
+  if (handle === 'rotate') {
+    const center = applyToPoint(m0, getBoundsCenter(b));
+    let angle = Math.atan2(point.y - center.y, point.x - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+    if (proportional) {
+      const base = getMatrixRotation(m0);
+      angle = Math.round((base + angle) / ROTATION_SNAP) * ROTATION_SNAP - base;
+    }
+    return multiply(rotationAround(angle, center), m0);
+  }
+
+  // Scale in the box's own axes, keeping the opposite side (or the centre) in place
+  const local = applyToPoint(invert(m0), point);
+  const scalesX = handle.includes('e') || handle.includes('w');
+  const scalesY = handle.includes('n') || handle.includes('s');
+  const anchor = {
+    x: handle.includes('w') ? b.x + b.width : handle.includes('e') ? b.x : b.x + b.width / 2,
+    y: handle.includes('n') ? b.y + b.height : handle.includes('s') ? b.y : b.y + b.height / 2
+  };
+  const grab = {
+    x: handle.includes('w') ? b.x : b.x + b.width,
+    y: handle.includes('n') ? b.y : b.y + b.height
+  };
+  let sx = scalesX ? (local.x - anchor.x) / (grab.x - anchor.x || 1) : 1;
+  let sy = scalesY ? (local.y - anchor.y) / (grab.y - anchor.y || 1) : 1;
+  if (proportional) {
+    const s = scalesX && scalesY ? (Math.abs(sx) > Math.abs(sy) ? sx : sy) : scalesX ? sx : sy;
+    sx = s;
+    sy = s;
+  }
+  const clamp = (s: number) => (Math.abs(s) < MIN_SCALE ? (s < 0 ? -MIN_SCALE : MIN_SCALE) : s);
+  return multiply(m0, scalingAround(clamp(sx), clamp(sy), anchor));
+};
+
+/** Mirror in the box's own axes, around its centre */
+export const getFlippedMatrix = (bounds: Bounds, m: Matrix, horizontal: boolean) =>
+  multiply(m, scalingAround(horizontal ? -1 : 1, horizontal ? 1 : -1, getBoundsCenter(bounds)));
+
+/** Dashed box with scale handles and the rotate handle, turned and flipped with the matrix */
+export const drawTransformBox = (ctx: CanvasRenderingContext2D, bounds: Bounds, m: Matrix) => {
+  const { x, y, width, height } = bounds;
+  const corners = [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + height },
+    { x, y: y + height }
+  ].map(p => applyToPoint(m, p));
+  const positions = getHandlePositions(bounds, m);
+
+  ctx.save();
+  ctx.strokeStyle = '#007AFF';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([5, 5]);
+  ctx.beginPath();
+  corners.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+  ctx.stroke();
+  ctx.setLineDash([]);
+
+  // Stem up to the rotate handle
+  ctx.beginPath();
+  ctx.moveTo(positions.n.x, positions.n.y);
+  ctx.lineTo(positions.rotate.x, positions.rotate.y);
+  ctx.stroke();
+
+  const handleSize = 8;
+  ctx.fillStyle = '#FFFFFF';
+
+  SCALE_HANDLES.forEach(handle => {
+    const pos = positions[handle];
+    ctx.fillRect(pos.x - handleSize / 2, pos.y - handleSize / 2, handleSize, handleSize);
+    ctx.strokeRect(pos.x - handleSize / 2, pos.y - handleSize / 2, handleSize, handleSize);
+  });
+
+  ctx.beginPath();
+  ctx.arc(positions.rotate.x, positions.rotate.y, handleSize / 2 + 1, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.restore();
+};
@@ -0,0 +1,147 @@
+import { Frame } from '../types';
+import { expandExposures } from './frameTiming';
+import { decodeImage, getBitmap } from './frameStore';
+
+export type VideoFormat = 'webm' | 'mp4';
+export type AudioFit = 'trim' | 'loop';
+
+export interface VideoExportOptions {
+  fps: number;
+  format: VideoFormat;
+  scale: number; // 1 = full size
+  repeat: number; // How many times the animation plays in the video
+  audioUrl?: string | null;
+  audioFit: AudioFit; // What to do when the music is shorter/longer than the animation
+}
+
+const MIME_CANDIDATES: Record<VideoFormat, string[]> = {
+  webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'],
+  mp4: ['video/mp4;codecs=avc1.42E01E,mp4a.40.2', 'video/mp4;codecs=avc1,mp4a', 'video/mp4']
+};
+
+const getMimeType = (format: VideoFormat): string | null => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_CANDIDATES[format].find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+export const getSupportedVideoFormats = (): VideoFormat[] => {
+  return (['webm', 'mp4'] as VideoFormat[]).filter(format => getMimeType(format) !== null);
+};
+
+const loadAudioBuffer = async (audioCtx: AudioContext, url: string): Promise<AudioBuffer> => {
+  const response = await fetch(url);
+  const data = await response.arrayBuffer();
+  return audioCtx.decodeAudioData(data);
+};
+
+/**
+ * Records the animation into a video file in real time using MediaRecorder.
+ * Frames are pushed to the capture stream one by one, and the background music
+ * (if any) is mixed in through a WebAudio stream destination.
+ */
+export const exportVideo = async (
+  frames: Frame[],
+  options: VideoExportOptions,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  if (frames.length === 0) throw new Error("Nothing to export");
+  const mimeType = getMimeType(options.format);
+  if (!mimeType) throw new Error(`${options.format} recording is not supported in this browser`);
+
+  const first = await getBitmap(frames[0].composite);
+  const width = Math.max(2, Math.round(first.width * options.scale / 2) * 2);
+  const height = Math.max(2, Math.round(first.height * options.scale / 2) * 2);
+  // Recording can't wait for decoding, so every frame is decoded up front at the output size
+  const images = await Promise.all(frames.map(f => decodeImage(f.composite, {
+    resizeWidth: width,
+    resizeHeight: height,
+    resizeQuality: 'high'
+  })));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas not supported");
+
+  const drawFrame = (img: ImageBitmap) => {
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+  };
+  drawFrame(images[0]);
+
+  // Frame rate 0 = we decide when a frame is captured via requestFrame()
+  const stream = canvas.captureStream(0);
+  const videoTrack = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+  let audioCtx: AudioContext | null = null;
+  let audioSource: AudioBufferSourceNode | null = null;
+  let recorder: MediaRecorder | null = null;
+  const chunks: Blob[] = [];
+
+  // One video frame per exposure so held frames stay on screen for their full duration
+  const exposures = expandExposures(frames);
+  const frameDuration = 1000 / options.fps;
+  const totalFrames = exposures.length * Math.max(1, options.repeat);
+  let audioStarted = false;
+
+  // Music that can't be loaded still goes through the cleanup below, so the audio context is closed
+  try {
+    if (options.audioUrl) {
+      audioCtx = new AudioContext();
+      const buffer = await loadAudioBuffer(audioCtx, options.audioUrl);
+      const destination = audioCtx.createMediaStreamDestination();
+      audioSource = audioCtx.createBufferSource();
+      audioSource.buffer = buffer;
+      audioSource.loop = options.audioFit === 'loop';
+      audioSource.connect(destination);
+      destination.stream.getAudioTracks().forEach(track => stream.addTrack(track));
+    }
+
+    const activeRecorder = new MediaRecorder(stream, { mimeType });
+    recorder = activeRecorder;
+    activeRecorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+
+    const stopped = new Promise<void>((resolve, reject) => {
+      activeRecorder.onstop = () => resolve();
+      activeRecorder.onerror = () => reject(new Error("Recording failed"));
+    });
+
+    activeRecorder.start();
+    if (audioCtx && audioSource) {
+      await audioCtx.resume();
+      audioSource.start();
+      audioStarted = true;
+    }
+    const startTime = performance.now();
+
+    // Schedule against the start time rather than chaining fixed delays, so timing doesn't drift
+    for (let i = 0; i < totalFrames; i++) {
+      signal?.throwIfAborted();
+      drawFrame(images[exposures[i % exposures.length]]);
+      videoTrack.requestFrame();
+      onProgress?.((i + 1) / totalFrames);
+
+      const nextFrameAt = startTime + (i + 1) * frameDuration;
+      await new Promise(resolve => setTimeout(resolve, Math.max(0, nextFrameAt - performance.now())));
+    }
+
+    // The recording ends with the animation, which trims longer music tracks
+    activeRecorder.stop();
+    await stopped;
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    if (audioStarted) audioSource?.stop();
+    audioCtx?.close();
+    stream.getTracks().forEach(track => track.stop());
+    images.forEach(img => img.close());
+  }
+
+  onProgress?.(1);
+  if (chunks.length === 0) throw new Error("Recording produced no data");
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+};
@@ -0,0 +1,80 @@
+// View transform for the drawing stage (zoom, pan and paper rotation).
+// The stage is centered in the viewport and transformed around its own center as
+// `translate(panX, panY) rotate(rotation) scale(zoom)`.
+
+export interface ViewTransform {
+  zoom: number;
+  panX: number; // CSS px offset of the stage center from the viewport center
+  panY: number;
+  rotation: number; // Degrees, clockwise
+}
+
+export const DEFAULT_VIEW: ViewTransform = { zoom: 1, panX: 0, panY: 0, rotation: 0 };
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 8;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const normalizeRotation = (degrees: number) => ((degrees % 360) + 540) % 360 - 180;
+
+export const toCssTransform = (view: ViewTransform) =>
+  `translate(${view.panX}px, ${view.panY}px) rotate(${view.rotation}deg) scale(${view.zoom})`;
+
+const rotate = (x: number, y: number, degrees: number) => {
+  const rad = degrees * Math.PI / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+/**
+ * Changes zoom (and optionally rotation) while keeping the content under `anchor` in place.
+ * `anchor` is relative to the viewport center, in CSS px.
+ */
+export const transformAroundPoint = (
+  view: ViewTransform,
+  anchor: { x: number; y: number },
+  zoom: number,
+  rotation: number = view.rotation
+): ViewTransform => {
+  const nextZoom = clampZoom(zoom);
+  // Stage-local vector (unscaled, unrotated) under the anchor
+  const local = rotate((anchor.x - view.panX) / view.zoom, (anchor.y - view.panY) / view.zoom, -view.rotation);
+  const moved = rotate(local.x * nextZoom, local.y * nextZoom, rotation);
+  return {
+    zoom: nextZoom,
+    rotation: normalizeRotation(rotation),
+    panX: anchor.x - moved.x,
+    panY: anchor.y - moved.y
+  };
+};
+
+/**
+ * Maps a pointer position to canvas pixel coordinates, accounting for CSS scaling,
+ * the stage zoom/pan (via the element's bounding box) and the stage rotation.
+ */
+export const clientToCanvasPoint = (
+  clientX: number,
+  clientY: number,
+  element: HTMLElement,
+  canvasWidth: number,
+  canvasHeight: number,
+  rotation: number
+) => {
+  const rect = element.getBoundingClientRect();
+  const layoutWidth = element.offsetWidth || rect.width;
+  const layoutHeight = element.offsetHeight || rect.height;
+
+  // A rotated element's bounding box is axis aligned but still centered on the element
+  const local = rotate(clientX - (rect.left + rect.width / 2), clientY - (rect.top + rect.height / 2), -rotation);
+
+  const rad = rotation * Math.PI / 180;
+  const boxWidth = layoutWidth * Math.abs(Math.cos(rad)) + layoutHeight * Math.abs(Math.sin(rad));
+  const scale = boxWidth > 0 ? rect.width / boxWidth : 1;
+
+  return {
+    x: (local.x / scale + layoutWidth / 2) * (canvasWidth / layoutWidth),
+    y: (local.y / scale + layoutHeight / 2) * (canvasHeight / layoutHeight)
+  };
+};
@@ -1,20 +1,63 @@
 
 export interface DrawObject {
   id: string;
-  type: 'stroke' | 'shape';
+  type: 'stroke' | 'shape' | 'text' | 'group';
   paths: { x: number; y: number; pressure?: number }[];
   color: string;
   brushSize: number;
   tool: ToolType;
   bounds: { x: number; y: number; width: number; height: number };
-  rotation: number;
+  rotation: number; // Radians around the bounds centre. Only used while there's no `transform`
+  transform?: Matrix; // Scale, rotation and flips applied to `paths` and `bounds` when drawn
+  dynamics?: BrushDynamics; // Brush settings the stroke was drawn with. Older strokes have a constant width
+  brushId?: string; // Preset the stroke was drawn with, for its stamp texture
+  seed?: number; // Randomness of the stamp texture, so it redraws identically. Older strokes use their id
+  shape?: ShapeStyle; // Only on shapes, which `paths` holds the two dragged-out corners (or ends) of
+  tail?: { x: number; y: number }; // Only on speech and thought bubbles: tip of the tail, in the same space as `paths`
+  text?: string; // Only on text, which `paths` holds the anchor of (top of the first line, at the aligned edge)
+  textStyle?: TextStyle; // Only on text; `color` is the letters' color
+  children?: DrawObject[]; // Only on groups: their objects, bottom to top, drawn with the group's transform
+}
+
+/** Image kept by the frame store (services/frameStore). Images never change; edits make new ones */
+export interface ImageHandle {
+  readonly id: string;
+}
+
+/** 2D affine transform [a, b, c, d, e, f], as taken by canvas `setTransform` */
+export type Matrix = [number, number, number, number, number, number];
+
+export type BlendMode = 'normal' | 'multiply' | 'screen' | 'overlay' | 'darken' | 'lighten';
+
+/** Raster layers are painted as pixels; vector layers hold editable objects */
+export type LayerKind = 'raster' | 'vector';
+
+export interface FrameLayer {
+  id: string; // Same id for the same layer in every frame of a project
+  name: string;
+  kind: LayerKind;
+  visible: boolean;
+  locked: boolean;
+  opacity: number; // 0-1
+  blendMode: BlendMode;
+  image: ImageHandle; // Transparent image of the layer's pixels
+  objects?: DrawObject[]; // Vector objects, drawn over the pixels. Only vector layers get new ones
 }
 
 export interface Frame {
   id: string;
-  dataUrl: string; // Base64 composite image for playback/timeline
-  layers: string[]; // Array of 3 Base64 images [Background, Middle, Foreground]
-  objects?: DrawObject[][]; // Array of 3 object arrays for each layer
+  composite: ImageHandle; // Layers flattened on paper, for playback/timeline
+  layers: FrameLayer[]; // Bottom to top. Every frame of a project has the same layers
+  duration?: number; // Exposures this frame is held for (1 = on ones, 2 = on twos). Defaults to 1
+  keyframe?: boolean; // Marked as a key pose; onion skin can be limited to these
+  effect?: EffectRun; // Set on frames generated by an effect
+}
+
+export interface EffectRun {
+  effect: string; // e.g. 'melt'
+  params?: Record<string, number>; // Missing on frames made before effects had settings, which used the defaults
+  frameCount?: number;
+  seed: number; // Running the effect again with this seed reproduces the frame exactly
 }
 
 export enum ToolType {
@@ -26,6 +69,8 @@ export enum ToolType {
   FILL = 'FILL',     // Paint Bucket
   PICKER = 'PICKER', // Eyedropper
   SELECT = 'SELECT', // Selection tool
+  SHAPE = 'SHAPE',   // Vector shapes
+  TEXT = 'TEXT',     // Titles and dialogue
 }
 
 export interface AnimationState {
@@ -36,19 +81,108 @@ export interface AnimationState {
   onionSkin: boolean;
 }
 
+export interface OnionSkinSettings {
+  before: number; // Frames shown before the current one
+  after: number; // Frames shown after the current one
+  pastColor: string; // Tint for earlier frames
+  futureColor: string; // Tint for later frames
+  opacity: number; // Opacity of the nearest frame (0-1)
+  falloff: number; // Opacity multiplier per step further away (0-1)
+  keyframesOnly: boolean;
+  loop: boolean; // Wrap around the ends of the timeline
+}
+
+export interface FillSettings {
+  tolerance: number; // 0-100, how different a color may be and still get filled
+  expand: number; // Pixels to grow (+) or shrink (-) the filled area
+  gapClosing: number; // Breaks in lines up to about twice this many pixels are treated as closed
+  sampleMerged: boolean; // Find the area using all visible layers instead of just the active one
+}
+
+export interface CurvePoint {
+  x: number; // Input, 0-1
+  y: number; // Output, 0-1 (size curves may go above 1)
+}
+
+export interface BrushDynamics {
+  stabilizer: number; // 0-100, how far the pen trails behind the pointer (pulled string)
+  smoothing: boolean; // Curve the stroke through the pointer positions instead of joining them with straight lines
+  taperStart: number; // Pixels over which the stroke thins in
+  taperEnd: number; // Pixels over which the stroke thins out
+  sizeCurve: CurvePoint[]; // Pen pressure to size multiplier, sorted by x
+  opacityCurve: CurvePoint[]; // Pen pressure to opacity, sorted by x
+}
+
+export interface BrushPreset {
+  id: string;
+  name: string;
+  builtIn?: boolean; // Ships with the app; can be duplicated but not changed
+  tool: ToolType; // Tool it behaves as, which also picks its pressure and stabilizer settings
+  stamp: string; // Built-in stamp name, or a data URL of a custom stamp image whose alpha is the shape
+  spacing: number; // Gap between stamps as a fraction of the brush size
+  jitter: number; // 0-1, random variation in stamp size
+  scatter: number; // 0-1, random offset of each stamp as a fraction of the brush size
+  angle: number; // Stamp rotation in degrees
+  followDirection: boolean; // Turn stamps with the direction of the stroke
+  opacity: number; // 0-1, for the whole stroke
+  blendMode: BlendMode; // How the finished stroke mixes with the layer
+}
+
+export interface PickerSettings {
+  radius: number; // Pixels around the point that are averaged (0 = single pixel)
+  sampleOpacity: boolean; // Also pick up how see-through the color is
+}
+
+export type ShapeKind = 'line' | 'rectangle' | 'ellipse' | 'polygon' | 'arrow' | 'star' | 'speech' | 'thought';
+
+/** How a shape looks, apart from its outline color (`color`) and width (`brushSize`) */
+export interface ShapeStyle {
+  kind: ShapeKind;
+  fill: string | null; // Inside color of closed shapes, null for none
+  cornerRadius: number; // Pixels; rounds rectangles, polygons and stars
+  sides: number; // Corners of a polygon, points of a star
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+  fontFamily: string; // CSS font family list
+  fontSize: number; // Pixels
+  align: TextAlign;
+  outline: string | null; // Color drawn around the letters, null for none
+  outlineWidth: number; // Pixels
+}
+
+export type SelectionShape = 'rect' | 'lasso';
+
+export interface SelectionSettings {
+  shape: SelectionShape; // How the select tool marks pixels on raster layers
+}
+
 export interface DrawingSettings {
   color: string;
+  opacity: number; // 0-1, applied to whole strokes and fills
   brushSize: number;
   tool: ToolType;
+  brushId: string; // Preset used by the drawing tools
+  fill: FillSettings;
+  picker: PickerSettings;
+  selection: SelectionSettings;
+  shape: ShapeStyle; // For new shapes
+  text: TextStyle; // For new text, and text being edited
+  dynamics: Partial<Record<ToolType, BrushDynamics>>; // Per-tool overrides of the default brush dynamics
 }
 
 export interface Project {
   id: string;
   name: string;
   lastModified: number;
-  previewImage: string; // URL of the first frame
-  frames: Frame[];
+  preview: ImageHandle | null; // The first frame; only a thumbnail while the project isn't open
+  frames: Frame[]; // Empty until the project is opened (loaded lazily from storage)
+  frameCount?: number; // Known frame count while `frames` is not loaded
   fps: number;
+  width: number; // Fixed stage resolution, chosen at creation
+  height: number;
 }
 
 export interface Tutorial {